@@ -0,0 +1,97 @@
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+import UpdateChecklistHandler from '../handlers/updateChecklistHandler.js';
+import UpdateContextHandler from '../handlers/updateContextHandler.js';
+import { ChecklistItem } from '../types.js';
+
+describe('checklist base type', () => {
+  const projectName = 'test-project';
+  let memoryHelper: MemoryHelper;
+  let handler: UpdateChecklistHandler;
+
+  const readChecklist = async (): Promise<string | undefined> =>
+    (await (await contextTypeFactory({ persistenceHelper: memoryHelper, projectName, contextType: 'todo' })).read()).content;
+
+  const itemOf = (result: { structuredContent?: Record<string, unknown> }): ChecklistItem =>
+    result.structuredContent?.item as ChecklistItem;
+
+  beforeEach(async () => {
+    memoryHelper = new MemoryHelper();
+    await memoryHelper.initProject(projectName);
+    await memoryHelper.writeProjectConfig(projectName, {
+      contextTypes: [
+        { baseType: 'checklist', name: 'todo', description: 'Open work' },
+        { baseType: 'freeform-single-document', name: 'notes', description: 'Notes' }
+      ]
+    });
+    handler = new UpdateChecklistHandler(memoryHelper);
+  });
+
+  test('reads an empty list before anything is added', async () => {
+    expect(await readChecklist()).toBe('# todo\n\nNo items yet.\n');
+  });
+
+  test('adds, completes, blocks, reopens and removes items by ID', async () => {
+    const migration = itemOf(await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'Write the migration', owner: 'alice' }));
+    const review = itemOf(await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'Review the schema' }));
+    const deploy = itemOf(await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'Deploy to staging' }));
+    expect([migration.id, review.id, deploy.id]).toEqual(['1', '2', '3']);
+    expect(migration).toMatchObject({ status: 'open', owner: 'alice', createdAt: expect.any(String) });
+
+    const completed = itemOf(await handler.handle({ projectName, contextType: 'todo', action: 'complete', itemId: '2' }));
+    expect(completed).toMatchObject({ status: 'done', completedAt: completed.updatedAt });
+    await handler.handle({ projectName, contextType: 'todo', action: 'block', itemId: '3' });
+
+    expect(await readChecklist()).toBe([
+      '# todo',
+      '',
+      '- [ ] Write the migration (#1, owner: alice)',
+      `- [x] Review the schema (#2, done ${completed.completedAt})`,
+      '- [ ] Deploy to staging (#3, blocked)',
+      ''
+    ].join('\n'));
+
+    const reopened = itemOf(await handler.handle({ projectName, contextType: 'todo', action: 'reopen', itemId: '2' }));
+    expect(reopened.status).toBe('open');
+    expect(reopened).not.toHaveProperty('completedAt');
+
+    const removed = await handler.handle({ projectName, contextType: 'todo', action: 'remove', itemId: '3' });
+    expect((removed.structuredContent?.items as ChecklistItem[]).map(item => item.id)).toEqual(['1', '2']);
+
+    // IDs of removed items are not handed out again
+    expect(itemOf(await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'Tag the release' })).id).toBe('4');
+  });
+
+  test('keeps counting item IDs after the list is cleared', async () => {
+    await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'Write the migration' });
+    await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'Review the schema' });
+
+    const todo = await contextTypeFactory({ persistenceHelper: memoryHelper, projectName, contextType: 'todo' });
+    expect(await todo.reset()).toEqual({ success: true });
+    expect(await readChecklist()).toBe('# todo\n\nNo items yet.\n');
+    expect((await memoryHelper.listArchives(projectName, 'todo')).archives).toHaveLength(1);
+
+    expect(itemOf(await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'Deploy to staging' })).id).toBe('3');
+  });
+
+  test('reports unknown items, missing arguments and multi-line text', async () => {
+    const unknown = await handler.handle({ projectName, contextType: 'todo', action: 'complete', itemId: '9' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toBe('Item #9 not found in checklist todo. Use get_context to see the items and their IDs.');
+
+    expect((await handler.handle({ projectName, contextType: 'todo', action: 'remove' })).content[0].text)
+      .toBe('item_id is required to remove a checklist item.');
+    expect((await handler.handle({ projectName, contextType: 'todo', action: 'add', text: 'One\nTwo' })).content[0].text)
+      .toBe('Checklist item text has to be a single line.');
+    expect((await handler.handle({ projectName, contextType: 'notes', action: 'add', text: 'Nope' })).isError).toBe(true);
+  });
+
+  test('update_context points to update_checklist instead of replacing the list', async () => {
+    const result = await new UpdateContextHandler(memoryHelper).handle({ projectName, contextType: 'todo', content: '- [ ] Something' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('todo is a checklist and changes an item at a time');
+    expect(result.content[0].text).toContain('Use update_checklist with action "add"');
+  });
+});
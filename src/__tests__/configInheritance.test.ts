@@ -0,0 +1,124 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { ContextTypeEditor } from '../models/context_types/utilities/contextTypeEditor.js';
+import GetProjectConfigHandler from '../handlers/getProjectConfigHandler.js';
+import { ProjectConfig } from '../types.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('global default config', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  const projectName = 'test-project';
+
+  const defaults: ProjectConfig = {
+    archive: { maxSnapshots: 5 },
+    contextTypes: [
+      { baseType: 'templated-log', name: 'session_summary', description: 'Sessions', template: 'session_summary', validation: true },
+      { baseType: 'freeform-single-document', name: 'mental_model', description: 'Architecture' },
+      { baseType: 'freeform-document-collection', name: 'other', description: 'Anything else' }
+    ]
+  };
+
+  const writeJson = async (filePath: string, value: object): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(value));
+  };
+  const projectConfigPath = (): string => path.join(tempDir, 'projects', projectName, 'project-config.json');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-inheritance-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    await writeJson(path.join(tempDir, 'default-config.json'), defaults);
+    await fileSystemHelper.initProject(projectName);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('new projects inherit the default config', async () => {
+    const result = await fileSystemHelper.getProjectConfig(projectName);
+
+    expect(result).toEqual({ success: true, config: defaults });
+    expect(JSON.parse(await fs.readFile(projectConfigPath(), 'utf-8'))).toEqual({ contextTypes: [] });
+  });
+
+  test('projects extend, override, replace and exclude inherited types', async () => {
+    await writeJson(projectConfigPath(), {
+      archive: { maxAgeDays: 30 },
+      contextTypes: [
+        { baseType: 'freeform-log', name: 'decisions', description: 'Decisions' },
+        { baseType: 'freeform-document-collection', name: 'mental_model', description: 'Architecture notes' }
+      ],
+      overrides: { session_summary: { validation: false } },
+      exclude: ['other']
+    });
+
+    const result = await new GetProjectConfigHandler(fileSystemHelper).handle({ projectName });
+
+    expect(result.structuredContent).toEqual({
+      config: {
+        archive: { maxSnapshots: 5, maxAgeDays: 30 },
+        contextTypes: [
+          { ...defaults.contextTypes[0], validation: false },
+          { baseType: 'freeform-document-collection', name: 'mental_model', description: 'Architecture notes' },
+          { baseType: 'freeform-log', name: 'decisions', description: 'Decisions' }
+        ]
+      },
+      hasDefaultConfig: true,
+      inherited: [],
+      overridden: ['session_summary', 'mental_model'],
+      excluded: ['other'],
+      warnings: []
+    });
+  });
+
+  test('warns about overrides and exclusions that match nothing', async () => {
+    await writeJson(projectConfigPath(), { contextTypes: [], overrides: { sessions: { validation: false } }, exclude: ['others'] });
+
+    const result = await fileSystemHelper.getProjectConfig(projectName);
+
+    expect(result.success).toBe(true);
+    expect(result.config?.contextTypes).toEqual(defaults.contextTypes);
+    expect(result.errors).toEqual([
+      'overrides.sessions matches no context type in the project or the default config',
+      "exclude lists 'others', which is not a context type of the default config"
+    ]);
+  });
+
+  test('reports an invalid default config to every project', async () => {
+    const other = new FileSystemHelper(tempDir);
+    await writeJson(path.join(tempDir, 'default-config.json'), { contextTypes: [{ baseType: 'log', name: 'x', description: 'x' }] });
+
+    const result = await other.getProjectConfig(projectName);
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toMatch(/^Invalid default config file: \/contextTypes\/0\/baseType: "log" is not allowed/);
+  });
+
+  test('configure_context_type edits inherited types through overrides and exclude', async () => {
+    const editor = new ContextTypeEditor(fileSystemHelper, projectName);
+
+    expect((await editor.update('mental_model', { description: 'How it fits together' })).success).toBe(true);
+    expect((await editor.remove('other', 'keep')).success).toBe(true);
+    expect((await editor.add({ baseType: 'freeform-log', name: 'decisions', description: 'Decisions' })).success).toBe(true);
+
+    expect(JSON.parse(await fs.readFile(projectConfigPath(), 'utf-8'))).toEqual({
+      contextTypes: [{ baseType: 'freeform-log', name: 'decisions', description: 'Decisions' }],
+      overrides: { mental_model: { description: 'How it fits together' } },
+      exclude: ['other']
+    });
+    expect((await fileSystemHelper.getProjectConfig(projectName)).config?.contextTypes.map(ct => ct.name)).toEqual(
+      ['session_summary', 'mental_model', 'decisions']
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { ContextHistory, sectionDiff } from '../models/context_types/utilities/history.js';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('ContextHistory', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  let history: ContextHistory;
+  let projectName: string;
+
+  const update = async (contextType: string, content: string, contextName?: string): Promise<void> => {
+    const context = await contextTypeFactory({ persistenceHelper: fileSystemHelper, projectName, contextType, contextName, content });
+    const result = await context.update();
+    expect(result.success).toBe(true);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'context-history-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    projectName = 'test-project';
+    history = new ContextHistory(fileSystemHelper, projectName);
+
+    await fileSystemHelper.initProject(projectName);
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({
+        contextTypes: [
+          { baseType: 'freeform-single-document', name: 'mental_model', description: 'Model', validation: false },
+          { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false },
+          { baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }
+        ]
+      })
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  describe('listVersions', () => {
+    test('lists the current version followed by archived versions, newest first', async () => {
+      await update('mental_model', 'v1');
+      await update('mental_model', 'version 2');
+      await update('mental_model', 'v3');
+
+      const result = await history.listVersions('mental_model');
+
+      expect(result.success).toBe(true);
+      expect(result.versions?.map(v => v.size)).toEqual([2, 9, 2]);
+      expect(result.versions?.[0]).toEqual({ version: 'current', replacedAt: null, size: 2 });
+      expect(result.versions?.[1].replacedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(result.versions![1].version > result.versions![2].version).toBe(true);
+    });
+
+    test('lists only the versions of the named collection document', async () => {
+      await update('general', 'notes v1', 'notes');
+      await update('general', 'plan v1', 'plan');
+      await fileSystemHelper.clearContext(projectName, 'general', ['notes']);
+      await update('general', 'notes v2', 'notes');
+
+      const result = await history.listVersions('general', 'notes');
+
+      expect(result.versions).toHaveLength(2);
+      const archived = await history.readVersion('general', 'notes', result.versions![1].version);
+      expect(archived.content).toBe('notes v1');
+    });
+
+    test('leaves out versions replaced before since', async () => {
+      await update('mental_model', 'v1');
+      await update('mental_model', 'v2');
+
+      const future = await history.listVersions('mental_model', undefined, '2999-01-01');
+      const past = await history.listVersions('mental_model', undefined, '2000-01-01');
+
+      expect(future.versions?.map(v => v.version)).toEqual(['current']);
+      expect(past.versions).toHaveLength(2);
+    });
+
+    test('rejects log types, which have no versions', async () => {
+      const result = await history.listVersions('dev_log');
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatch(/dev_log is a log/);
+    });
+
+    test('requires a context name for collections', async () => {
+      const result = await history.listVersions('general');
+
+      expect(result.errors).toEqual(["context_name is required for document collection 'general'"]);
+    });
+  });
+
+  describe('diff', () => {
+    test('returns a unified diff between an archived version and the current one', async () => {
+      await update('mental_model', '# Model\n\nold line\n');
+      await update('mental_model', '# Model\n\nnew line\n');
+      const [, previous] = (await history.listVersions('mental_model')).versions!;
+
+      const result = await history.diff('mental_model', undefined, previous.version);
+
+      expect(result.success).toBe(true);
+      expect(result.content).toContain(`--- mental_model@${previous.version}`);
+      expect(result.content).toContain('+++ mental_model@current');
+      expect(result.content).toContain('-old line');
+      expect(result.content).toContain('+new line');
+    });
+
+    test('reports identical versions', async () => {
+      await update('mental_model', 'same');
+      await update('mental_model', 'same');
+      const [, previous] = (await history.listVersions('mental_model')).versions!;
+
+      const result = await history.diff('mental_model', undefined, previous.version, 'current');
+
+      expect(result.content).toBe(`No differences between mental_model@${previous.version} and mental_model@current.`);
+    });
+
+    test('reports versions that do not exist', async () => {
+      await update('mental_model', 'v1');
+
+      const result = await history.diff('mental_model', undefined, '2020-01-01T00-00-00-000Z');
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatch(/not found/);
+    });
+  });
+
+  describe('sectionDiff', () => {
+    test('lists added, removed and changed sections', () => {
+      const before = '# Model\n\n## Overview\nold\n\n## Risks\nnone\n';
+      const after = '# Model\n\n## Overview\nnew\n\n## Decisions\nuse git\n';
+
+      const result = sectionDiff(before, after, 'a', 'b');
+
+      expect(result).toContain('## Added\n- `Model > Decisions`');
+      expect(result).toContain('## Removed\n- `Model > Risks`');
+      expect(result).toContain('### `Model > Overview`\n```diff\n- old\n+ new\n```');
+      expect(result).toContain('1 section(s) unchanged.');
+    });
+  });
+});
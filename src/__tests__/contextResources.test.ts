@@ -0,0 +1,88 @@
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+import ResourcesHandler, { contextUri, parseContextUri } from '../handlers/resourcesHandler.js';
+
+describe('context resources', () => {
+  let memoryHelper: MemoryHelper;
+  let resources: ResourcesHandler;
+  const projectName = 'test-project';
+
+  beforeEach(async () => {
+    memoryHelper = new MemoryHelper();
+    resources = new ResourcesHandler(memoryHelper);
+    await memoryHelper.initProject(projectName);
+    await memoryHelper.writeProjectConfig(projectName, {
+      contextTypes: [
+        { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false },
+        { baseType: 'freeform-single-document', name: 'overview', description: 'Overview', validation: false },
+        { baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }
+      ]
+    });
+    await memoryHelper.writeContext(projectName, 'general', 'api notes', '# API');
+    await memoryHelper.writeContext(projectName, 'overview', 'overview', '# Overview');
+  });
+
+  test('encodes each URI segment and parses it back', () => {
+    const uri = contextUri(projectName, 'general', 'api notes');
+
+    expect(uri).toBe('context://test-project/general/api%20notes');
+    expect(parseContextUri(uri)).toEqual({ projectName, contextType: 'general', name: 'api notes' });
+    expect(parseContextUri('context://test-project')).toBeNull();
+    expect(parseContextUri('file:///tmp/notes.md')).toBeNull();
+  });
+
+  test('lists collection documents, single documents and logs', async () => {
+    const { resources: listed } = await resources.listResources();
+
+    expect(listed.map(resource => resource.uri)).toEqual([
+      'context://test-project/general/api%20notes',
+      'context://test-project/overview',
+      'context://test-project/dev_log'
+    ]);
+  });
+
+  test('reads documents and log entries through the context types', async () => {
+    await memoryHelper.writeContext(projectName, 'dev_log', 'dev_log', 'Entry');
+    const [entry] = (await memoryHelper.listContextEntries(projectName, 'dev_log')).entries!;
+
+    expect(await resources.readResource('context://test-project/general/api%20notes')).toEqual({
+      contents: [{ uri: 'context://test-project/general/api%20notes', mimeType: 'text/markdown', text: '# API' }]
+    });
+    expect((await resources.readResource(contextUri(projectName, 'dev_log', entry.name))).contents[0].text).toBe('Entry');
+
+    const index = await resources.readResource('context://test-project/general');
+    expect(index.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(index.contents[0].text).map((doc: { contextName: string }) => doc.contextName)).toEqual(['api notes']);
+  });
+
+  test('rejects URIs that name nothing readable', async () => {
+    await expect(resources.readResource('context://test-project')).rejects.toThrow('Invalid resource URI');
+    await expect(resources.readResource('context://test-project/missing')).rejects.toThrow("Context type 'missing' not found");
+    await expect(resources.readResource('context://test-project/overview/other')).rejects.toThrow('is a single document');
+  });
+
+  test('reports subscribed resources a write changes', () => {
+    resources.subscribe('context://test-project/general/api notes');
+    resources.subscribe('context://test-project/dev_log');
+
+    expect(resources.updatedResources(projectName, 'general', 'api notes')).toEqual(['context://test-project/general/api%20notes']);
+    expect(resources.updatedResources(projectName, 'dev_log')).toEqual(['context://test-project/dev_log']);
+    expect(resources.updatedResources(projectName, 'overview')).toEqual([]);
+
+    resources.unsubscribe('context://test-project/dev_log');
+    expect(resources.updatedResources(projectName, 'dev_log')).toEqual([]);
+  });
+
+  test('reports every subscribed context of a type cleared as a whole', async () => {
+    await memoryHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first entry');
+    const [entry] = (await memoryHelper.listContextEntries(projectName, 'dev_log')).entries!;
+    resources.subscribe(`context://test-project/dev_log/${entry.name}`);
+    resources.subscribe('context://test-project/general/api notes');
+    resources.subscribe('context://other-project/dev_log');
+
+    await memoryHelper.clearContext(projectName, 'dev_log');
+
+    expect(resources.updatedResources(projectName, 'dev_log')).toEqual([`context://test-project/dev_log/${entry.name}`]);
+    expect(resources.updatedResources(projectName, 'dev_log', entry.name)).toEqual([`context://test-project/dev_log/${entry.name}`]);
+  });
+});
@@ -0,0 +1,131 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { ContextSearch, tokenize } from '../models/context_types/utilities/search.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('ContextSearch', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  let search: ContextSearch;
+  const projectName = 'test-project';
+
+  const createProject = async (name: string): Promise<void> => {
+    await fileSystemHelper.initProject(name);
+    await fs.writeFile(
+      path.join(tempDir, 'projects', name, 'project-config.json'),
+      JSON.stringify({
+        contextTypes: [
+          { baseType: 'freeform-single-document', name: 'mental_model', description: 'Model', validation: false },
+          { baseType: 'freeform-document-collection', name: 'features', description: 'Docs', validation: false },
+          { baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }
+        ]
+      })
+    );
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'context-search-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    search = new ContextSearch(fileSystemHelper);
+
+    await createProject(projectName);
+    await fileSystemHelper.writeContext(projectName, 'features', 'api-gateway',
+      '# API Gateway\n\nRoutes requests.\n\n## Rate Limiting\n\nRequests are throttled with a token bucket rate limiting scheme.\n\n## Auth\n\nJWT tokens.');
+    await fileSystemHelper.writeContext(projectName, 'features', 'billing',
+      '# Billing\n\nInvoices are generated monthly. The billing API has a rate of one request per second.');
+    await fileSystemHelper.writeContext(projectName, 'mental_model', 'mental_model',
+      '# Mental Model\n\n## Components\n\nGateway, billing and storage.');
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('ranks the most relevant section first with its heading path and a snippet', async () => {
+    const response = await search.search('rate limiting');
+
+    expect(response.success).toBe(true);
+    const [first, second] = response.results!;
+    expect(first).toMatchObject({
+      projectName,
+      contextType: 'features',
+      contextName: 'api-gateway',
+      headingPath: ['API Gateway', 'Rate Limiting']
+    });
+    expect(first.snippet).toContain('Rate Limiting');
+    expect(second.contextName).toBe('billing');
+    expect(first.score).toBeGreaterThan(second.score);
+  });
+
+  test('reports each context once', async () => {
+    const response = await search.search('gateway');
+
+    const names = response.results!.map(result => result.contextName);
+    expect(names).toEqual(Array.from(new Set(names)));
+    expect(names).toEqual(expect.arrayContaining(['api-gateway', 'mental_model']));
+  });
+
+  test('searches log entries under their timestamped names', async () => {
+    await fileSystemHelper.writeContext(projectName, 'dev_log', 'dev_log', '## Session\n\nInvestigated a flaky websocket test.');
+
+    const response = await search.search('websocket');
+
+    expect(response.results).toHaveLength(1);
+    expect(response.results![0].contextType).toBe('dev_log');
+    expect(response.results![0].contextName).toMatch(/^dev_log-\d{4}-\d{2}-\d{2}T/);
+  });
+
+  test('searches every project unless one is named', async () => {
+    await createProject('other-project');
+    await fileSystemHelper.writeContext('other-project', 'features', 'throttle', '# Throttle\n\nRate limiting for uploads.');
+
+    const everywhere = await search.search('limiting');
+    const scoped = await search.search('limiting', { projectName: 'other-project' });
+
+    expect(everywhere.results!.map(result => result.projectName).sort()).toEqual(['other-project', projectName]);
+    expect(scoped.results!.map(result => result.contextName)).toEqual(['throttle']);
+  });
+
+  test('limits the search to one context type', async () => {
+    const response = await search.search('billing', { contextType: 'mental_model' });
+
+    expect(response.results!.map(result => result.contextType)).toEqual(['mental_model']);
+  });
+
+  test('includes archived contexts only when asked', async () => {
+    await fileSystemHelper.writeContext(projectName, 'features', 'legacy', '# Legacy\n\nThe old mainframe bridge.');
+    await fileSystemHelper.clearContext(projectName, 'features', ['legacy']);
+
+    expect((await search.search('mainframe')).results).toEqual([]);
+
+    const response = await search.search('mainframe', { includeArchives: true });
+    expect(response.results).toHaveLength(1);
+    expect(response.results![0]).toMatchObject({ contextName: 'legacy', headingPath: ['Legacy'] });
+    expect(response.results![0].snapshot).toBeDefined();
+  });
+
+  test('applies the result limit', async () => {
+    const response = await search.search('gateway billing rate', { limit: 1 });
+
+    expect(response.results).toHaveLength(1);
+  });
+
+  test('rejects queries without words and unknown scopes', async () => {
+    expect((await search.search(' -- ')).success).toBe(false);
+    expect((await search.search('rate', { limit: 0 })).success).toBe(false);
+    expect((await search.search('rate', { projectName, contextType: 'missing' })).success).toBe(false);
+  });
+
+  test('tokenizes case-insensitively on letters and digits', () => {
+    expect(tokenize('Rate-Limiting: 429 Ünïcode_ok')).toEqual(['rate', 'limiting', '429', 'ünïcode', 'ok']);
+  });
+});
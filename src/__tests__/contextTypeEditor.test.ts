@@ -0,0 +1,111 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { ContextTypeEditor } from '../models/context_types/utilities/contextTypeEditor.js';
+import ConfigureContextTypeHandler from '../handlers/configureContextTypeHandler.js';
+import { TypeConfig } from '../types.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('ContextTypeEditor', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  let editor: ContextTypeEditor;
+  const projectName = 'test-project';
+
+  const typeNames = async (): Promise<string[]> =>
+    (await fileSystemHelper.getProjectConfig(projectName)).config!.contextTypes.map(ct => ct.name);
+
+  const decisions: TypeConfig = { baseType: 'freeform-document-collection', name: 'decisions', description: 'Decision records' };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'context-type-editor-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    editor = new ContextTypeEditor(fileSystemHelper, projectName);
+    await fileSystemHelper.initProject(projectName);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('adds a context type that is usable straight away', async () => {
+    expect(await editor.add(decisions)).toEqual({ success: true, typeConfig: decisions });
+
+    expect(await typeNames()).toEqual(['general', 'decisions']);
+    expect((await fileSystemHelper.writeContext(projectName, 'decisions', 'adr-1', '# ADR 1')).success).toBe(true);
+  });
+
+  test('rejects duplicate names, unknown base types and missing templates', async () => {
+    expect((await editor.add({ ...decisions, name: 'general' })).errors).toEqual([
+      "Context type 'general' already exists in project 'test-project'. Use action 'update' to change it."
+    ]);
+
+    const invalid = await editor.add({
+      baseType: 'templated-notes' as TypeConfig['baseType'],
+      name: '../notes',
+      description: ''
+    });
+    expect(invalid.errors).toEqual([
+      "Invalid context type name '../notes'. Use letters, digits, '_' and '-', starting with a letter or digit.",
+      expect.stringContaining("Unknown base type 'templated-notes'."),
+      "Context type '../notes' needs a description."
+    ]);
+
+    const untemplated = await editor.add({ baseType: 'templated-log', name: 'standups', description: 'Standups', validation: true });
+    expect(untemplated.errors).toEqual(["Context type 'standups' has validation enabled but no template. Name a template or set validation to false."]);
+
+    const missingTemplate = await editor.add({ baseType: 'freeform-log', name: 'standups', description: 'Standups', template: 'standups', validation: true });
+    expect(missingTemplate.errors).toEqual(["Template 'standups' not found in the project's templates or the package defaults."]);
+
+    const templated = await editor.add({ baseType: 'templated-log', name: 'standups', description: 'Standups', template: 'session_summary', validation: true });
+    expect(templated.success).toBe(true);
+  });
+
+  test('updates fields but keeps the base type of stored content', async () => {
+    await editor.add(decisions);
+
+    expect((await editor.update('decisions', { description: 'ADRs' })).typeConfig).toEqual({ ...decisions, description: 'ADRs' });
+
+    await fileSystemHelper.writeContext(projectName, 'decisions', 'adr-1', '# ADR 1');
+    const rebased = await editor.update('decisions', { baseType: 'freeform-log' });
+    expect(rebased.success).toBe(false);
+    expect(rebased.errors![0]).toContain("Context type 'decisions' has stored content");
+  });
+
+  test('archives or keeps the content of removed types', async () => {
+    await editor.add(decisions);
+    await fileSystemHelper.writeContext(projectName, 'decisions', 'adr-1', '# ADR 1');
+
+    expect((await editor.remove('decisions', 'keep')).success).toBe(true);
+    expect(await typeNames()).toEqual(['general']);
+
+    // Adding the type back finds the kept content, and removing it again archives it
+    await editor.add(decisions);
+    expect((await fileSystemHelper.getContext(projectName, 'decisions', ['adr-1'])).data).toEqual(['# ADR 1']);
+
+    expect((await editor.remove('decisions', 'archive')).success).toBe(true);
+    const archived = await fileSystemHelper.listArchives(projectName, 'decisions');
+    expect(archived.archives!.map(entry => entry.name)).toEqual(['adr-1']);
+  });
+
+  test('the tool asks what happens to the content before removing a type', async () => {
+    const handler = new ConfigureContextTypeHandler(fileSystemHelper);
+
+    const unconfirmed = await handler.handle({ projectName, action: 'remove', contextType: 'general' });
+    expect(unconfirmed.isError).toBe(true);
+    expect(unconfirmed.content[0].text).toContain("Set on_remove to 'archive'");
+    expect(await typeNames()).toEqual(['general']);
+
+    const removed = await handler.handle({ projectName, action: 'remove', contextType: 'general', onRemove: 'keep' });
+    expect(removed.structuredContent).toEqual({ action: 'remove', contextType: expect.objectContaining({ name: 'general' }), onRemove: 'keep' });
+    expect(await typeNames()).toEqual([]);
+  });
+});
@@ -57,7 +57,7 @@ describe('Context Type Specific Behaviors (mocked)', () => {
       expect(storedContent).toEqual(['second content']);
     });
 
-    test('templated single document performs reset before update', async () => {
+    test('templated single document archives the replaced content on update', async () => {
       const context = await contextTypeFactory({
         persistenceHelper: mockPersistenceHelper,
         projectName,
@@ -72,7 +72,7 @@ describe('Context Type Specific Behaviors (mocked)', () => {
       let readResult = await context.read();
       expect(readResult.content).toBe('initial content');
       
-      // Second update should reset first (this is the unique behavior)
+      // Second update replaces the document in place, archiving the first version
       const secondContext = await contextTypeFactory({
         persistenceHelper: mockPersistenceHelper,
         projectName,
@@ -89,6 +89,11 @@ describe('Context Type Specific Behaviors (mocked)', () => {
       // Should only have one entry
       const storedContent = mockPersistenceHelper.getStoredContent(projectName, 'templated-single-document', 'templated-single-document');
       expect(storedContent).toEqual(['replacement content']);
+
+      const archives = (await mockPersistenceHelper.listArchives(projectName, 'templated-single-document')).archives!;
+      expect(archives.map(archived => archived.name)).toEqual(['templated-single-document']);
+      const archived = await mockPersistenceHelper.getArchivedContext(projectName, 'templated-single-document', archives[0].snapshot, 'templated-single-document');
+      expect(archived.data).toEqual(['initial content']);
     });
   });
 
@@ -125,7 +130,7 @@ describe('Context Type Specific Behaviors (mocked)', () => {
       expect(content2).toEqual(['content for doc2']);
     });
 
-    test('collection types require contextName for all operations', async () => {
+    test('collection types require contextName to update, reset and read a full document', async () => {
       const context = await contextTypeFactory({
         persistenceHelper: mockPersistenceHelper,
         projectName,
@@ -138,7 +143,13 @@ describe('Context Type Specific Behaviors (mocked)', () => {
       expect(updateResult.success).toBe(false);
       expect(updateResult.errors![0]).toMatch(/Context name is required/);
 
-      const readResult = await context.read();
+      const fullRead = await contextTypeFactory({
+        persistenceHelper: mockPersistenceHelper,
+        projectName,
+        contextType: 'templated-document-collection',
+        mode: 'full'
+      });
+      const readResult = await fullRead.read();
       expect(readResult.success).toBe(false);
       expect(readResult.errors![0]).toMatch(/Context name is required/);
 
@@ -189,6 +200,56 @@ describe('Context Type Specific Behaviors (mocked)', () => {
     });
   });
 
+  describe('Collection Reads Without a Context Name', () => {
+    const readCollection = async (mode?: 'all' | 'index'): Promise<string> => {
+      const context = await contextTypeFactory({
+        persistenceHelper: mockPersistenceHelper,
+        projectName,
+        contextType: 'freeform-document-collection',
+        mode
+      });
+      const result = await context.read();
+      expect(result.success).toBe(true);
+      return result.content!;
+    };
+
+    beforeEach(async () => {
+      await mockPersistenceHelper.writeContext(projectName, 'freeform-document-collection', 'billing', '# Billing\n\nInvoices.');
+      await mockPersistenceHelper.writeContext(projectName, 'freeform-document-collection', 'auth', 'Preamble\n\n## Authentication\n\nTokens.');
+    });
+
+    test('lists an index of names, first headings and sizes by default', async () => {
+      expect(JSON.parse(await readCollection())).toEqual([
+        { contextName: 'auth', title: 'Authentication', size: 36 },
+        { contextName: 'billing', title: 'Billing', size: 20 }
+      ]);
+      expect(await readCollection('index')).toBe(await readCollection());
+    });
+
+    test('returns every document under a name header', async () => {
+      expect(await readCollection('all')).toBe(
+        '==> auth <==\n\nPreamble\n\n## Authentication\n\nTokens.\n\n==> billing <==\n\n# Billing\n\nInvoices.'
+      );
+    });
+
+    test('rejects collection modes for other types or with a context name', async () => {
+      await expect(contextTypeFactory({
+        persistenceHelper: mockPersistenceHelper,
+        projectName,
+        contextType: 'freeform-single-document',
+        mode: 'all'
+      })).rejects.toThrow("mode 'all' only applies to document collection types; freeform-single-document is a freeform-single-document");
+
+      await expect(contextTypeFactory({
+        persistenceHelper: mockPersistenceHelper,
+        projectName,
+        contextType: 'freeform-document-collection',
+        contextName: 'auth',
+        mode: 'index'
+      })).rejects.toThrow("mode 'index' reads the whole freeform-document-collection collection; leave out context_name");
+    });
+  });
+
   describe('Log Types', () => {
     test('log types accumulate content entries', async () => {
       const context1 = await contextTypeFactory({
@@ -389,6 +450,30 @@ describe('Context Type Specific Behaviors (mocked)', () => {
       }
     });
 
+    test('mock archives cleared contexts and lists them by context type', async () => {
+      for (const contextType of ['freeform-single-document', 'freeform-document-collection']) {
+        const context = await contextTypeFactory({
+          persistenceHelper: mockPersistenceHelper,
+          projectName,
+          contextType,
+          contextName: 'doc',
+          content: `Archived ${contextType}`
+        });
+        await context.update();
+        await context.reset();
+      }
+
+      const all = await mockPersistenceHelper.listArchives(projectName);
+      expect(all.archives?.map(archived => archived.contextType).sort()).toEqual(['freeform-document-collection', 'freeform-single-document']);
+
+      const collection = await mockPersistenceHelper.listArchives(projectName, 'freeform-document-collection');
+      expect(collection.archives).toEqual([
+        { contextType: 'freeform-document-collection', snapshot: expect.any(String), name: 'doc', size: 'Archived freeform-document-collection'.length }
+      ]);
+      const archived = await mockPersistenceHelper.getArchivedContext(projectName, 'freeform-document-collection', collection.archives![0].snapshot, 'doc');
+      expect(archived.data).toEqual(['Archived freeform-document-collection']);
+    });
+
     test('mock maintains separate project contexts', async () => {
       // Create contexts in different projects
       const project1 = 'project-1';
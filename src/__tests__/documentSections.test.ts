@@ -0,0 +1,185 @@
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+import { outline, readSection, replaceSection, splitSections } from '../models/context_types/utilities/documentSections.js';
+import { ContextType, ReadMode } from '../types.js';
+
+const document = [
+  '# Mental Model',
+  '',
+  '## System Overview',
+  '',
+  'A context server.',
+  '',
+  '## Components',
+  '',
+  '* **Server**',
+  '* **Handlers**',
+  '',
+  '### Storage',
+  '',
+  'Files on disk.',
+  '',
+  '## Key Decisions',
+  '',
+  '1. Use markdown.',
+  ''
+].join('\n');
+
+describe('document sections', () => {
+  describe('readSection', () => {
+    test('reads a section with its subsections by heading path', () => {
+      expect(readSection(document, 'Mental Model > Components', 'mental_model')).toEqual({
+        success: true,
+        content: '## Components\n\n* **Server**\n* **Handlers**\n\n### Storage\n\nFiles on disk.'
+      });
+    });
+
+    test('accepts a partial path when it is unambiguous', () => {
+      expect(readSection(document, 'storage', 'mental_model')).toEqual({
+        success: true,
+        content: '### Storage\n\nFiles on disk.'
+      });
+    });
+
+    test('lists the available sections when the path matches none', () => {
+      const result = readSection(document, 'Mental Model > Testing', 'mental_model');
+
+      expect(result).toEqual({
+        success: false,
+        errors: [
+          'Section "Mental Model > Testing" not found in mental_model. Available sections: "Mental Model", ' +
+          '"Mental Model > System Overview", "Mental Model > Components", "Mental Model > Components > Storage", "Mental Model > Key Decisions".'
+        ]
+      });
+    });
+
+    test('reports paths that match several sections', () => {
+      const repeated = '# A\n\n## Notes\n\none\n\n# B\n\n## Notes\n\ntwo\n';
+
+      const result = readSection(repeated, 'Notes', 'doc');
+
+      expect(result).toEqual({
+        success: false,
+        errors: ['Section "Notes" is ambiguous in doc; it matches "A > Notes", "B > Notes". Give more of its heading path.']
+      });
+    });
+  });
+
+  describe('replaceSection', () => {
+    test('replaces the body under the heading and leaves the rest untouched', () => {
+      const result = replaceSection(document, 'Key Decisions', '1. Use markdown.\n2. Splice sections.', 'mental_model');
+
+      expect(result).toEqual({
+        success: true,
+        content: document.replace('1. Use markdown.\n', '1. Use markdown.\n2. Splice sections.\n')
+      });
+    });
+
+    test('replaces the heading too when the content starts with one of the same level', () => {
+      const result = replaceSection(document, 'System Overview', '## Overview\n\nA shared context server.', 'mental_model');
+
+      expect(result.success && result.content).toBe(
+        document.replace('## System Overview\n\nA context server.', '## Overview\n\nA shared context server.')
+      );
+    });
+
+    test('replaces subsections along with their parent', () => {
+      const result = replaceSection(document, 'Components', '* **Server**', 'mental_model');
+
+      expect(result.success && result.content).toBe(
+        document.replace('* **Server**\n* **Handlers**\n\n### Storage\n\nFiles on disk.', '* **Server**')
+      );
+    });
+  });
+
+  describe('splitSections', () => {
+    test('splits at headings outside code blocks and numbers repeated headings', () => {
+      const sections = splitSections('intro\n\n# Title\n```\n# not a heading\n```\n## Notes\na\n## Notes\nb');
+
+      expect(sections.map(section => section.key)).toEqual(['', 'Title', 'Title > Notes', 'Title > Notes (2)']);
+      expect(sections[1].content).toBe('# Title\n```\n# not a heading\n```');
+      expect(sections[3]).toEqual({ key: 'Title > Notes (2)', depth: 2, path: ['Title', 'Notes'], content: '## Notes\nb' });
+    });
+
+    test('records heading paths the section argument accepts, setext headings included', () => {
+      const markdown = '# Model\n## Components\n### Parser\nRate Limits\n-----------\n\nbody';
+      const sections = splitSections(markdown);
+
+      expect(sections.map(section => section.path)).toEqual([
+        ['Model'], ['Model', 'Components'], ['Model', 'Components', 'Parser'], ['Model', 'Rate Limits']
+      ]);
+      expect(readSection(markdown, sections[3].key, 'doc')).toEqual({ success: true, content: sections[3].content });
+    });
+  });
+
+  test('outlines headings with their paths and sizes', () => {
+    expect(outline(document)).toEqual([
+      { section: 'Mental Model', depth: 1, size: Buffer.byteLength(document.trimEnd()) },
+      { section: 'Mental Model > System Overview', depth: 2, size: 37 },
+      { section: 'Mental Model > Components', depth: 2, size: 71 },
+      { section: 'Mental Model > Components > Storage', depth: 3, size: 27 },
+      { section: 'Mental Model > Key Decisions', depth: 2, size: 34 }
+    ]);
+  });
+
+  describe('through a templated document', () => {
+    let memoryHelper: MemoryHelper;
+    const projectName = 'test-project';
+    // The mental_model template allows no extra headings, so leave out Storage
+    const templated = document
+      .replace('\n### Storage\n\nFiles on disk.\n', '')
+      .replace('## Key Decisions', '## Data Flow\n\n1. In, out.\n\n## Key Decisions');
+
+    const mentalModel = (args: { section?: string; content?: string; mode?: ReadMode }): Promise<ContextType> => contextTypeFactory({
+      persistenceHelper: memoryHelper,
+      projectName,
+      contextType: 'mental_model',
+      ...args
+    });
+
+    beforeEach(async () => {
+      memoryHelper = new MemoryHelper();
+      await memoryHelper.initProject(projectName);
+      await memoryHelper.writeProjectConfig(projectName, {
+        contextTypes: [{
+          baseType: 'templated-single-document',
+          name: 'mental_model',
+          description: 'Model',
+          template: 'mental_model',
+          validation: true
+        }]
+      });
+      await memoryHelper.writeContext(projectName, 'mental_model', 'mental_model',
+        `${templated}\n## Context Links\n\n- Related Files: none\n`);
+    });
+
+    test('updates one section and keeps the others', async () => {
+      const update = await mentalModel({ section: 'Key Decisions', content: '1. Use mdast offsets.' });
+
+      expect(await update.validate()).toMatchObject({ isValid: true });
+      expect(await update.update()).toEqual({ success: true });
+
+      const read = await (await mentalModel({})).read();
+      expect(read.content).toContain('## Key Decisions\n\n1. Use mdast offsets.');
+      expect(read.content).toContain('## Components\n\n* **Server**\n* **Handlers**\n\n## Data Flow');
+    });
+
+    test('validates the whole document a section update produces', async () => {
+      const update = await mentalModel({ section: 'Data Flow', content: '## Flows\n\nRenamed away.' });
+
+      const validation = await update.validate();
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.validationErrors?.map(error => error.message)).toContain('Missing required header: "Data Flow"');
+    });
+
+    test('reads a single section or the outline', async () => {
+      const section = await (await mentalModel({ section: 'Mental Model > Data Flow' })).read();
+      expect(section).toEqual({ success: true, content: '## Data Flow\n\n1. In, out.', revision: expect.any(String) });
+
+      const outlined = await (await mentalModel({ mode: 'outline' })).read();
+      expect(JSON.parse(outlined.content!).map((entry: { section: string }) => entry.section)).toContain('Mental Model > Context Links');
+    });
+  });
+});
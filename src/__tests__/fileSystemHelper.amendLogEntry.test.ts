@@ -0,0 +1,113 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { ContextType } from '../types.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('FileSystemHelper log entries', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  let projectName: string;
+
+  const entryIds = async (): Promise<string[]> =>
+    (await fileSystemHelper.listContextEntries(projectName, 'dev_log')).entries!.map(entry => entry.name);
+
+  const logEntry = (entryId: string, content?: string): Promise<ContextType> => contextTypeFactory({
+    persistenceHelper: fileSystemHelper,
+    projectName,
+    contextType: 'dev_log',
+    entryId,
+    content
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fsh-amendlogentry-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    projectName = 'test-project';
+
+    await fileSystemHelper.initProject(projectName);
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({
+        contextTypes: [
+          { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false },
+          { baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }
+        ]
+      })
+    );
+
+    await fileSystemHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first');
+    await fileSystemHelper.writeContext(projectName, 'dev_log', 'dev_log', 'second');
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('amends an entry in place and archives the original', async () => {
+    const [second, first] = await entryIds();
+
+    const result = await fileSystemHelper.amendLogEntry(projectName, 'dev_log', first, 'first, corrected');
+
+    expect(result).toEqual({ success: true });
+    expect(await entryIds()).toEqual([second, first]);
+    expect((await fileSystemHelper.getContext(projectName, 'dev_log')).data).toEqual(['second', 'first, corrected']);
+
+    const archived = await fileSystemHelper.listArchives(projectName, 'dev_log');
+    expect(archived.archives).toEqual([
+      { contextType: 'dev_log', snapshot: expect.any(String), name: first, size: 5 }
+    ]);
+  });
+
+  test('reports entries that do not exist', async () => {
+    const result = await fileSystemHelper.amendLogEntry(projectName, 'dev_log', 'dev_log-2000-01-01T00-00-00-000Z', 'content');
+
+    expect(result).toEqual({
+      success: false,
+      errors: ["Log entry 'dev_log-2000-01-01T00-00-00-000Z' not found in dev_log. Use list_log_entries to see its entries."]
+    });
+  });
+
+  test('only amends log types', async () => {
+    await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'notes');
+
+    const result = await fileSystemHelper.amendLogEntry(projectName, 'general', 'notes', 'content');
+
+    expect(result.errors).toEqual(["Context type 'general' is not a log; only log entries can be amended."]);
+  });
+
+  test('clears a single entry by its ID', async () => {
+    const [second, first] = await entryIds();
+
+    const result = await fileSystemHelper.clearContext(projectName, 'dev_log', [second]);
+
+    expect(result.success).toBe(true);
+    expect(await entryIds()).toEqual([first]);
+  });
+
+  test('reads, amends and clears one entry through the log context type', async () => {
+    const [second, first] = await entryIds();
+
+    expect(await (await logEntry(first)).read()).toEqual({ success: true, content: 'first', revision: expect.any(String) });
+
+    expect(await (await logEntry(first, 'amended')).update()).toEqual({ success: true });
+    expect((await (await logEntry(first)).read()).content).toBe('amended');
+
+    expect(await (await logEntry(second)).reset()).toEqual({ success: true });
+    expect(await entryIds()).toEqual([first]);
+
+    expect(await (await logEntry(second)).reset()).toEqual({
+      success: false,
+      errors: [`Log entry '${second}' not found in dev_log. Use list_log_entries to see its entries.`]
+    });
+  });
+});
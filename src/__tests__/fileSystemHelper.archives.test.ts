@@ -0,0 +1,117 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('FileSystemHelper archives', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  let projectName: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fsh-archives-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    projectName = 'test-project';
+
+    await fileSystemHelper.initProject(projectName);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  describe('listArchives', () => {
+    test('returns an empty list when nothing has been cleared', async () => {
+      const result = await fileSystemHelper.listArchives(projectName);
+
+      expect(result).toEqual({ success: true, archives: [] });
+    });
+
+    test('lists cleared contexts with snapshot, name and size', async () => {
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'hello');
+      await fileSystemHelper.clearContext(projectName, 'general', ['notes']);
+
+      const result = await fileSystemHelper.listArchives(projectName);
+
+      expect(result.success).toBe(true);
+      expect(result.archives).toHaveLength(1);
+      expect(result.archives?.[0]).toEqual({
+        contextType: 'general',
+        snapshot: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/),
+        name: 'notes',
+        size: 5
+      });
+    });
+
+    test('lists newest snapshots first', async () => {
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'first');
+      await fileSystemHelper.clearContext(projectName, 'general');
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'second');
+      await fileSystemHelper.clearContext(projectName, 'general');
+
+      const archives = (await fileSystemHelper.listArchives(projectName)).archives!;
+
+      expect(archives).toHaveLength(2);
+      expect(archives[0].snapshot > archives[1].snapshot).toBe(true);
+      expect(archives[0].size).toBe('second'.length);
+    });
+
+    test('limits the listing to one context type', async () => {
+      await fs.mkdir(path.join(tempDir, 'projects', projectName, 'archive', 'other', '2025-01-01T00-00-00-000Z'), { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'projects', projectName, 'archive', 'other', '2025-01-01T00-00-00-000Z', 'doc.md'), 'x');
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'hello');
+      await fileSystemHelper.clearContext(projectName, 'general');
+
+      const all = await fileSystemHelper.listArchives(projectName);
+      const general = await fileSystemHelper.listArchives(projectName, 'general');
+
+      expect(all.archives?.map(a => a.contextType).sort()).toEqual(['general', 'other']);
+      expect(general.archives?.map(a => a.contextType)).toEqual(['general']);
+    });
+
+    test('fails when project does not exist', async () => {
+      const result = await fileSystemHelper.listArchives('nonexistent-project');
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        "Project 'nonexistent-project' does not exist. Create it first using create_project."
+      ]);
+    });
+  });
+
+  describe('getArchivedContext', () => {
+    test('reads archived content', async () => {
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'recover me');
+      await fileSystemHelper.clearContext(projectName, 'general');
+      const [archived] = (await fileSystemHelper.listArchives(projectName)).archives!;
+
+      const result = await fileSystemHelper.getArchivedContext(projectName, 'general', archived.snapshot, 'notes');
+
+      expect(result).toEqual({ success: true, data: ['recover me'] });
+    });
+
+    test('reports archived contexts that do not exist', async () => {
+      const result = await fileSystemHelper.getArchivedContext(projectName, 'general', '2025-01-01T00-00-00-000Z', 'missing');
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatch(/Archived context 'general\/2025-01-01T00-00-00-000Z\/missing' not found/);
+    });
+
+    test('does not read files outside the archive', async () => {
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'live content');
+
+      const result = await fileSystemHelper.getArchivedContext(projectName, '..', '..', 'general/notes');
+
+      expect(result.success).toBe(false);
+      expect(result.data).toBeUndefined();
+    });
+  });
+});
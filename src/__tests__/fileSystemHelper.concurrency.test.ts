@@ -0,0 +1,115 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('FileSystemHelper concurrency', () => {
+  let tempDir: string;
+  let projectName: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fsh-concurrency-test-'));
+    projectName = 'test-project';
+
+    const setupHelper = new FileSystemHelper(tempDir);
+    await setupHelper.initProject(projectName);
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({
+        contextTypes: [
+          { baseType: 'freeform-single-document', name: 'start_here', description: 'Onboarding', validation: false },
+          { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false }
+        ]
+      })
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('concurrent single-document updates never lose the document', async () => {
+    // Separate helpers stand in for separate agent processes sharing CONTEXT_ROOT
+    const updates = Array.from({ length: 5 }, async (_, index) => {
+      const context = await contextTypeFactory({
+        persistenceHelper: new FileSystemHelper(tempDir),
+        projectName,
+        contextType: 'start_here',
+        content: `version ${index}`
+      });
+      return context.update();
+    });
+
+    const results = await Promise.all(updates);
+
+    expect(results.every(result => result.success)).toBe(true);
+
+    const documentDir = path.join(tempDir, 'projects', projectName, 'start_here');
+    expect(await fs.readdir(documentDir)).toEqual(['start_here.md']);
+    const current = await fs.readFile(path.join(documentDir, 'start_here.md'), 'utf-8');
+    expect(current).toMatch(/^version \d$/);
+
+    // Every replaced version was archived rather than overwritten
+    const archiveDir = path.join(tempDir, 'projects', projectName, 'archive', 'start_here');
+    const snapshots = await fs.readdir(archiveDir);
+    const archived = await Promise.all(snapshots.map(async snapshot => {
+      const files = await fs.readdir(path.join(archiveDir, snapshot));
+      return Promise.all(files.map(file => fs.readFile(path.join(archiveDir, snapshot, file), 'utf-8')));
+    }));
+    const allVersions = [...archived.flat(), current].sort();
+    expect(allVersions).toEqual(['version 0', 'version 1', 'version 2', 'version 3', 'version 4']);
+  });
+
+  test('readers never find a single document missing while it is replaced', async () => {
+    const helper = new FileSystemHelper(tempDir);
+    await helper.writeContext(projectName, 'start_here', 'start_here', 'version 0');
+
+    // Reads don't take the project lock, so they run between the steps of each update
+    let updating = true;
+    const reads: string[] = [];
+    const reader = (async (): Promise<void> => {
+      while (updating) {
+        const result = await new FileSystemHelper(tempDir).getContext(projectName, 'start_here', ['start_here']);
+        reads.push(result.success ? result.data![0] : `missing: ${result.errors}`);
+      }
+    })();
+
+    for (let index = 1; index <= 5; index++) {
+      const context = await contextTypeFactory({ persistenceHelper: helper, projectName, contextType: 'start_here', content: `version ${index}` });
+      expect(await context.update()).toEqual({ success: true });
+    }
+    updating = false;
+    await reader;
+
+    expect(reads.length).toBeGreaterThan(0);
+    expect(reads.filter(read => !/^version \d$/.test(read))).toEqual([]);
+    expect(await fs.readdir(path.join(tempDir, 'projects', projectName, 'archive', 'start_here'))).toHaveLength(5);
+  });
+
+  test('writes leave no temporary files behind', async () => {
+    const helper = new FileSystemHelper(tempDir);
+
+    await helper.writeContext(projectName, 'general', 'doc', 'content');
+
+    expect(await fs.readdir(path.join(tempDir, 'tmp'))).toEqual([]);
+    expect(await fs.readdir(path.join(tempDir, 'projects', projectName, 'general'))).toEqual(['doc.md']);
+  });
+
+  test('releases the project lock after each mutation', async () => {
+    const helper = new FileSystemHelper(tempDir);
+
+    await helper.writeContext(projectName, 'general', 'doc', 'content');
+    await helper.clearContext(projectName, 'general', ['doc']);
+
+    expect(await fs.readdir(path.join(tempDir, 'locks'))).toEqual([]);
+  });
+});
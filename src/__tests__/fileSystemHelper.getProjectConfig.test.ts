@@ -201,6 +201,58 @@ describe('FileSystemHelper.getProjectConfig', () => {
     });
   });
 
+  describe('schema validation', () => {
+    test('reports each problem at its JSON pointer with the value and what is allowed', async () => {
+      await fs.writeFile(configPath, JSON.stringify({
+        contextTypes: [
+          { baseType: 'freeform-document-collection', name: 'general', description: 'Docs' },
+          { baseType: 'templated-logs', name: 'sessions', description: 'Sessions', validation: 'yes' },
+          { baseType: 'freeform-log', name: 'notes', templat: 'notes' }
+        ]
+      }));
+
+      const result = await helper.getProjectConfig(projectName);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      const problems = result.errors![0].replace('Invalid config file: ', '').split('; ');
+      expect(problems).toEqual([
+        '/contextTypes/1/baseType: "templated-logs" is not allowed. Allowed values: templated-single-document, freeform-single-document, ' +
+          'templated-document-collection, freeform-document-collection, templated-log, freeform-log, json-document, json-document-collection, checklist',
+        '/contextTypes/1/validation: "yes" must be boolean',
+        '/contextTypes/2/description: is required',
+        '/contextTypes/2/templat: is not an allowed property. Allowed properties: baseType, name, description, template, validation, schema, archive'
+      ]);
+    });
+
+    test('keeps the last good config when an edit fails the schema', async () => {
+      const validConfig = { contextTypes: [{ baseType: 'freeform-log', name: 'notes', description: 'Notes' }] };
+      await fs.writeFile(configPath, JSON.stringify(validConfig));
+      await helper.getProjectConfig(projectName);
+
+      await fs.writeFile(configPath, JSON.stringify({ ...validConfig, archive: { maxSnapshots: -1 } }));
+      const later = new Date(Date.now() + 5000);
+      await fs.utimes(configPath, later, later);
+
+      const result = await helper.getProjectConfig(projectName);
+      expect(result.success).toBe(true);
+      expect(result.config).toEqual(validConfig);
+      expect(result.errors).toEqual(['Invalid config file: /archive/maxSnapshots: -1 must be >= 0. Using the last valid configuration.']);
+    });
+
+    test('accepts a $schema reference and refuses to write an invalid config', async () => {
+      const example = JSON.parse(await fs.readFile(path.resolve('presets', 'software-project', 'project-config.json'), 'utf-8'));
+      await fs.writeFile(configPath, JSON.stringify(example));
+      expect((await helper.getProjectConfig(projectName)).success).toBe(true);
+
+      const written = await helper.writeProjectConfig(projectName, { contextTypes: [{ name: 'notes' }] } as never);
+      expect(written).toEqual({
+        success: false,
+        errors: ['Invalid config: /contextTypes/0/baseType: is required; /contextTypes/0/description: is required']
+      });
+    });
+  });
+
   describe('file read error handling', () => {
     test('returns error when config file is a directory', async () => {
       // Create a directory with the config file name
@@ -406,6 +458,91 @@ describe('FileSystemHelper.getProjectConfig', () => {
     });
   });
 
+  describe('reloading edited config files', () => {
+    const configWithType = (name: string): object => ({
+      contextTypes: [{ baseType: "freeform-document-collection", name, description: `${name} type`, validation: false }]
+    });
+
+    // Move the modification time forward so the edit is detected regardless of timestamp resolution
+    const touchLater = async (filePath: string): Promise<void> => {
+      const later = new Date(Date.now() + 5000);
+      await fs.utimes(filePath, later, later);
+    };
+
+    test('picks up edits to project-config.json without a restart', async () => {
+      await fs.writeFile(configPath, JSON.stringify(configWithType('original')));
+      const result1 = await helper.getProjectConfig(projectName);
+      expect(result1.config?.contextTypes[0].name).toBe('original');
+
+      await fs.writeFile(configPath, JSON.stringify(configWithType('edited')));
+      await touchLater(configPath);
+
+      const result2 = await helper.getProjectConfig(projectName);
+      expect(result2.success).toBe(true);
+      expect(result2.config?.contextTypes[0].name).toBe('edited');
+      expect(result2.errors).toBeUndefined();
+    });
+
+    test('keeps the last good config and reports the error when an edit is broken', async () => {
+      await fs.writeFile(configPath, JSON.stringify(configWithType('original')));
+      await helper.getProjectConfig(projectName);
+
+      await fs.writeFile(configPath, '{"contextTypes": [');
+      await touchLater(configPath);
+
+      const result = await helper.getProjectConfig(projectName);
+      expect(result.success).toBe(true);
+      expect(result.config?.contextTypes[0].name).toBe('original');
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors?.[0]).toMatch(/Error parsing config file/);
+      expect(result.errors?.[0]).toMatch(/last valid configuration/);
+    });
+
+    test('does not re-read a broken file that has not changed again', async () => {
+      await fs.writeFile(configPath, JSON.stringify(configWithType('original')));
+      await helper.getProjectConfig(projectName);
+      await fs.writeFile(configPath, '{"contextTypes": [');
+      await touchLater(configPath);
+      await helper.getProjectConfig(projectName);
+
+      const readFileSpy = jest.spyOn(fs, 'readFile');
+      const result = await helper.getProjectConfig(projectName);
+
+      expect(readFileSpy).not.toHaveBeenCalled();
+      expect(result.errors?.[0]).toMatch(/Error parsing config file/);
+      readFileSpy.mockRestore();
+    });
+
+    test('clears the reported error once the file is fixed', async () => {
+      await fs.writeFile(configPath, JSON.stringify(configWithType('original')));
+      await helper.getProjectConfig(projectName);
+      await fs.writeFile(configPath, '{"contextTypes": [');
+      await touchLater(configPath);
+      await helper.getProjectConfig(projectName);
+
+      await fs.writeFile(configPath, JSON.stringify(configWithType('fixed')));
+      const fixedAt = new Date(Date.now() + 10000);
+      await fs.utimes(configPath, fixedAt, fixedAt);
+
+      const result = await helper.getProjectConfig(projectName);
+      expect(result.success).toBe(true);
+      expect(result.config?.contextTypes[0].name).toBe('fixed');
+      expect(result.errors).toBeUndefined();
+    });
+
+    test('recreates the default config when the file is deleted', async () => {
+      await fs.writeFile(configPath, JSON.stringify(configWithType('original')));
+      await helper.getProjectConfig(projectName);
+
+      await fs.unlink(configPath);
+
+      const result = await helper.getProjectConfig(projectName);
+      expect(result.success).toBe(true);
+      expect(result.config?.contextTypes[0].name).toBe('general');
+      expect(await fileExists(configPath)).toBe(true);
+    });
+  });
+
   // Helper function to check file existence
   async function fileExists(filePath: string): Promise<boolean> {
     try {
@@ -0,0 +1,154 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('FileSystemHelper project lifecycle', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  const projectName = 'test-project';
+
+  const writeConfig = async (name: string, description: string): Promise<void> => {
+    await fs.writeFile(
+      path.join(tempDir, 'projects', name, 'project-config.json'),
+      JSON.stringify({
+        contextTypes: [{ baseType: 'freeform-document-collection', name: 'general', description, validation: false }]
+      })
+    );
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fsh-lifecycle-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+
+    await fileSystemHelper.initProject(projectName);
+    await writeConfig(projectName, 'Original');
+    await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'remember this');
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  describe('renameProject', () => {
+    test('moves the project and its contexts to the new name', async () => {
+      const result = await fileSystemHelper.renameProject(projectName, 'renamed-project');
+
+      expect(result).toEqual({ success: true });
+      expect((await fileSystemHelper.listProjects()).data).toEqual(['renamed-project']);
+      expect((await fileSystemHelper.getContext('renamed-project', 'general', ['notes'])).data).toEqual(['remember this']);
+    });
+
+    test('refuses to overwrite an existing project', async () => {
+      await fileSystemHelper.initProject('other-project');
+
+      const result = await fileSystemHelper.renameProject(projectName, 'other-project');
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0]).toContain("Project 'other-project' already exists.");
+      expect((await fileSystemHelper.getContext(projectName, 'general', ['notes'])).success).toBe(true);
+    });
+
+    test('rejects names that are not a single path segment', async () => {
+      const result = await fileSystemHelper.renameProject(projectName, '../escaped');
+
+      expect(result.success).toBe(false);
+      expect((await fileSystemHelper.listProjects()).data).toEqual([projectName]);
+    });
+
+    test('does not serve the old config to a new project with the old name', async () => {
+      expect((await fileSystemHelper.getProjectConfig(projectName)).config!.contextTypes[0].description).toBe('Original');
+      await fileSystemHelper.renameProject(projectName, 'renamed-project');
+
+      await fileSystemHelper.initProject(projectName);
+      const config = (await fileSystemHelper.getProjectConfig(projectName)).config!;
+
+      expect(config.contextTypes[0].description).not.toBe('Original');
+    });
+  });
+
+  describe('archiveProject and restoreProject', () => {
+    test('archives the project out of list_projects and restores it intact', async () => {
+      const archived = await fileSystemHelper.archiveProject(projectName);
+
+      expect(archived.success).toBe(true);
+      expect((await fileSystemHelper.listProjects()).data).toEqual([]);
+      expect((await fileSystemHelper.listArchivedProjects()).archivedProjects).toEqual([
+        { projectName, snapshot: archived.data![0] }
+      ]);
+
+      const restored = await fileSystemHelper.restoreProject(projectName);
+
+      expect(restored).toEqual({ success: true, data: [projectName] });
+      expect((await fileSystemHelper.getContext(projectName, 'general', ['notes'])).data).toEqual(['remember this']);
+      expect((await fileSystemHelper.listArchivedProjects()).archivedProjects).toEqual([]);
+    });
+
+    test('restores the newest snapshot unless one is given', async () => {
+      const first = await fileSystemHelper.archiveProject(projectName);
+      await fileSystemHelper.initProject(projectName);
+      await writeConfig(projectName, 'Second');
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'second version');
+      const second = await fileSystemHelper.archiveProject(projectName);
+
+      expect((await fileSystemHelper.listArchivedProjects()).archivedProjects!.map(a => a.snapshot))
+        .toEqual([second.data![0], first.data![0]]);
+
+      await fileSystemHelper.restoreProject(projectName);
+      expect((await fileSystemHelper.getContext(projectName, 'general', ['notes'])).data).toEqual(['second version']);
+
+      await fileSystemHelper.restoreProject(projectName, first.data![0], 'first-version');
+      expect((await fileSystemHelper.getContext('first-version', 'general', ['notes'])).data).toEqual(['remember this']);
+    });
+
+    test('requires a new name when the original has been reused', async () => {
+      await fileSystemHelper.archiveProject(projectName);
+      await fileSystemHelper.initProject(projectName);
+
+      const result = await fileSystemHelper.restoreProject(projectName);
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0]).toContain('new_project_name');
+      expect((await fileSystemHelper.listArchivedProjects()).archivedProjects).toHaveLength(1);
+    });
+
+    test('reports a missing archived project', async () => {
+      const result = await fileSystemHelper.restoreProject('never-archived');
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0]).toContain("Archived project 'never-archived' not found");
+    });
+  });
+
+  describe('deleteProject', () => {
+    test('removes the project and its files', async () => {
+      const result = await fileSystemHelper.deleteProject(projectName);
+
+      expect(result).toEqual({ success: true });
+      expect((await fileSystemHelper.listProjects()).data).toEqual([]);
+      await expect(fs.access(path.join(tempDir, 'projects', projectName))).rejects.toThrow();
+    });
+
+    test('reports a missing project', async () => {
+      const result = await fileSystemHelper.deleteProject('missing-project');
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0]).toContain("Project 'missing-project' does not exist");
+    });
+
+    test('never removes anything outside the projects directory', async () => {
+      const result = await fileSystemHelper.deleteProject('..');
+
+      expect(result.success).toBe(false);
+      await expect(fs.access(path.join(tempDir, 'projects', projectName))).resolves.toBeUndefined();
+    });
+  });
+});
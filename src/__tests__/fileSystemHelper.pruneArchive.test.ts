@@ -0,0 +1,171 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { ArchivePolicy } from '../types.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('FileSystemHelper.pruneArchive', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  let projectName: string;
+  let archivePath: string;
+
+  const writeConfig = async (archive?: ArchivePolicy, notesArchive?: ArchivePolicy): Promise<void> => {
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({
+        archive,
+        contextTypes: [
+          { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false },
+          { baseType: 'freeform-document-collection', name: 'notes', description: 'Notes', validation: false, archive: notesArchive }
+        ]
+      })
+    );
+  };
+
+  // Snapshots with fixed timestamps so age based rules are predictable
+  const addSnapshot = async (contextType: string, snapshot: string, files: Record<string, string>): Promise<void> => {
+    const snapshotDir = path.join(archivePath, contextType, snapshot);
+    await fs.mkdir(snapshotDir, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(snapshotDir, `${name}.md`), content);
+    }
+  };
+
+  const snapshotsOf = async (contextType: string): Promise<string[]> =>
+    (await fs.readdir(path.join(archivePath, contextType))).sort();
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fsh-prunearchive-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    projectName = 'test-project';
+    archivePath = path.join(tempDir, 'projects', projectName, 'archive');
+
+    await fileSystemHelper.initProject(projectName);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('leaves the archive alone when no policy is configured', async () => {
+    await writeConfig();
+    await addSnapshot('general', '2020-01-01T00-00-00-000Z', { doc: 'old' });
+
+    const result = await fileSystemHelper.pruneArchive(projectName);
+
+    expect(result).toEqual({ success: true, prune: { dryRun: false, removed: [], compressed: [], deduplicated: [] } });
+    expect(await snapshotsOf('general')).toEqual(['2020-01-01T00-00-00-000Z']);
+  });
+
+  test('reports snapshots over the limit in a dry run without removing them', async () => {
+    await writeConfig({ maxSnapshots: 1 });
+    await addSnapshot('general', '2025-01-01T00-00-00-000Z', { doc: 'older' });
+    await addSnapshot('general', '2025-02-01T00-00-00-000Z', { doc: 'newer' });
+
+    const result = await fileSystemHelper.pruneArchive(projectName, 'general', true);
+
+    expect(result.prune?.removed).toEqual([
+      { contextType: 'general', snapshot: '2025-01-01T00-00-00-000Z', reason: 'max_snapshots' }
+    ]);
+    expect(await snapshotsOf('general')).toHaveLength(2);
+  });
+
+  test('removes the oldest snapshots beyond maxSnapshots', async () => {
+    await writeConfig({ maxSnapshots: 1 });
+    await addSnapshot('general', '2025-01-01T00-00-00-000Z', { doc: 'older' });
+    await addSnapshot('general', '2025-02-01T00-00-00-000Z', { doc: 'newer' });
+
+    await fileSystemHelper.pruneArchive(projectName);
+
+    expect(await snapshotsOf('general')).toEqual(['2025-02-01T00-00-00-000Z']);
+  });
+
+  test('removes snapshots older than maxAgeDays', async () => {
+    await writeConfig({ maxAgeDays: 30 });
+    await addSnapshot('general', '2020-01-01T00-00-00-000Z', { doc: 'ancient' });
+    await fileSystemHelper.writeContext(projectName, 'general', 'doc', 'recent');
+    await fileSystemHelper.clearContext(projectName, 'general');
+
+    await fileSystemHelper.pruneArchive(projectName, 'general');
+    const snapshots = await snapshotsOf('general');
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).not.toBe('2020-01-01T00-00-00-000Z');
+  });
+
+  test('compresses old snapshots and keeps them readable', async () => {
+    await writeConfig(undefined, { compressAfterDays: 7 });
+    await addSnapshot('notes', '2020-01-01T00-00-00-000Z', { doc: 'compress me' });
+
+    const result = await fileSystemHelper.pruneArchive(projectName);
+
+    expect(result.prune?.compressed).toEqual([{ contextType: 'notes', snapshot: '2020-01-01T00-00-00-000Z' }]);
+    expect(await fs.readdir(path.join(archivePath, 'notes', '2020-01-01T00-00-00-000Z'))).toEqual(['doc.md.gz']);
+
+    const archived = await fileSystemHelper.getArchivedContext(projectName, 'notes', '2020-01-01T00-00-00-000Z', 'doc');
+    expect(archived.data).toEqual(['compress me']);
+    expect((await fileSystemHelper.listArchives(projectName, 'notes')).archives?.[0].size).toBe('compress me'.length);
+
+    await fileSystemHelper.restoreContext(projectName, 'notes', '2020-01-01T00-00-00-000Z');
+    expect((await fileSystemHelper.getContext(projectName, 'notes', ['doc'])).data).toEqual(['compress me']);
+  });
+
+  test('stores identical archived files once', async () => {
+    await writeConfig({ deduplicate: true });
+    await addSnapshot('general', '2025-01-01T00-00-00-000Z', { doc: 'same content' });
+    await addSnapshot('general', '2025-02-01T00-00-00-000Z', { doc: 'same content', other: 'different' });
+
+    const result = await fileSystemHelper.pruneArchive(projectName);
+
+    expect(result.prune?.deduplicated).toEqual([
+      { contextType: 'general', snapshot: '2025-01-01T00-00-00-000Z', name: 'doc', size: 'same content'.length }
+    ]);
+    const older = await fs.stat(path.join(archivePath, 'general', '2025-01-01T00-00-00-000Z', 'doc.md'));
+    const newer = await fs.stat(path.join(archivePath, 'general', '2025-02-01T00-00-00-000Z', 'doc.md'));
+    expect(older.ino).toBe(newer.ino);
+    expect(await fs.readFile(path.join(archivePath, 'general', '2025-01-01T00-00-00-000Z', 'doc.md'), 'utf-8')).toBe('same content');
+
+    // Already linked files are not reported again
+    expect((await fileSystemHelper.pruneArchive(projectName)).prune?.deduplicated).toEqual([]);
+  });
+
+  test('lets a context type override the project policy', async () => {
+    await writeConfig({ maxSnapshots: 1 }, { maxSnapshots: 2 });
+    for (const type of ['general', 'notes']) {
+      await addSnapshot(type, '2025-01-01T00-00-00-000Z', { doc: 'a' });
+      await addSnapshot(type, '2025-02-01T00-00-00-000Z', { doc: 'b' });
+    }
+
+    await fileSystemHelper.pruneArchive(projectName);
+
+    expect(await snapshotsOf('general')).toHaveLength(1);
+    expect(await snapshotsOf('notes')).toHaveLength(2);
+  });
+
+  test('leaves removal to prune_archive when contexts are cleared', async () => {
+    await writeConfig({ maxSnapshots: 2 });
+    for (const content of ['one', 'two', 'three']) {
+      await fileSystemHelper.writeContext(projectName, 'general', 'doc', content);
+      await fileSystemHelper.clearContext(projectName, 'general');
+    }
+    expect((await fileSystemHelper.listArchives(projectName, 'general')).archives).toHaveLength(3);
+
+    await fileSystemHelper.pruneArchive(projectName, 'general');
+    const archives = (await fileSystemHelper.listArchives(projectName, 'general')).archives!;
+
+    expect(archives).toHaveLength(2);
+    const contents = await Promise.all(archives.map(async archived =>
+      (await fileSystemHelper.getArchivedContext(projectName, 'general', archived.snapshot, archived.name)).data?.[0]
+    ));
+    expect(contents).toEqual(['three', 'two']);
+  });
+});
@@ -0,0 +1,148 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('FileSystemHelper.restoreContext', () => {
+  let tempDir: string;
+  let fileSystemHelper: FileSystemHelper;
+  let projectName: string;
+
+  const latestSnapshot = async (contextType: string): Promise<string> => {
+    const result = await fileSystemHelper.listArchives(projectName, contextType);
+    return result.archives![0].snapshot;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fsh-restorecontext-test-'));
+    fileSystemHelper = new FileSystemHelper(tempDir);
+    projectName = 'test-project';
+
+    await fileSystemHelper.initProject(projectName);
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({
+        contextTypes: [
+          { baseType: 'freeform-single-document', name: 'mental_model', description: 'Model', validation: false },
+          { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false },
+          { baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }
+        ]
+      })
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('restores a replaced single document and archives the current one first', async () => {
+    await fileSystemHelper.writeContext(projectName, 'mental_model', 'mental_model', 'original');
+    await fileSystemHelper.clearContext(projectName, 'mental_model');
+    await fileSystemHelper.writeContext(projectName, 'mental_model', 'mental_model', 'replacement');
+    const originalSnapshot = await latestSnapshot('mental_model');
+
+    const result = await fileSystemHelper.restoreContext(projectName, 'mental_model', originalSnapshot);
+
+    expect(result).toEqual({ success: true, data: ['mental_model'] });
+    expect((await fileSystemHelper.getContext(projectName, 'mental_model')).data).toEqual(['original']);
+
+    // The replaced version can be brought back the same way
+    const replacedSnapshot = await latestSnapshot('mental_model');
+    expect(replacedSnapshot).not.toBe(originalSnapshot);
+    await fileSystemHelper.restoreContext(projectName, 'mental_model', replacedSnapshot);
+    expect((await fileSystemHelper.getContext(projectName, 'mental_model')).data).toEqual(['replacement']);
+  });
+
+  test('keeps the snapshot in the archive after restoring it', async () => {
+    await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'archived');
+    await fileSystemHelper.clearContext(projectName, 'general');
+    const snapshot = await latestSnapshot('general');
+
+    await fileSystemHelper.restoreContext(projectName, 'general', snapshot);
+
+    const archived = await fileSystemHelper.getArchivedContext(projectName, 'general', snapshot, 'notes');
+    expect(archived.data).toEqual(['archived']);
+  });
+
+  test('restores a single collection document without touching the others', async () => {
+    await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'old notes');
+    await fileSystemHelper.writeContext(projectName, 'general', 'plan', 'old plan');
+    await fileSystemHelper.clearContext(projectName, 'general');
+    await fileSystemHelper.writeContext(projectName, 'general', 'plan', 'new plan');
+    const snapshot = await latestSnapshot('general');
+
+    const result = await fileSystemHelper.restoreContext(projectName, 'general', snapshot, ['notes']);
+
+    expect(result).toEqual({ success: true, data: ['notes'] });
+    expect((await fileSystemHelper.getContext(projectName, 'general', ['notes'])).data).toEqual(['old notes']);
+    expect((await fileSystemHelper.getContext(projectName, 'general', ['plan'])).data).toEqual(['new plan']);
+  });
+
+  test('merges log entries back under their original names', async () => {
+    await fileSystemHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first');
+    await fileSystemHelper.clearContext(projectName, 'dev_log');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await fileSystemHelper.writeContext(projectName, 'dev_log', 'dev_log', 'second');
+    const snapshot = await latestSnapshot('dev_log');
+    const archivedName = (await fileSystemHelper.listArchives(projectName, 'dev_log')).archives![0].name;
+
+    const result = await fileSystemHelper.restoreContext(projectName, 'dev_log', snapshot);
+
+    expect(result).toEqual({ success: true, data: [archivedName] });
+    expect((await fileSystemHelper.getContext(projectName, 'dev_log')).data).toEqual(['second', 'first']);
+
+    // Log restores add entries rather than replacing any, so nothing new was archived
+    expect((await fileSystemHelper.listArchives(projectName, 'dev_log')).archives).toHaveLength(1);
+  });
+
+  test('skips log entries that are already present', async () => {
+    await fileSystemHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first');
+    await fileSystemHelper.clearContext(projectName, 'dev_log');
+    const snapshot = await latestSnapshot('dev_log');
+    await fileSystemHelper.restoreContext(projectName, 'dev_log', snapshot);
+
+    const result = await fileSystemHelper.restoreContext(projectName, 'dev_log', snapshot);
+
+    expect(result).toEqual({ success: true, data: [] });
+    expect((await fileSystemHelper.getContext(projectName, 'dev_log')).data).toEqual(['first']);
+  });
+
+  test('keeps both entries when a different entry has taken the archived name', async () => {
+    await fileSystemHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first');
+    await fileSystemHelper.clearContext(projectName, 'dev_log');
+    const [archived] = (await fileSystemHelper.listArchives(projectName, 'dev_log')).archives!;
+    await fs.writeFile(path.join(tempDir, 'projects', projectName, 'dev_log', `${archived.name}.md`), 'other');
+
+    const result = await fileSystemHelper.restoreContext(projectName, 'dev_log', archived.snapshot);
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data?.[0]).not.toBe(archived.name);
+    expect((await fileSystemHelper.getContext(projectName, 'dev_log')).data).toEqual(['first', 'other']);
+  });
+
+  test('reports snapshots that do not exist', async () => {
+    const result = await fileSystemHelper.restoreContext(projectName, 'general', '2025-01-01T00-00-00-000Z');
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toMatch(/Archive snapshot 'general\/2025-01-01T00-00-00-000Z' not found/);
+  });
+
+  test('reports documents that are not in the snapshot', async () => {
+    await fileSystemHelper.writeContext(projectName, 'general', 'notes', 'archived');
+    await fileSystemHelper.clearContext(projectName, 'general');
+    const snapshot = await latestSnapshot('general');
+
+    const result = await fileSystemHelper.restoreContext(projectName, 'general', snapshot, ['missing']);
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toMatch(/Archived context 'general\/.*\/missing' not found/);
+  });
+});
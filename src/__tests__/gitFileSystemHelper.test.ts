@@ -0,0 +1,192 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { GitFileSystemHelper } from '../models/context_types/utilities/git.js';
+import { runWithTool } from '../models/context_types/utilities/toolContext.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+const execFileAsync = promisify(execFile);
+
+describe('GitFileSystemHelper', () => {
+  let tempDir: string;
+  let gitHelper: GitFileSystemHelper;
+  let projectName: string;
+
+  const gitLog = async (...args: string[]): Promise<string> => {
+    const { stdout } = await execFileAsync('git', ['-C', path.join(tempDir, 'projects'), 'log', ...args]);
+    return stdout.trim();
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-helper-test-'));
+    gitHelper = new GitFileSystemHelper(tempDir);
+    projectName = 'test-project';
+
+    await gitHelper.initProject(projectName);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('initializes the projects directory as a git repository on first write', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+
+    const stats = await fs.stat(path.join(tempDir, 'projects', '.git'));
+    expect(stats.isDirectory()).toBe(true);
+  });
+
+  test('does not list the repository directory as a project', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+
+    const result = await gitHelper.listProjects();
+
+    expect(result.data).toEqual([projectName]);
+  });
+
+  test('commits every write with project, type, name and tool', async () => {
+    const result = await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+
+    expect(result.success).toBe(true);
+    expect(await gitLog('-1', '--format=%s')).toBe('update_context: test-project/general/doc');
+    const body = await gitLog('-1', '--format=%b');
+    expect(body).toContain('Project: test-project');
+    expect(body).toContain('Context-Type: general');
+    expect(body).toContain('Context-Name: doc');
+    expect(body).toContain('Tool: update_context');
+  });
+
+  test('records the tool that triggered the change', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+
+    await runWithTool('clear_context', () => gitHelper.clearContext(projectName, 'general', ['doc']));
+
+    expect(await gitLog('-1', '--format=%s')).toBe('clear_context: test-project/general/doc');
+  });
+
+  test('keeps earlier versions readable from history', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'first version');
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'second version');
+
+    const { stdout } = await execFileAsync('git', [
+      '-C', path.join(tempDir, 'projects'), 'show', `HEAD~1:${projectName}/general/doc.md`
+    ]);
+
+    expect(stdout).toBe('first version');
+    expect(await gitLog('--format=%s')).toBe([
+      'update_context: test-project/general/doc',
+      'update_context: test-project/general/doc'
+    ].join('\n'));
+  });
+
+  test('commits clears of a whole type', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+
+    const result = await gitHelper.clearContext(projectName, 'general');
+
+    expect(result.success).toBe(true);
+    expect(await gitLog('-1', '--format=%s')).toBe('clear_context: test-project/general/(all)');
+  });
+
+  test('commits restores from the archive', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+    await gitHelper.clearContext(projectName, 'general');
+    const [archived] = (await gitHelper.listArchives(projectName)).archives!;
+
+    const result = await gitHelper.restoreContext(projectName, 'general', archived.snapshot);
+
+    expect(result).toEqual({ success: true, data: ['doc'] });
+    expect(await gitLog('-1', '--format=%s')).toBe('restore_context: test-project/general/doc');
+  });
+
+  test('commits amended log entries together with the archived original', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({ contextTypes: [{ baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }] })
+    );
+    await gitHelper.writeContext(projectName, 'dev_log', 'dev_log', 'entry');
+    const [entry] = (await gitHelper.listContextEntries(projectName, 'dev_log')).entries!;
+
+    const result = await gitHelper.amendLogEntry(projectName, 'dev_log', entry.name, 'amended entry');
+
+    expect(result.success).toBe(true);
+    expect(await gitLog('-1', '--format=%s')).toBe(`update_context: test-project/dev_log/${entry.name}`);
+    const { stdout } = await execFileAsync('git', ['-C', path.join(tempDir, 'projects'), 'show', '--name-only', '--format=', 'HEAD']);
+    expect(stdout).toContain(`${projectName}/archive/dev_log/`);
+    expect(stdout).toContain(`${projectName}/dev_log/${entry.name}.md`);
+  });
+
+  test('commits archive pruning but not dry runs', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({
+        contextTypes: [{ baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false }]
+      })
+    );
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+    await gitHelper.clearContext(projectName, 'general');
+    await fs.writeFile(
+      path.join(tempDir, 'projects', projectName, 'project-config.json'),
+      JSON.stringify({
+        archive: { maxSnapshots: 0 },
+        contextTypes: [{ baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false }]
+      })
+    );
+    const later = new Date(Date.now() + 5000);
+    await fs.utimes(path.join(tempDir, 'projects', projectName, 'project-config.json'), later, later);
+
+    await gitHelper.pruneArchive(projectName, undefined, true);
+    expect(await gitLog('-1', '--format=%s')).toBe('clear_context: test-project/general/(all)');
+
+    const result = await gitHelper.pruneArchive(projectName);
+    expect(result.prune?.removed).toHaveLength(1);
+    expect(await gitLog('-1', '--format=%s')).toBe('prune_archive: test-project/(all)/archive');
+  });
+
+  test('commits project renames, archives, restores and deletions', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+
+    await gitHelper.renameProject(projectName, 'renamed-project');
+    expect(await gitLog('-1', '--format=%s')).toBe('rename_project: test-project -> renamed-project');
+    expect(await gitLog('-1', '--format=%(trailers:key=Renamed-To,valueonly)')).toBe('renamed-project');
+
+    const archived = await gitHelper.archiveProject('renamed-project');
+    expect(await gitLog('-1', '--format=%s')).toBe('archive_project: renamed-project');
+
+    await gitHelper.restoreProject('renamed-project', archived.data![0]);
+    expect(await gitLog('-1', '--format=%s')).toBe('restore_project: renamed-project');
+
+    await gitHelper.deleteProject('renamed-project');
+    expect(await gitLog('-1', '--format=%s')).toBe('delete_project: renamed-project');
+    expect(await gitLog('-1', '--name-status', '--format=')).toContain('D\trenamed-project/general/doc.md');
+  });
+
+  test('does not need a commit to archive a project that was never written to', async () => {
+    const result = await gitHelper.archiveProject(projectName);
+
+    expect(result.success).toBe(true);
+  });
+
+  test('skips the commit when nothing changed', async () => {
+    await gitHelper.writeContext(projectName, 'general', 'doc', 'content');
+    await gitHelper.clearContext(projectName, 'general', ['missing']);
+
+    expect((await gitLog('--format=%s')).split('\n')).toHaveLength(1);
+  });
+
+  test('does not commit failed writes', async () => {
+    const result = await gitHelper.writeContext(projectName, 'unknown-type', 'doc', 'content');
+
+    expect(result.success).toBe(false);
+    await expect(fs.access(path.join(tempDir, 'projects', '.git'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+import { ContextTypeEditor } from '../models/context_types/utilities/contextTypeEditor.js';
+import UpdateContextHandler from '../handlers/updateContextHandler.js';
+import { ContextType, TypeConfig } from '../types.js';
+
+describe('JSON document types', () => {
+  const projectName = 'test-project';
+  let memoryHelper: MemoryHelper;
+
+  const environmentSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { enum: ['dev', 'staging', 'production'] },
+        url: { type: 'string' }
+      },
+      required: ['name', 'url']
+    }
+  };
+
+  const contextTypes: TypeConfig[] = [
+    { baseType: 'json-document', name: 'environments', description: 'Environments', schema: environmentSchema },
+    { baseType: 'json-document-collection', name: 'endpoints', description: 'Endpoints per service', schema: { type: 'object', required: ['routes'] } },
+    { baseType: 'json-document', name: 'settings', description: 'Anything JSON' }
+  ];
+
+  const contextType = (args: { contextType: string; contextName?: string; content?: string; section?: string }): Promise<ContextType> =>
+    contextTypeFactory({ persistenceHelper: memoryHelper, projectName, ...args });
+
+  beforeEach(async () => {
+    memoryHelper = new MemoryHelper();
+    await memoryHelper.initProject(projectName);
+    await memoryHelper.writeProjectConfig(projectName, { contextTypes });
+  });
+
+  test('stores and reads back a document that matches its schema', async () => {
+    const content = JSON.stringify([{ name: 'dev', url: 'http://localhost:3000' }], null, 2);
+    const update = await contextType({ contextType: 'environments', content });
+
+    expect(await update.validate()).toMatchObject({ isValid: true });
+    expect(await update.update()).toEqual({ success: true });
+    expect((await (await contextType({ contextType: 'environments' })).read()).content).toBe(content);
+  });
+
+  test('rejects content that is not JSON, with or without a schema', async () => {
+    const validation = await (await contextType({ contextType: 'settings', content: '{ retries: 3, }' })).validate();
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.validationErrors?.[0]).toMatchObject({ type: 'invalid_format', message: expect.stringMatching(/^settings is not valid JSON: /) });
+    expect(await (await contextType({ contextType: 'settings', content: '{"retries": 3}' })).validate()).toEqual({ isValid: true });
+  });
+
+  test('reports schema failures at their JSON pointers through update_context', async () => {
+    const result = await new UpdateContextHandler(memoryHelper).handle({
+      projectName,
+      contextType: 'environments',
+      content: JSON.stringify([{ name: 'dev', url: 'http://localhost' }, { name: 'qa' }])
+    });
+
+    expect(result.isError).toBe(true);
+    const text = result.content[0].text;
+    expect(text).toContain('- /1/name: "qa" is not allowed. Allowed values: dev, staging, production');
+    expect(text).toContain('- /1/url: is required');
+    expect(text).toContain('Schema used for validation:\n```json\n' + JSON.stringify(environmentSchema, null, 2));
+  });
+
+  test('validates each document of a collection', async () => {
+    const valid = await contextType({ contextType: 'endpoints', contextName: 'billing', content: '{"routes": ["/invoices"]}' });
+    expect(await valid.validate()).toMatchObject({ isValid: true });
+    expect(await valid.update()).toEqual({ success: true });
+
+    const invalid = await (await contextType({ contextType: 'endpoints', contextName: 'search', content: '{"paths": []}' })).validate();
+    expect(invalid.validationErrors?.map(error => error.message)).toEqual(['/routes: is required']);
+
+    expect((await memoryHelper.listAllContextForType(projectName, 'endpoints')).data).toEqual(['billing']);
+  });
+
+  test('has no markdown sections to address', async () => {
+    await expect(contextType({ contextType: 'environments', section: 'Environments' }))
+      .rejects.toThrow('section and outline mode only apply to markdown documents; environments is a json-document');
+  });
+
+  test('configure_context_type only accepts usable schemas on JSON types', async () => {
+    const editor = new ContextTypeEditor(memoryHelper, projectName);
+
+    const unusable = await editor.add({ baseType: 'json-document', name: 'inventory', description: 'Hosts', schema: { type: 'list' } });
+    expect(unusable.success).toBe(false);
+    expect(unusable.errors?.[0]).toMatch(/^Context type 'inventory' has an unusable schema: schema is invalid: /);
+
+    const markdown = await editor.add({ baseType: 'freeform-single-document', name: 'notes', description: 'Notes', schema: { type: 'object' } });
+    expect(markdown.errors).toEqual([
+      "Context type 'notes' has an unusable schema: schema only applies to json-document and json-document-collection types, not freeform-single-document"
+    ]);
+
+    expect((await editor.add({ baseType: 'json-document', name: 'inventory', description: 'Hosts', schema: { type: 'array' } })).success).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { withFileLock, withLocalLock } from '../models/context_types/utilities/locking.js';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { SqliteHelper } from '../models/context_types/utilities/sqlite.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('locking', () => {
+  let tempDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'locking-test-'));
+    lockPath = path.join(tempDir, 'locks', 'project.lock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const recordOverlap = (): { run: (label: string) => Promise<void>; events: string[] } => {
+    const events: string[] = [];
+    return {
+      events,
+      run: async (label: string): Promise<void> => {
+        events.push(`${label}:start`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        events.push(`${label}:end`);
+      }
+    };
+  };
+
+  test('withLocalLock runs operations on the same key one at a time', async () => {
+    const { run, events } = recordOverlap();
+
+    await Promise.all([
+      withLocalLock('key', () => run('a')),
+      withLocalLock('key', () => run('b'))
+    ]);
+
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+
+  test('withFileLock holds a lock file while the operation runs and removes it afterwards', async () => {
+    await withFileLock(lockPath, async () => {
+      const owner = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+      expect(owner.pid).toBe(process.pid);
+    });
+
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  test('withFileLock serializes concurrent holders', async () => {
+    const { run, events } = recordOverlap();
+
+    await Promise.all([
+      withFileLock(lockPath, () => run('a')),
+      withFileLock(lockPath, () => run('b'))
+    ]);
+
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+
+  test('withFileLock is reentrant within the same call chain', async () => {
+    const result = await withFileLock(lockPath, () =>
+      withFileLock(lockPath, async () => 'nested')
+    );
+
+    expect(result).toBe('nested');
+  });
+
+  test('releases the lock when the operation throws', async () => {
+    await expect(withFileLock(lockPath, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await expect(withFileLock(lockPath, async () => 'next')).resolves.toBe('next');
+  });
+
+  test('replaces a lock left behind by a process that no longer exists', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    await fs.writeFile(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), acquiredAt: '2020-01-01T00:00:00.000Z' }));
+
+    await expect(withFileLock(lockPath, async () => 'acquired', { timeoutMs: 500 })).resolves.toBe('acquired');
+  });
+
+  test('replaces a lock whose heartbeat has expired', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: 'another-host', acquiredAt: '2020-01-01T00:00:00.000Z' }));
+    const past = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, past, past);
+
+    await expect(withFileLock(lockPath, async () => 'acquired', { timeoutMs: 500 })).resolves.toBe('acquired');
+  });
+
+  test('times out while a live holder keeps the lock', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: 'another-host', acquiredAt: '2020-01-01T00:00:00.000Z' }));
+
+    await expect(withFileLock(lockPath, async () => 'acquired', { timeoutMs: 100, retryMs: 10 }))
+      .rejects.toThrow(/Timed out waiting for lock .* held by process \d+ on another-host/);
+  });
+
+  test('keeps project locks inside CONTEXT_ROOT/locks whatever the project name', async () => {
+    const contextRoot = path.join(tempDir, 'root');
+    const sqliteHelper = new SqliteHelper(contextRoot);
+    try {
+      for (const helper of [new FileSystemHelper(contextRoot), sqliteHelper]) {
+        const lockFiles = await helper.withProjectLock('../x', () => fs.readdir(path.join(contextRoot, 'locks')));
+        expect(lockFiles).toEqual(['..%2Fx.lock']);
+
+        expect((await helper.writeContext('../x', 'general', 'doc', 'content')).success).toBe(false);
+      }
+    } finally {
+      sqliteHelper.close();
+    }
+
+    expect((await fs.readdir(tempDir)).sort()).toEqual(['root']);
+    expect(await fs.readdir(path.join(contextRoot, 'locks'))).toEqual([]);
+  });
+});
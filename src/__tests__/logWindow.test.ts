@@ -0,0 +1,143 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { selectLogEntries, validateLogWindow } from '../models/context_types/utilities/logWindow.js';
+import { LogWindow } from '../types.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('log windows', () => {
+  const entries = [
+    { name: 'dev_log-2025-01-04T09-00-00-000Z', content: 'fourth' },
+    { name: 'dev_log-2025-01-03T09-00-00-000Z', content: 'third' },
+    { name: 'dev_log-2025-01-02T09-00-00-000Z', content: 'second' },
+    { name: 'dev_log-2025-01-01T09-00-00-000Z', content: 'first' }
+  ];
+
+  const contents = (window: LogWindow): string[] =>
+    selectLogEntries('dev_log', entries, window).entries!.map(entry => entry.content);
+
+  describe('selectLogEntries', () => {
+    test('keeps entries written at or after since and before until', () => {
+      expect(contents({ since: '2025-01-02T09:00:00Z', until: '2025-01-04T09:00:00Z' })).toEqual(['third', 'second']);
+      expect(contents({ since: '2025-01-03' })).toEqual(['fourth', 'third']);
+    });
+
+    test('pages through the window with the cursor it returns', () => {
+      const firstPage = selectLogEntries('dev_log', entries, { limit: 3 });
+      expect(firstPage.entries!.map(entry => entry.content)).toEqual(['fourth', 'third', 'second']);
+      expect(firstPage.hasMore).toBe(true);
+      expect(firstPage.nextCursor).toBe('dev_log-2025-01-02T09-00-00-000Z');
+
+      const secondPage = selectLogEntries('dev_log', entries, { limit: 3, cursor: firstPage.nextCursor });
+      expect(secondPage.entries!.map(entry => entry.content)).toEqual(['first']);
+      expect(secondPage.hasMore).toBe(false);
+      expect(secondPage.nextCursor).toBeUndefined();
+    });
+
+    test('reports no more entries when the limit takes the whole window', () => {
+      const page = selectLogEntries('dev_log', entries, { since: '2025-01-03', limit: 2 });
+
+      expect(page.hasMore).toBe(false);
+    });
+  });
+
+  describe('validateLogWindow', () => {
+    test('accepts a complete window', () => {
+      expect(validateLogWindow('dev_log', {
+        since: '2025-01-01',
+        until: '2025-02-01T00:00:00Z',
+        limit: 5,
+        cursor: 'dev_log-2025-01-02T09-00-00-000Z'
+      })).toEqual([]);
+    });
+
+    test('rejects malformed times, limits and cursors', () => {
+      expect(validateLogWindow('dev_log', { since: 'yesterday', limit: 0, cursor: 'notes-2025-01-01T09-00-00-000Z' })).toEqual([
+        "since must be an ISO 8601 time such as 2025-01-31 or 2025-01-31T12:00:00Z, got 'yesterday'",
+        'limit must be a positive integer, got 0',
+        "cursor 'notes-2025-01-01T09-00-00-000Z' is not a dev_log entry. Pass the nextCursor from a previous get_context response."
+      ]);
+    });
+
+    test('rejects a window that ends before it starts', () => {
+      expect(validateLogWindow('dev_log', { since: '2025-02-01', until: '2025-01-01' })).toEqual([
+        'since (2025-02-01) must be earlier than until (2025-01-01)'
+      ]);
+    });
+  });
+
+  describe('reading a log', () => {
+    let tempDir: string;
+    let fileSystemHelper: FileSystemHelper;
+    const projectName = 'test-project';
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-window-test-'));
+      fileSystemHelper = new FileSystemHelper(tempDir);
+      await fileSystemHelper.initProject(projectName);
+
+      const projectPath = path.join(tempDir, 'projects', projectName);
+      await fs.writeFile(path.join(projectPath, 'project-config.json'), JSON.stringify({
+        contextTypes: [
+          { baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false },
+          { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false }
+        ]
+      }));
+      await fs.mkdir(path.join(projectPath, 'dev_log'), { recursive: true });
+      for (const entry of entries) {
+        await fs.writeFile(path.join(projectPath, 'dev_log', `${entry.name}.md`), entry.content);
+      }
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('returns a page of entries and whether more exist', async () => {
+      const log = await contextTypeFactory({
+        persistenceHelper: fileSystemHelper,
+        projectName,
+        contextType: 'dev_log',
+        logWindow: { until: '2025-01-04', limit: 2 }
+      });
+
+      const result = await log.read();
+
+      expect(result).toEqual({
+        success: true,
+        content: 'third\n\n---\n\nsecond',
+        revision: expect.any(String),
+        hasMore: true,
+        nextCursor: 'dev_log-2025-01-02T09-00-00-000Z'
+      });
+    });
+
+    test('reports an invalid window instead of reading', async () => {
+      const log = await contextTypeFactory({
+        persistenceHelper: fileSystemHelper,
+        projectName,
+        contextType: 'dev_log',
+        logWindow: { limit: -1 }
+      });
+
+      const result = await log.read();
+
+      expect(result).toEqual({ success: false, errors: ['limit must be a positive integer, got -1'] });
+    });
+
+    test('refuses windows for types that are not logs', async () => {
+      await expect(contextTypeFactory({
+        persistenceHelper: fileSystemHelper,
+        projectName,
+        contextType: 'general',
+        contextName: 'notes',
+        logWindow: { limit: 1 }
+      })).rejects.toThrow('since, until, limit and cursor only apply to log context types; general is a freeform-document-collection');
+    });
+  });
+});
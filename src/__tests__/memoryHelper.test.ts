@@ -0,0 +1,209 @@
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { Settings } from 'luxon';
+import contextTypeFactory from '../models/contexTypeFactory.js';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+
+describe('MemoryHelper', () => {
+  let memoryHelper: MemoryHelper;
+  let projectName: string;
+
+  beforeEach(async () => {
+    memoryHelper = new MemoryHelper();
+    projectName = 'test-project';
+    await memoryHelper.initProject(projectName);
+  });
+
+  test('starts projects with the default config', async () => {
+    const result = await memoryHelper.getProjectConfig(projectName);
+
+    expect(result.config?.contextTypes.map(ct => ct.name)).toEqual(['general']);
+  });
+
+  test('refuses to initialize an existing project', async () => {
+    const result = await memoryHelper.initProject(projectName);
+
+    expect(result.errors).toEqual([`Project '${projectName}' already exists.`]);
+  });
+
+  test('fails for projects that do not exist', async () => {
+    const result = await memoryHelper.writeContext('nonexistent-project', 'general', 'doc', 'content');
+
+    expect(result.errors).toEqual([
+      "Project 'nonexistent-project' does not exist. Create it first using create_project."
+    ]);
+  });
+
+  test('supports collection documents through the context types', async () => {
+    const update = await contextTypeFactory({
+      persistenceHelper: memoryHelper,
+      projectName,
+      contextType: 'general',
+      contextName: 'notes',
+      content: 'remember this'
+    });
+    await update.update();
+
+    const read = await contextTypeFactory({
+      persistenceHelper: memoryHelper,
+      projectName,
+      contextType: 'general',
+      contextName: 'notes'
+    });
+
+    expect(await read.read()).toEqual({ success: true, content: 'remember this', revision: expect.any(String) });
+    expect((await memoryHelper.listAllContextForType(projectName, 'general')).data).toEqual(['notes']);
+
+    await read.reset();
+    expect((await memoryHelper.listAllContextForType(projectName, 'general')).data).toEqual([]);
+  });
+
+  test('appends timestamped log entries and clears them by prefix', async () => {
+    await memoryHelper.writeProjectConfig(projectName, {
+      contextTypes: [{ baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }]
+    });
+
+    await memoryHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await memoryHelper.writeContext(projectName, 'dev_log', 'dev_log', 'second');
+
+    expect((await memoryHelper.getContext(projectName, 'dev_log')).data).toEqual(['second', 'first']);
+    const entries = (await memoryHelper.listContextEntries(projectName, 'dev_log')).entries!;
+    expect(entries.map(entry => entry.content)).toEqual(['second', 'first']);
+    expect(entries[0].name).toMatch(/^dev_log-\d{4}-\d{2}-\d{2}T/);
+
+    await memoryHelper.clearContext(projectName, 'dev_log', ['dev_log']);
+    expect((await memoryHelper.getContext(projectName, 'dev_log')).data).toEqual([]);
+  });
+
+  test('amends a log entry in place and archives the original', async () => {
+    await memoryHelper.writeProjectConfig(projectName, {
+      contextTypes: [{ baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }]
+    });
+    await memoryHelper.writeContext(projectName, 'dev_log', 'dev_log', 'original');
+    const [entry] = (await memoryHelper.listContextEntries(projectName, 'dev_log')).entries!;
+
+    const result = await memoryHelper.amendLogEntry(projectName, 'dev_log', entry.name, 'amended');
+
+    expect(result).toEqual({ success: true });
+    expect((await memoryHelper.listContextEntries(projectName, 'dev_log')).entries).toEqual([{ name: entry.name, content: 'amended' }]);
+    expect((await memoryHelper.listArchives(projectName, 'dev_log')).archives).toEqual([
+      { contextType: 'dev_log', snapshot: expect.any(String), name: entry.name, size: 8 }
+    ]);
+  });
+
+  test('keeps cleared contexts readable from the archive', async () => {
+    await memoryHelper.writeContext(projectName, 'general', 'notes', 'recover me');
+    await memoryHelper.clearContext(projectName, 'general', ['notes']);
+
+    const listed = await memoryHelper.listArchives(projectName);
+    expect(listed.archives).toEqual([
+      { contextType: 'general', snapshot: expect.any(String), name: 'notes', size: 10 }
+    ]);
+
+    const result = await memoryHelper.getArchivedContext(projectName, 'general', listed.archives![0].snapshot, 'notes');
+    expect(result).toEqual({ success: true, data: ['recover me'] });
+  });
+
+  test('restores archived contexts and archives what they replace', async () => {
+    await memoryHelper.writeContext(projectName, 'general', 'notes', 'original');
+    await memoryHelper.clearContext(projectName, 'general');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await memoryHelper.writeContext(projectName, 'general', 'notes', 'replacement');
+    const [archived] = (await memoryHelper.listArchives(projectName)).archives!;
+
+    const result = await memoryHelper.restoreContext(projectName, 'general', archived.snapshot);
+
+    expect(result).toEqual({ success: true, data: ['notes'] });
+    expect((await memoryHelper.getContext(projectName, 'general', ['notes'])).data).toEqual(['original']);
+    expect((await memoryHelper.listArchives(projectName)).archives).toHaveLength(2);
+  });
+
+  test('archives each replaced version of a document under its own snapshot', async () => {
+    await memoryHelper.writeContext(projectName, 'general', 'notes', 'first');
+    const now = Date.now();
+    Settings.now = (): number => now;
+    try {
+      await memoryHelper.replaceContext(projectName, 'general', 'notes', 'second');
+      await memoryHelper.replaceContext(projectName, 'general', 'notes', 'third');
+    } finally {
+      Settings.now = (): number => Date.now();
+    }
+  
+    const archives = (await memoryHelper.listArchives(projectName, 'general')).archives!;
+    expect(new Set(archives.map(archived => archived.snapshot)).size).toBe(2);
+    const contents = await Promise.all(archives.map(async archived =>
+      (await memoryHelper.getArchivedContext(projectName, 'general', archived.snapshot, 'notes')).data?.[0]
+    ));
+    expect(contents.sort()).toEqual(['first', 'second']);
+    expect((await memoryHelper.getContext(projectName, 'general', ['notes'])).data).toEqual(['third']);
+  });
+  
+  test('gives archiving calls within the same millisecond snapshots of their own', async () => {
+    const now = Date.now();
+    Settings.now = (): number => now;
+    try {
+      await memoryHelper.writeContext(projectName, 'general', 'first', 'one');
+      await memoryHelper.clearContext(projectName, 'general');
+      await memoryHelper.writeContext(projectName, 'general', 'second', 'two');
+      await memoryHelper.clearContext(projectName, 'general');
+    } finally {
+      Settings.now = (): number => Date.now();
+    }
+
+    const archives = (await memoryHelper.listArchives(projectName, 'general')).archives!;
+    expect(new Set(archives.map(archived => archived.snapshot)).size).toBe(2);
+
+    const first = archives.find(archived => archived.name === 'first')!;
+    expect(await memoryHelper.restoreContext(projectName, 'general', first.snapshot)).toEqual({ success: true, data: ['first'] });
+    expect((await memoryHelper.listAllContextForType(projectName, 'general')).data).toEqual(['first']);
+  });
+
+  test('applies the archive retention policy with pruneArchive, not when clearing', async () => {
+    await memoryHelper.writeProjectConfig(projectName, {
+      archive: { maxSnapshots: 1 },
+      contextTypes: [{ baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false }]
+    });
+
+    for (const content of ['first', 'second']) {
+      await memoryHelper.writeContext(projectName, 'general', 'notes', content);
+      await memoryHelper.clearContext(projectName, 'general');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    expect((await memoryHelper.listArchives(projectName)).archives).toHaveLength(2);
+
+    await memoryHelper.pruneArchive(projectName, 'general');
+    const archives = (await memoryHelper.listArchives(projectName)).archives!;
+    expect(archives).toHaveLength(1);
+    expect((await memoryHelper.getArchivedContext(projectName, 'general', archives[0].snapshot, 'notes')).data).toEqual(['second']);
+  });
+
+  test('renames, archives, restores and deletes projects', async () => {
+    await memoryHelper.writeContext(projectName, 'general', 'notes', 'remember this');
+
+    expect(await memoryHelper.renameProject(projectName, 'renamed-project')).toEqual({ success: true });
+    expect((await memoryHelper.listProjects()).data).toEqual(['renamed-project']);
+
+    const archived = await memoryHelper.archiveProject('renamed-project');
+    expect((await memoryHelper.listProjects()).data).toEqual([]);
+    expect((await memoryHelper.listArchivedProjects()).archivedProjects).toEqual([
+      { projectName: 'renamed-project', snapshot: archived.data![0] }
+    ]);
+
+    expect(await memoryHelper.restoreProject('renamed-project')).toEqual({ success: true, data: ['renamed-project'] });
+    expect((await memoryHelper.getContext('renamed-project', 'general', ['notes'])).data).toEqual(['remember this']);
+
+    expect(await memoryHelper.deleteProject('renamed-project')).toEqual({ success: true });
+    expect((await memoryHelper.listProjects()).data).toEqual([]);
+  });
+
+  test('loads templates from the repository defaults', async () => {
+    await memoryHelper.writeProjectConfig(projectName, {
+      contextTypes: [{ baseType: 'templated-single-document', name: 'mental_model', description: 'Model', template: 'mental_model', validation: true }]
+    });
+
+    const result = await memoryHelper.getTemplate(projectName, 'mental_model');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.[0]).toContain('# Mental Model');
+  });
+});
@@ -1,9 +1,15 @@
-import { PersistenceHelper, PersistenceResponse, ProjectConfig } from '../../types.js';
+import { ArchiveEntry, PersistenceHelper, PersistenceResponse, ProjectConfig } from '../../types.js';
+import { timestamp } from '../../models/context_types/utilities/storage.js';
+
+interface MockArchivedContext extends ArchiveEntry {
+  content: string;
+}
 
 export class MockPersistenceHelper implements PersistenceHelper {
   private projects: Map<string, ProjectConfig> = new Map();
   private contexts: Map<string, Map<string, Map<string, string[]>>> = new Map(); // project -> contextType -> contextName -> content[]
   private templates: Map<string, Map<string, string>> = new Map(); // project -> templateName -> template content
+  private archives: Map<string, MockArchivedContext[]> = new Map(); // project -> contexts archived by clears and replacements
 
   constructor() {
     // Set up default project configuration
@@ -248,6 +254,25 @@ export class MockPersistenceHelper implements PersistenceHelper {
     }
   }
 
+  async listContextEntries(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]
+      };
+    }
+
+    const typeContexts: Map<string, string[]> = this.contexts.get(projectName)?.get(contextType) || new Map();
+    const isLog = this.projects.get(projectName)!.contextTypes.find(ct => ct.name === contextType)?.baseType.endsWith('-log');
+
+    // Log entries are numbered in the order they were appended; documents keep only their latest content
+    const entries = Array.from(typeContexts.entries()).flatMap(([contextName, content]) => isLog
+      ? content.map((entry, index) => ({ name: `${contextName}-${index}`, content: entry }))
+      : [{ name: contextName, content: content[content.length - 1] }]
+    );
+    return { success: true, entries: entries.sort((a, b) => b.name.localeCompare(a.name)) };
+  }
+
   async clearContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
     if (!this.projects.has(projectName)) {
       return {
@@ -269,14 +294,17 @@ export class MockPersistenceHelper implements PersistenceHelper {
     const projectContexts = this.contexts.get(projectName) || new Map();
     const typeContexts = projectContexts.get(contextType) || new Map();
 
-    if (contextNames) {
-      // Clear specific contexts
-      for (const contextName of contextNames) {
-        typeContexts.delete(contextName);
-      }
-    } else {
-      // Clear all contexts for this type
-      typeContexts.clear();
+    const cleared = contextNames || Array.from(typeContexts.keys());
+    const snapshot = timestamp();
+    for (const contextName of cleared) {
+      const content: string[] | undefined = typeContexts.get(contextName);
+      content?.forEach((entry, index) => this.archive(projectName, {
+        contextType,
+        snapshot,
+        name: contextTypeConfig.baseType.endsWith('-log') ? `${contextName}-${index}` : contextName,
+        content: entry
+      }));
+      typeContexts.delete(contextName);
     }
 
     projectContexts.set(contextType, typeContexts);
@@ -285,6 +313,81 @@ export class MockPersistenceHelper implements PersistenceHelper {
     return { success: true };
   }
 
+  async amendLogEntry(projectName: string, contextType: string, entryId: string, content: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]
+      };
+    }
+
+    // Entries are named `${contextName}-${index}` by listContextEntries
+    const typeContexts: Map<string, string[]> = this.contexts.get(projectName)?.get(contextType) || new Map();
+    for (const [contextName, entries] of Array.from(typeContexts.entries())) {
+      const index = entries.findIndex((_, i) => `${contextName}-${i}` === entryId);
+      if (index !== -1) {
+        entries[index] = content;
+        return { success: true };
+      }
+    }
+
+    return {
+      success: false,
+      errors: [`Log entry '${entryId}' not found in ${contextType}. Use list_log_entries to see its entries.`]
+    };
+  }
+
+  async replaceContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    const current = this.getStoredContent(projectName, contextType, contextName);
+    if (current && current.length > 0) {
+      this.archive(projectName, { contextType, snapshot: timestamp(), name: contextName, content: current[current.length - 1] });
+    }
+    return this.writeContext(projectName, contextType, contextName, content);
+  }
+
+  async listPrompts(projectName: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' does not exist`]
+      };
+    }
+    return { success: true, prompts: [] };
+  }
+
+  async writePrompt(projectName: string): Promise<PersistenceResponse> {
+    return { success: false, errors: [`Project '${projectName}' can't store prompts`] };
+  }
+
+  async writeTemplate(projectName: string, templateName: string, content: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' does not exist`]
+      };
+    }
+    if (!this.templates.has(projectName)) {
+      this.templates.set(projectName, new Map());
+    }
+    this.templates.get(projectName)!.set(templateName, content);
+    return { success: true };
+  }
+
+  async getNamedTemplate(projectName: string, templateName: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' does not exist`]
+      };
+    }
+
+    const template = this.templates.get(projectName)?.get(templateName);
+    return {
+      success: true,
+      data: [template ?? `# ${templateName} Template\n\nMock template`]
+    };
+  }
+
   async getTemplate(projectName: string, contextType: string): Promise<PersistenceResponse> {
     if (!this.projects.has(projectName)) {
       return {
@@ -326,6 +429,130 @@ export class MockPersistenceHelper implements PersistenceHelper {
     };
   }
 
+  async getOwnProjectConfig(projectName: string): Promise<PersistenceResponse> {
+    return this.getProjectConfig(projectName);
+  }
+
+  async getGlobalDefaultConfig(): Promise<PersistenceResponse> {
+    return { success: true };
+  }
+
+  async writeProjectConfig(projectName: string, config: ProjectConfig): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' does not exist`]
+      };
+    }
+
+    this.projects.set(projectName, config);
+    return { success: true };
+  }
+
+  async listArchives(projectName: string, contextType?: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' does not exist`]
+      };
+    }
+
+    const archives = (this.archives.get(projectName) || [])
+      .filter(archived => !contextType || archived.contextType === contextType)
+      .map(archived => ({ contextType: archived.contextType, snapshot: archived.snapshot, name: archived.name, size: archived.size }));
+    return { success: true, archives };
+  }
+
+  async getArchivedContext(projectName: string, contextType: string, snapshot: string, contextName: string): Promise<PersistenceResponse> {
+    const archived = (this.archives.get(projectName) || []).find(candidate =>
+      candidate.contextType === contextType && candidate.snapshot === snapshot && candidate.name === contextName
+    );
+    if (!archived) {
+      return {
+        success: false,
+        errors: [`Archived context '${contextType}/${snapshot}/${contextName}' not found`]
+      };
+    }
+
+    return { success: true, data: [archived.content] };
+  }
+
+  async pruneArchive(projectName: string, contextType?: string, dryRun: boolean = false): Promise<PersistenceResponse> {
+    return {
+      success: true,
+      prune: { dryRun, removed: [], compressed: [], deduplicated: [] }
+    };
+  }
+
+  async restoreContext(projectName: string, contextType: string, snapshot: string): Promise<PersistenceResponse> {
+    return {
+      success: false,
+      errors: [`Archive snapshot '${contextType}/${snapshot}' not found`]
+    };
+  }
+
+  async renameProject(projectName: string, newProjectName: string): Promise<PersistenceResponse> {
+    const config = this.projects.get(projectName);
+    if (!config) {
+      return { success: false, errors: [`Project '${projectName}' does not exist`] };
+    }
+    if (this.projects.has(newProjectName)) {
+      return { success: false, errors: [`Project '${newProjectName}' already exists.`] };
+    }
+
+    this.projects.set(newProjectName, config);
+    this.contexts.set(newProjectName, this.contexts.get(projectName) || new Map());
+    this.templates.set(newProjectName, this.templates.get(projectName) || new Map());
+    this.archives.set(newProjectName, this.archives.get(projectName) || []);
+    this.dropProject(projectName);
+    return { success: true };
+  }
+
+  // The mock has no project archive, so archiving behaves like deleting
+  async archiveProject(projectName: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return { success: false, errors: [`Project '${projectName}' does not exist`] };
+    }
+    this.dropProject(projectName);
+    return { success: true, data: ['2025-01-01T00-00-00-000Z'] };
+  }
+
+  async listArchivedProjects(): Promise<PersistenceResponse> {
+    return { success: true, archivedProjects: [] };
+  }
+
+  async restoreProject(projectName: string, snapshot?: string): Promise<PersistenceResponse> {
+    return {
+      success: false,
+      errors: [`Archived project '${snapshot ? `${projectName}/${snapshot}` : projectName}' not found`]
+    };
+  }
+
+  async deleteProject(projectName: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return { success: false, errors: [`Project '${projectName}' does not exist`] };
+    }
+    this.dropProject(projectName);
+    return { success: true };
+  }
+
+  async withProjectLock<T>(projectName: string, operation: () => Promise<T>): Promise<T> {
+    return operation();
+  }
+
+  private dropProject(projectName: string): void {
+    this.projects.delete(projectName);
+    this.contexts.delete(projectName);
+    this.templates.delete(projectName);
+    this.archives.delete(projectName);
+  }
+
+  private archive(projectName: string, archived: Omit<MockArchivedContext, 'size'>): void {
+    const archives = this.archives.get(projectName) || [];
+    archives.unshift({ ...archived, size: Buffer.byteLength(archived.content, 'utf-8') });
+    this.archives.set(projectName, archives);
+  }
+
   // Test helper methods
   setProjectConfig(projectName: string, config: ProjectConfig): void {
     this.projects.set(projectName, config);
@@ -354,6 +581,7 @@ export class MockPersistenceHelper implements PersistenceHelper {
     this.projects.clear();
     this.contexts.clear();
     this.templates.clear();
+    this.archives.clear();
     
     // Restore default projects
     this.__constructor();
@@ -0,0 +1,89 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  availablePersistenceBackends,
+  createPersistenceHelper,
+  registerPersistenceBackend,
+  resolvePersistenceBackend
+} from '../models/context_types/utilities/persistenceRegistry.js';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { GitFileSystemHelper } from '../models/context_types/utilities/git.js';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+import { SqliteHelper } from '../models/context_types/utilities/sqlite.js';
+import { MockPersistenceHelper } from './mocks/MockPersistenceHelper.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('persistenceRegistry', () => {
+  let tempDir: string;
+  const originalBackend = process.env.CONTEXT_BACKEND;
+
+  const writeSettings = async (settings: object): Promise<void> => {
+    await fs.writeFile(path.join(tempDir, 'settings.json'), JSON.stringify(settings));
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'persistence-registry-test-'));
+    delete process.env.CONTEXT_BACKEND;
+  });
+
+  afterEach(async () => {
+    if (originalBackend === undefined) {
+      delete process.env.CONTEXT_BACKEND;
+    } else {
+      process.env.CONTEXT_BACKEND = originalBackend;
+    }
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('defaults to the filesystem backend', () => {
+    expect(resolvePersistenceBackend(tempDir)).toBe('filesystem');
+    expect(createPersistenceHelper(tempDir)).toBeInstanceOf(FileSystemHelper);
+  });
+
+  test('reads the backend from settings.json', async () => {
+    await writeSettings({ backend: 'memory' });
+
+    expect(createPersistenceHelper(tempDir)).toBeInstanceOf(MemoryHelper);
+  });
+
+  test('prefers the CONTEXT_BACKEND environment variable over settings.json', async () => {
+    await writeSettings({ backend: 'memory' });
+    process.env.CONTEXT_BACKEND = 'git';
+
+    expect(createPersistenceHelper(tempDir)).toBeInstanceOf(GitFileSystemHelper);
+  });
+
+  test('creates the sqlite backend under the context root', async () => {
+    process.env.CONTEXT_BACKEND = 'sqlite';
+
+    const helper = createPersistenceHelper(tempDir);
+
+    expect(helper).toBeInstanceOf(SqliteHelper);
+    (helper as SqliteHelper).close();
+  });
+
+  test('rejects unknown backends and lists the available ones', () => {
+    process.env.CONTEXT_BACKEND = 'carrier-pigeon';
+
+    expect(() => createPersistenceHelper(tempDir)).toThrow(
+      `Unknown persistence backend: carrier-pigeon. Available backends: ${availablePersistenceBackends().join(', ')}`
+    );
+  });
+
+  test('reports malformed settings files', async () => {
+    await fs.writeFile(path.join(tempDir, 'settings.json'), '{ not json');
+
+    expect(() => createPersistenceHelper(tempDir)).toThrow(/Error parsing settings file/);
+  });
+
+  test('accepts additional registered backends', () => {
+    registerPersistenceBackend('mock', MockPersistenceHelper);
+    process.env.CONTEXT_BACKEND = 'mock';
+
+    expect(createPersistenceHelper(tempDir)).toBeInstanceOf(MockPersistenceHelper);
+  });
+});
@@ -0,0 +1,135 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+import CreateProjectHandler from '../handlers/createProjectHandler.js';
+import ListPresetsHandler from '../handlers/listPresetsHandler.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('presets', () => {
+  let tempDir: string;
+  let presetsDir: string;
+  let fileSystemHelper: FileSystemHelper;
+
+  const writeFile = async (filePath: string, content: string): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  };
+
+  const writeTeamPreset = async (): Promise<void> => {
+    const presetDir = path.join(presetsDir, 'team-service');
+    await writeFile(path.join(presetDir, 'preset.json'), JSON.stringify({ description: 'Our services' }));
+    await writeFile(path.join(presetDir, 'project-config.json'), JSON.stringify({
+      contextTypes: [
+        { baseType: 'freeform-document-collection', name: 'runbooks', description: 'Runbooks' },
+        { baseType: 'freeform-log', name: 'incidents', description: 'Incidents' }
+      ]
+    }));
+    await writeFile(path.join(presetDir, 'prompts', 'review.md'), 'Review {{context:runbooks/deploy}}');
+    await writeFile(path.join(presetDir, 'seed', 'runbooks', 'deploy.md'), '# Deploy\n');
+    await writeFile(path.join(presetDir, 'seed', 'incidents', 'first.md'), 'Project created\n');
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'presets-test-'));
+    presetsDir = path.join(tempDir, 'presets');
+    fileSystemHelper = new FileSystemHelper(tempDir);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('lists built-in and user presets, user presets shadowing built-in ones', async () => {
+    await writeTeamPreset();
+    await writeFile(path.join(presetsDir, 'software-project', 'project-config.json'), JSON.stringify({ contextTypes: [] }));
+    await fs.mkdir(path.join(presetsDir, 'not-a-preset'));
+
+    const result = await new ListPresetsHandler(presetsDir).handle();
+
+    expect(result.structuredContent).toEqual({
+      presets: [
+        { name: 'software-project', description: null, source: 'user' },
+        { name: 'team-service', description: 'Our services', source: 'user' }
+      ]
+    });
+  });
+
+  test('creates a project from the built-in software-project preset', async () => {
+    const result = await new CreateProjectHandler(fileSystemHelper, presetsDir).handle({ projectName: 'my-app', preset: 'software-project' });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      projectName: 'my-app',
+      preset: {
+        name: 'software-project',
+        source: 'built-in',
+        templates: [],
+        seeded: ['start_here/start_here'],
+        warnings: []
+      }
+    });
+
+    const config = await fileSystemHelper.getProjectConfig('my-app');
+    expect(config.config?.contextTypes.map(ct => ct.name)).toEqual(
+      ['session_summary', 'mental_model', 'features', 'other', 'dev_log', 'start_here']
+    );
+    expect(config.config).not.toHaveProperty('$schema');
+    expect((await fileSystemHelper.getNamedTemplate('my-app', 'mental_model')).success).toBe(true);
+    const startHere = await fileSystemHelper.getContext('my-app', 'start_here', ['start_here']);
+    expect(startHere.data?.[0]).toMatch(/^# Start Here/);
+  });
+
+  test('applies prompts and seeds of a user preset', async () => {
+    await writeTeamPreset();
+
+    const result = await new CreateProjectHandler(fileSystemHelper, presetsDir).handle({ projectName: 'payments', preset: 'team-service' });
+
+    expect(result.isError).toBeFalsy();
+    expect((await fileSystemHelper.listPrompts('payments')).prompts).toEqual([{ name: 'review', content: 'Review {{context:runbooks/deploy}}' }]);
+    expect((await fileSystemHelper.getContext('payments', 'runbooks', ['deploy'])).data?.[0]).toBe('# Deploy\n');
+    const incidents = await fileSystemHelper.listAllContextForType('payments', 'incidents');
+    expect(incidents.data).toHaveLength(1);
+  });
+
+  test('warns about prompts a backend cannot store', async () => {
+    await writeTeamPreset();
+
+    const result = await new CreateProjectHandler(new MemoryHelper(), presetsDir).handle({ projectName: 'payments', preset: 'team-service' });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.structuredContent as { preset: { warnings: string[] } }).preset.warnings).toEqual([
+      "Project 'payments' can't store prompts of its own; only the filesystem backends keep project prompts."
+    ]);
+  });
+
+  test('rejects unknown and invalid presets before creating the project', async () => {
+    await writeFile(path.join(presetsDir, 'broken', 'project-config.json'), JSON.stringify({ contextTypes: [{ name: 'x' }] }));
+    const handler = new CreateProjectHandler(fileSystemHelper, presetsDir);
+
+    const unknown = await handler.handle({ projectName: 'my-app', preset: 'no-such-preset' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toBe("Preset 'no-such-preset' not found. Available presets: broken, software-project");
+
+    const broken = await handler.handle({ projectName: 'my-app', preset: 'broken' });
+    expect(broken.isError).toBe(true);
+    expect(broken.content[0].text).toMatch(/^Invalid project-config.json in preset 'broken': /);
+
+    await writeFile(path.join(presetsDir, 'untemplated', 'project-config.json'), JSON.stringify({
+      contextTypes: [{ baseType: 'templated-log', name: 'incidents', description: 'Incidents', template: 'incident' }]
+    }));
+    const untemplated = await handler.handle({ projectName: 'my-app', preset: 'untemplated' });
+    expect(untemplated.isError).toBe(true);
+    expect(untemplated.content[0].text).toContain("Preset 'untemplated' refers to templates that neither it nor the package provides: incident");
+
+    expect((await fileSystemHelper.listProjects()).data).toEqual([]);
+  });
+});
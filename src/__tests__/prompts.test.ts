@@ -0,0 +1,129 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { parsePrompt, renderPrompt } from '../models/context_types/utilities/prompts.js';
+import PromptsHandler from '../handlers/promptsHandler.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('prompts', () => {
+  describe('parsePrompt', () => {
+    test('reads the description and arguments from the frontmatter', () => {
+      const prompt = parsePrompt({
+        name: 'summary',
+        content: [
+          '---',
+          'description: "Summarize a project"',
+          'arguments:',
+          '  project_name: Project to summarize',
+          '  since: (optional) Tag to start from',
+          '---',
+          'Summarize {{project_name}} since {{since}}.'
+        ].join('\n')
+      });
+
+      expect(prompt).toEqual({
+        name: 'summary',
+        description: 'Summarize a project',
+        arguments: [
+          { name: 'project_name', description: 'Project to summarize', required: true },
+          { name: 'since', description: 'Tag to start from', required: false }
+        ],
+        body: 'Summarize {{project_name}} since {{since}}.'
+      });
+    });
+
+    test('takes optional arguments from the placeholders without frontmatter', () => {
+      const prompt = parsePrompt({ name: 'plain', content: 'Review {{project_name}}, then {{ feature }} and {{context:features}}.' });
+
+      expect(prompt.arguments).toEqual([
+        { name: 'project_name', required: false },
+        { name: 'feature', required: false }
+      ]);
+    });
+  });
+
+  test('renderPrompt substitutes arguments, inlines contexts and leaves unknown placeholders', async () => {
+    const read: unknown[] = [];
+
+    const text = await renderPrompt(
+      'Project {{project_name}} at {{time}}:\n{{context:general/notes}}\n{{context:overview}}',
+      { project_name: 'demo' },
+      async context => {
+        read.push(context);
+        return `<${context.contextType}>`;
+      }
+    );
+
+    expect(text).toBe('Project demo at {{time}}:\n<general>\n<overview>');
+    expect(read).toEqual([{ contextType: 'general', name: 'notes' }, { contextType: 'overview' }]);
+  });
+
+  describe('PromptsHandler', () => {
+    let tempDir: string;
+    let fileSystemHelper: FileSystemHelper;
+    let handler: PromptsHandler;
+    const projectName = 'test-project';
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-test-'));
+      fileSystemHelper = new FileSystemHelper(tempDir);
+      handler = new PromptsHandler(fileSystemHelper);
+
+      await fileSystemHelper.initProject(projectName);
+      await fileSystemHelper.writeContext(projectName, 'general', 'notes', '# Notes\n\nKeep it short.');
+
+      const promptsDir = path.join(tempDir, 'projects', projectName, 'prompts');
+      await fs.mkdir(promptsDir);
+      await fs.writeFile(path.join(promptsDir, 'review.md'), [
+        '---',
+        'description: Review the notes',
+        'arguments:',
+        '  project_name: Project to review',
+        '  focus: What to look at',
+        '---',
+        'Review {{focus}} in {{project_name}}:\n\n{{context:general/notes}}'
+      ].join('\n'));
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      } catch (error) {
+        console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+      }
+    });
+
+    test('lists the package prompts and project prompts with project_name bound', async () => {
+      const { prompts } = await handler.listPrompts();
+
+      expect(prompts.map(prompt => prompt.name)).toEqual(
+        expect.arrayContaining(['session_summary', 'readme_update', 'testing', `${projectName}/review`])
+      );
+      expect(prompts.find(prompt => prompt.name === `${projectName}/review`)).toEqual({
+        name: `${projectName}/review`,
+        description: 'Review the notes',
+        arguments: [{ name: 'focus', description: 'What to look at', required: true }]
+      });
+    });
+
+    test('renders a project prompt with its context inlined', async () => {
+      const result = await handler.getPrompt(`${projectName}/review`, { focus: 'tone' });
+
+      expect(result.messages).toEqual([{
+        role: 'user',
+        content: { type: 'text', text: `Review tone in ${projectName}:\n\n# Notes\n\nKeep it short.` }
+      }]);
+    });
+
+    test('rejects missing required arguments and unknown prompts', async () => {
+      await expect(handler.getPrompt('session_summary', { since: 'v1' })).rejects.toThrow(
+        "Prompt 'session_summary' requires the argument(s) project_name."
+      );
+      await expect(handler.getPrompt('missing')).rejects.toThrow("Prompt 'missing' not found.");
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { Settings } from 'luxon';
+import { SqliteHelper } from '../models/context_types/utilities/sqlite.js';
+
+// Override the mocked fs for this test since we need real filesystem operations
+jest.unmock('fs');
+
+describe('SqliteHelper', () => {
+  let tempDir: string;
+  let sqliteHelper: SqliteHelper;
+  let projectName: string;
+
+  const customConfig = {
+    contextTypes: [
+      { baseType: 'templated-single-document', name: 'mental_model', description: 'Model', template: 'mental_model', validation: true },
+      { baseType: 'freeform-document-collection', name: 'general', description: 'Docs', validation: false },
+      { baseType: 'freeform-log', name: 'dev_log', description: 'Log', validation: false }
+    ]
+  };
+
+  const useCustomConfig = (helper: SqliteHelper): void => {
+    // The config lives in the database, so tests write it the way a user would edit it
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (helper as any).db
+      .prepare('UPDATE projects SET config = ? WHERE name = ?')
+      .run(JSON.stringify(customConfig), projectName);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-helper-test-'));
+    sqliteHelper = new SqliteHelper(tempDir);
+    projectName = 'test-project';
+
+    await sqliteHelper.initProject(projectName);
+  });
+
+  afterEach(async () => {
+    sqliteHelper.close();
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup temp directory ${tempDir}:`, error);
+    }
+  });
+
+  test('stores everything in a single database file under the context root', async () => {
+    const stats = await fs.stat(path.join(tempDir, 'context.sqlite'));
+    expect(stats.isFile()).toBe(true);
+  });
+
+  describe('projects', () => {
+    test('lists initialized projects', async () => {
+      await sqliteHelper.initProject('another-project');
+
+      const result = await sqliteHelper.listProjects();
+
+      expect(result).toEqual({ success: true, data: ['another-project', 'test-project'] });
+    });
+
+    test('refuses to initialize an existing project', async () => {
+      const result = await sqliteHelper.initProject(projectName);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([`Project '${projectName}' already exists.`]);
+    });
+
+    test('creates the default config on first load', async () => {
+      const result = await sqliteHelper.getProjectConfig(projectName);
+
+      expect(result.success).toBe(true);
+      expect(result.config?.contextTypes).toHaveLength(1);
+      expect(result.config?.contextTypes[0].name).toBe('general');
+    });
+
+    test('fails to load config for a missing project', async () => {
+      const result = await sqliteHelper.getProjectConfig('nonexistent-project');
+
+      expect(result.success).toBe(false);
+    });
+
+    test('persists across helper instances', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'doc', 'persisted');
+      sqliteHelper.close();
+
+      sqliteHelper = new SqliteHelper(tempDir);
+      const result = await sqliteHelper.getContext(projectName, 'general', ['doc']);
+
+      expect(result).toEqual({ success: true, data: ['persisted'] });
+    });
+
+    test('renames a project with its contexts, archives and config', async () => {
+      useCustomConfig(sqliteHelper);
+      await sqliteHelper.writeContext(projectName, 'general', 'doc', 'kept');
+      await sqliteHelper.writeContext(projectName, 'general', 'old', 'archived');
+      await sqliteHelper.clearContext(projectName, 'general', ['old']);
+
+      const result = await sqliteHelper.renameProject(projectName, 'renamed-project');
+
+      expect(result).toEqual({ success: true });
+      expect((await sqliteHelper.listProjects()).data).toEqual(['renamed-project']);
+      expect((await sqliteHelper.getContext('renamed-project', 'general', ['doc'])).data).toEqual(['kept']);
+      expect((await sqliteHelper.listArchives('renamed-project')).archives).toHaveLength(1);
+      expect((await sqliteHelper.getProjectConfig('renamed-project')).config).toEqual(customConfig);
+    });
+
+    test('archives a project and restores it under a new name', async () => {
+      useCustomConfig(sqliteHelper);
+      await sqliteHelper.writeContext(projectName, 'general', 'doc', 'kept');
+      await sqliteHelper.writeContext(projectName, 'general', 'old', 'archived');
+      await sqliteHelper.clearContext(projectName, 'general', ['old']);
+
+      const archived = await sqliteHelper.archiveProject(projectName);
+      await sqliteHelper.initProject(projectName);
+
+      expect(archived.success).toBe(true);
+      expect((await sqliteHelper.listArchivedProjects()).archivedProjects).toEqual([{ projectName, snapshot: archived.data![0] }]);
+      expect((await sqliteHelper.restoreProject(projectName)).errors![0]).toContain('new_project_name');
+
+      const restored = await sqliteHelper.restoreProject(projectName, archived.data![0], 'restored-project');
+
+      expect(restored).toEqual({ success: true, data: ['restored-project'] });
+      expect((await sqliteHelper.getContext('restored-project', 'general', ['doc'])).data).toEqual(['kept']);
+      expect((await sqliteHelper.listArchives('restored-project')).archives).toHaveLength(1);
+      expect((await sqliteHelper.getProjectConfig('restored-project')).config).toEqual(customConfig);
+      expect((await sqliteHelper.listArchivedProjects()).archivedProjects).toEqual([]);
+    });
+
+    test('deletes a project and everything stored for it', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'doc', 'content');
+
+      expect(await sqliteHelper.deleteProject(projectName)).toEqual({ success: true });
+      expect((await sqliteHelper.listProjects()).data).toEqual([]);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const remaining = (sqliteHelper as any).db.prepare('SELECT COUNT(*) AS count FROM contexts').get();
+      expect(remaining).toEqual({ count: 0 });
+      expect((await sqliteHelper.deleteProject(projectName)).success).toBe(false);
+    });
+  });
+
+  describe('writeContext and getContext', () => {
+    beforeEach(() => {
+      useCustomConfig(sqliteHelper);
+    });
+
+    test('fails when project does not exist', async () => {
+      const result = await sqliteHelper.writeContext('nonexistent-project', 'general', 'doc', 'content');
+
+      expect(result.errors).toEqual([
+        "Project 'nonexistent-project' does not exist. Create it first using create_project."
+      ]);
+    });
+
+    test('fails when context type is not in project configuration', async () => {
+      const result = await sqliteHelper.writeContext(projectName, 'unknown-type', 'doc', 'content');
+
+      expect(result.errors).toEqual(["Context type 'unknown-type' not found in project configuration"]);
+    });
+
+    test('overwrites collection documents by name', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'doc', 'first');
+      await sqliteHelper.writeContext(projectName, 'general', 'doc', 'second');
+
+      const result = await sqliteHelper.getContext(projectName, 'general', ['doc']);
+
+      expect(result).toEqual({ success: true, data: ['second'] });
+    });
+
+    test('stores single documents under the context type name', async () => {
+      await sqliteHelper.writeContext(projectName, 'mental_model', 'ignored', '# Mental Model');
+
+      const result = await sqliteHelper.getContext(projectName, 'mental_model', ['mental_model']);
+
+      expect(result).toEqual({ success: true, data: ['# Mental Model'] });
+    });
+
+    test('appends log entries and returns them newest first', async () => {
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first entry');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'second entry');
+
+      const result = await sqliteHelper.getContext(projectName, 'dev_log');
+
+      expect(result).toEqual({ success: true, data: ['second entry', 'first entry'] });
+    });
+
+    test('lists every stored context of a type with its name', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'alpha', 'first');
+      await sqliteHelper.writeContext(projectName, 'general', 'beta', 'second');
+
+      const result = await sqliteHelper.listContextEntries(projectName, 'general');
+
+      expect(result).toEqual({
+        success: true,
+        entries: [{ name: 'beta', content: 'second' }, { name: 'alpha', content: 'first' }]
+      });
+    });
+
+    test('reports missing contexts', async () => {
+      const result = await sqliteHelper.getContext(projectName, 'general', ['missing']);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['general: Context not found. Have you created it using create_context yet?']);
+    });
+  });
+
+  describe('clearContext', () => {
+    beforeEach(() => {
+      useCustomConfig(sqliteHelper);
+    });
+
+    test('moves cleared documents into a single archive snapshot', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'doc-a', 'a');
+      await sqliteHelper.writeContext(projectName, 'general', 'doc-b', 'b');
+
+      const result = await sqliteHelper.clearContext(projectName, 'general');
+
+      expect(result.success).toBe(true);
+      expect((await sqliteHelper.getContext(projectName, 'general')).data).toEqual([]);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const archived = (sqliteHelper as any).db
+        .prepare('SELECT snapshot, name, content FROM archives ORDER BY name')
+        .all();
+      expect(archived).toHaveLength(2);
+      expect(archived[0].snapshot).toBe(archived[1].snapshot);
+      expect(archived[0].snapshot).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/);
+      expect(archived.map((row: { content: string }) => row.content)).toEqual(['a', 'b']);
+    });
+
+    test('clears only the named collection document', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'keep', 'keep');
+      await sqliteHelper.writeContext(projectName, 'general', 'remove', 'remove');
+
+      await sqliteHelper.clearContext(projectName, 'general', ['remove']);
+
+      expect((await sqliteHelper.listAllContextForType(projectName, 'general')).data).toEqual(['keep']);
+    });
+
+    test('clears log entries by name prefix', async () => {
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'entry');
+
+      await sqliteHelper.clearContext(projectName, 'dev_log', ['dev_log']);
+
+      expect((await sqliteHelper.getContext(projectName, 'dev_log')).data).toEqual([]);
+    });
+
+    test('clears a single log entry by its ID', async () => {
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first');
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'second');
+      const [second] = (await sqliteHelper.listContextEntries(projectName, 'dev_log')).entries!;
+
+      await sqliteHelper.clearContext(projectName, 'dev_log', [second.name]);
+
+      expect((await sqliteHelper.getContext(projectName, 'dev_log')).data).toEqual(['first']);
+    });
+  });
+
+  describe('amendLogEntry', () => {
+    beforeEach(() => {
+      useCustomConfig(sqliteHelper);
+    });
+
+    test('replaces the entry under the same ID and archives the original', async () => {
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'original');
+      const [entry] = (await sqliteHelper.listContextEntries(projectName, 'dev_log')).entries!;
+
+      const result = await sqliteHelper.amendLogEntry(projectName, 'dev_log', entry.name, 'amended');
+
+      expect(result).toEqual({ success: true });
+      expect((await sqliteHelper.listContextEntries(projectName, 'dev_log')).entries).toEqual([{ name: entry.name, content: 'amended' }]);
+      const [archived] = (await sqliteHelper.listArchives(projectName, 'dev_log')).archives!;
+      expect(await sqliteHelper.getArchivedContext(projectName, 'dev_log', archived.snapshot, entry.name))
+        .toEqual({ success: true, data: ['original'] });
+    });
+
+    test('reports entries that do not exist', async () => {
+      const result = await sqliteHelper.amendLogEntry(projectName, 'dev_log', 'dev_log-2000-01-01T00-00-00-000Z', 'amended');
+
+      expect(result.errors).toEqual([
+        "Log entry 'dev_log-2000-01-01T00-00-00-000Z' not found in dev_log. Use list_log_entries to see its entries."
+      ]);
+    });
+  });
+
+  describe('archives', () => {
+    beforeEach(() => {
+      useCustomConfig(sqliteHelper);
+    });
+
+    test('lists and reads cleared contexts', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'notes', 'recover me');
+      await sqliteHelper.writeContext(projectName, 'mental_model', 'mental_model', 'model');
+      await sqliteHelper.clearContext(projectName, 'general');
+
+      const listed = await sqliteHelper.listArchives(projectName, 'general');
+      expect(listed.archives).toEqual([
+        { contextType: 'general', snapshot: expect.any(String), name: 'notes', size: 10 }
+      ]);
+
+      const result = await sqliteHelper.getArchivedContext(projectName, 'general', listed.archives![0].snapshot, 'notes');
+      expect(result).toEqual({ success: true, data: ['recover me'] });
+    });
+
+    test('restores a snapshot after archiving the current content', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'notes', 'original');
+      await sqliteHelper.clearContext(projectName, 'general');
+      await sqliteHelper.writeContext(projectName, 'general', 'notes', 'replacement');
+      const [archived] = (await sqliteHelper.listArchives(projectName)).archives!;
+
+      const result = await sqliteHelper.restoreContext(projectName, 'general', archived.snapshot);
+
+      expect(result).toEqual({ success: true, data: ['notes'] });
+      expect((await sqliteHelper.getContext(projectName, 'general', ['notes'])).data).toEqual(['original']);
+      const archives = (await sqliteHelper.listArchives(projectName)).archives!;
+      expect(archives).toHaveLength(2);
+      expect((await sqliteHelper.getArchivedContext(projectName, 'general', archives[0].snapshot, 'notes')).data)
+        .toEqual(['replacement']);
+    });
+
+    test('archives each replaced version of a document under its own snapshot', async () => {
+      await sqliteHelper.writeContext(projectName, 'general', 'notes', 'first');
+      const now = Date.now();
+      Settings.now = (): number => now;
+      try {
+        await sqliteHelper.replaceContext(projectName, 'general', 'notes', 'second');
+        await sqliteHelper.replaceContext(projectName, 'general', 'notes', 'third');
+      } finally {
+        Settings.now = (): number => Date.now();
+      }
+    
+      const archives = (await sqliteHelper.listArchives(projectName, 'general')).archives!;
+      expect(new Set(archives.map(archived => archived.snapshot)).size).toBe(2);
+      const contents = await Promise.all(archives.map(async archived =>
+        (await sqliteHelper.getArchivedContext(projectName, 'general', archived.snapshot, 'notes')).data?.[0]
+      ));
+      expect(contents.sort()).toEqual(['first', 'second']);
+      expect((await sqliteHelper.getContext(projectName, 'general', ['notes'])).data).toEqual(['third']);
+    });
+    
+    test('gives archiving calls within the same millisecond snapshots of their own', async () => {
+      const now = Date.now();
+      Settings.now = (): number => now;
+      try {
+        await sqliteHelper.writeContext(projectName, 'general', 'first', 'one');
+        await sqliteHelper.clearContext(projectName, 'general');
+        await sqliteHelper.writeContext(projectName, 'general', 'second', 'two');
+        await sqliteHelper.clearContext(projectName, 'general');
+      } finally {
+        Settings.now = (): number => Date.now();
+      }
+
+      const archives = (await sqliteHelper.listArchives(projectName, 'general')).archives!;
+      expect(new Set(archives.map(archived => archived.snapshot)).size).toBe(2);
+
+      const first = archives.find(archived => archived.name === 'first')!;
+      expect(await sqliteHelper.restoreContext(projectName, 'general', first.snapshot)).toEqual({ success: true, data: ['first'] });
+      expect((await sqliteHelper.listAllContextForType(projectName, 'general')).data).toEqual(['first']);
+    });
+
+    test('merges archived log entries with the current ones', async () => {
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'first');
+      await sqliteHelper.clearContext(projectName, 'dev_log');
+      await sqliteHelper.writeContext(projectName, 'dev_log', 'dev_log', 'second');
+      const [archived] = (await sqliteHelper.listArchives(projectName)).archives!;
+
+      await sqliteHelper.restoreContext(projectName, 'dev_log', archived.snapshot);
+
+      expect((await sqliteHelper.getContext(projectName, 'dev_log')).data?.sort()).toEqual(['first', 'second']);
+    });
+
+    test('removes snapshots beyond the retention policy', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (sqliteHelper as any).db
+        .prepare('UPDATE projects SET config = ? WHERE name = ?')
+        .run(JSON.stringify({ ...customConfig, archive: { maxSnapshots: 1 } }), projectName);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const insert = (sqliteHelper as any).db.prepare(
+        'INSERT INTO archives (project, context_type, snapshot, name, content) VALUES (?, ?, ?, ?, ?)'
+      );
+      insert.run(projectName, 'general', '2025-01-01T00-00-00-000Z', 'notes', 'older');
+      insert.run(projectName, 'general', '2025-02-01T00-00-00-000Z', 'notes', 'newer');
+
+      const dryRun = await sqliteHelper.pruneArchive(projectName, 'general', true);
+      expect(dryRun.prune?.removed).toEqual([
+        { contextType: 'general', snapshot: '2025-01-01T00-00-00-000Z', reason: 'max_snapshots' }
+      ]);
+      expect((await sqliteHelper.listArchives(projectName)).archives).toHaveLength(2);
+
+      await sqliteHelper.pruneArchive(projectName, 'general');
+      expect((await sqliteHelper.listArchives(projectName)).archives?.map(a => a.snapshot)).toEqual(['2025-02-01T00-00-00-000Z']);
+    });
+
+    test('reports archived contexts that do not exist', async () => {
+      const result = await sqliteHelper.getArchivedContext(projectName, 'general', '2025-01-01T00-00-00-000Z', 'missing');
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatch(/not found/);
+    });
+  });
+
+  describe('getTemplate', () => {
+    test('copies the repository default template into the database', async () => {
+      useCustomConfig(sqliteHelper);
+      const repositoryTemplate = await fs.readFile(path.join(process.cwd(), 'templates', 'mental_model.md'), 'utf-8');
+
+      const result = await sqliteHelper.getTemplate(projectName, 'mental_model');
+
+      expect(result).toEqual({ success: true, data: [repositoryTemplate] });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const stored = (sqliteHelper as any).db
+        .prepare('SELECT content FROM templates WHERE project = ? AND name = ?')
+        .get(projectName, 'mental_model');
+      expect(stored.content).toBe(repositoryTemplate);
+    });
+  });
+
+  describe('listAllContextForType', () => {
+    test('returns the context type name for single documents and logs', async () => {
+      useCustomConfig(sqliteHelper);
+
+      expect((await sqliteHelper.listAllContextForType(projectName, 'mental_model')).data).toEqual(['mental_model']);
+      expect((await sqliteHelper.listAllContextForType(projectName, 'dev_log')).data).toEqual(['dev_log']);
+    });
+  });
+});
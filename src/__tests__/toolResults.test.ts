@@ -0,0 +1,72 @@
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { MemoryHelper } from '../models/context_types/utilities/memory.js';
+import { outputSchemas } from '../handlers/outputSchemas.js';
+import ListProjectsHandler from '../handlers/listProjectsHandler.js';
+import ListContextsHandler from '../handlers/listContextsHandler.js';
+import GetContextHandler from '../handlers/getContextHandler.js';
+import UpdateContextHandler from '../handlers/updateContextHandler.js';
+import ClearContextHandler from '../handlers/clearContextHandler.js';
+import ListLogEntriesHandler from '../handlers/listLogEntriesHandler.js';
+import DeleteProjectHandler from '../handlers/deleteProjectHandler.js';
+
+describe('tool results', () => {
+  let memoryHelper: MemoryHelper;
+  const projectName = 'test-project';
+
+  beforeEach(async () => {
+    memoryHelper = new MemoryHelper();
+    await memoryHelper.initProject(projectName);
+    await memoryHelper.writeContext(projectName, 'general', 'notes', '# Notes');
+  });
+
+  test('return structured content alongside the text', async () => {
+    const result = await new ListContextsHandler(memoryHelper).handle({ projectName });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({
+      contextTypes: { general: { description: expect.any(String), contexts: ['notes'] } },
+      warnings: []
+    });
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent!.contextTypes);
+  });
+
+  test('report the document and revision read by get_context', async () => {
+    const result = await new GetContextHandler(memoryHelper).handle({ projectName, contextType: 'general', contextName: 'notes' });
+
+    expect(result.structuredContent).toEqual({ content: '# Notes', revision: expect.any(String) });
+  });
+
+  test('report the target of writes', async () => {
+    const update = await new UpdateContextHandler(memoryHelper).handle({
+      projectName, contextType: 'general', contextName: 'notes', content: '# Notes\n\nMore.'
+    });
+    const clear = await new ClearContextHandler(memoryHelper).handle({ projectName, contextType: 'general', contextName: 'notes' });
+
+    expect(update.structuredContent).toEqual({ projectName, contextType: 'general', contextName: 'notes' });
+    expect(clear.structuredContent).toEqual({ projectName, contextType: 'general', contextName: 'notes' });
+  });
+
+  test('set isError on failures and leave out structured content', async () => {
+    const results = await Promise.all([
+      new GetContextHandler(memoryHelper).handle({ projectName, contextType: 'general', contextName: 'missing' }),
+      new UpdateContextHandler(memoryHelper).handle({ projectName, contextType: 'general', contextName: 'notes', content: 'x', expectedRevision: 'stale' }),
+      new ListLogEntriesHandler(memoryHelper).handle({ projectName, contextType: 'general' }),
+      new DeleteProjectHandler(memoryHelper).handle({ projectName })
+    ]);
+
+    for (const result of results) {
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      expect(result.content[0].text.length).toBeGreaterThan(0);
+    }
+  });
+
+  test('declare the required fields of what they return', async () => {
+    const result = await new ListProjectsHandler(memoryHelper).handle();
+
+    expect(result.structuredContent).toEqual({ projects: [projectName] });
+    for (const field of outputSchemas.list_projects.required || []) {
+      expect(result.structuredContent).toHaveProperty(field);
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface ArchiveProjectArgs {
+  projectName: string;
+}
+
+class ArchiveProjectHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: ArchiveProjectArgs): Promise<ToolResult> {
+    const response = await this.persistenceHelper.archiveProject(args.projectName);
+
+    if (!response.success || !response.data) {
+      return toolError([{
+        type: 'text',
+        text: response.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: `Project '${args.projectName}' archived as snapshot ${response.data[0]}. ` +
+        'It no longer appears in list_projects; use restore_project to bring it back.'
+    }], { projectName: args.projectName, snapshot: response.data[0] });
+  }
+}
+
+export default ArchiveProjectHandler;
@@ -1,47 +1,59 @@
-import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
 import  ContextTypeFactory from '../models/contexTypeFactory.js';
-import { ContentItem } from '../types.js';
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
 
 interface ResetContextArgs {
   projectName: string;
   contextType: string;
   contextName?: string;
+  entryId?: string; // A single log entry to clear
+  expectedRevision?: string; // Reject the clear unless the content is still at this revision
 }
 
 class ResetContextHandler {
-  private persistenceHelper: FileSystemHelper;
+  private persistenceHelper: PersistenceHelper;
 
   constructor(
-    persistenceHelper: FileSystemHelper 
+    persistenceHelper: PersistenceHelper 
   ) {
     this.persistenceHelper = persistenceHelper;
   }
 
-  async handle(args: ResetContextArgs): Promise<{ content: ContentItem[] }> {
+  async handle(args: ResetContextArgs): Promise<ToolResult> {
     const contextType = await ContextTypeFactory({
       persistenceHelper: this.persistenceHelper,
       projectName: args.projectName,
       contextType: args.contextType,
-      contextName: args.contextName
+      contextName: args.contextName,
+      entryId: args.entryId,
+      expectedRevision: args.expectedRevision
     });
 
     const result = await contextType.reset()
   
-    if (result.success) {  
-      return {
-        content: [{
-          type: 'text',
-          text: 'Context reset successfully'
-        }]
-      };
+    if (result.conflict) {
+      return toolError([
+        { type: 'text', text: result.errors?.join('\n') || 'Conflict' },
+        { type: 'text', text: `Current content (revision ${result.revision}):\n\n${result.content || ''}` }
+      ]);
     }
 
-    return {
-      content: [{
+    if (result.success) {  
+      return toolResult([{
         type: 'text',
-        text: result.errors?.join('\n') || 'An unknown error occurred'
-      }]
-    };
+        text: 'Context reset successfully'
+      }], {
+        projectName: args.projectName,
+        contextType: args.contextType,
+        contextName: args.contextName,
+        entryId: args.entryId
+      });
+    }
+
+    return toolError([{
+      type: 'text',
+      text: result.errors?.join('\n') || 'An unknown error occurred'
+    }]);
   }
 }
 
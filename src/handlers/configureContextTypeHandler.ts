@@ -0,0 +1,84 @@
+import { ArchivePolicy, PersistenceHelper, ToolResult, TypeConfig } from '../types.js';
+import { ContextTypeChanges, ContextTypeEditor, RemovedContentAction } from '../models/context_types/utilities/contextTypeEditor.js';
+import { toolError, toolResult } from './toolResult.js';
+
+type ConfigureAction = 'add' | 'update' | 'remove';
+
+interface ConfigureContextTypeArgs {
+  projectName: string;
+  action: ConfigureAction;
+  contextType: string;
+  baseType?: TypeConfig['baseType'];
+  description?: string;
+  template?: string;
+  validation?: boolean;
+  schema?: Record<string, unknown>;  // JSON Schema for json-document types
+  archive?: ArchivePolicy;
+  onRemove?: RemovedContentAction;  // Required for removal: archive or keep the stored content
+}
+
+class ConfigureContextTypeHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: ConfigureContextTypeArgs): Promise<ToolResult> {
+    const editor = new ContextTypeEditor(this.persistenceHelper, args.projectName);
+    const changes: ContextTypeChanges = Object.fromEntries(
+      Object.entries({
+        baseType: args.baseType,
+        description: args.description,
+        template: args.template,
+        validation: args.validation,
+        schema: args.schema,
+        archive: args.archive
+      }).filter(([, value]) => value !== undefined)
+    );
+
+    let response;
+    switch (args.action) {
+      case 'add':
+        response = await editor.add({ ...changes, name: args.contextType } as TypeConfig);
+        break;
+      case 'update':
+        response = await editor.update(args.contextType, changes);
+        break;
+      case 'remove':
+        // Removal can lose track of content, so the caller has to say what becomes of it
+        if (args.onRemove !== 'archive' && args.onRemove !== 'keep') {
+          return toolError([{
+            type: 'text',
+            text: `Context type '${args.contextType}' was not removed. Set on_remove to 'archive' to move its stored content to the archive, ` +
+              "or to 'keep' to leave it in storage, where adding the type again finds it."
+          }]);
+        }
+        response = await editor.remove(args.contextType, args.onRemove);
+        break;
+      default:
+        return toolError([{ type: 'text', text: `Invalid action '${args.action}'. Use 'add', 'update' or 'remove'.` }]);
+    }
+
+    if (!response.success || !response.typeConfig) {
+      return toolError([{ type: 'text', text: response.errors?.join('\n') || 'An unknown error occurred' }]);
+    }
+
+    const summary = {
+      add: `Context type '${args.contextType}' added.`,
+      update: `Context type '${args.contextType}' updated.`,
+      remove: `Context type '${args.contextType}' removed; its stored content was ${args.onRemove === 'archive' ? 'archived' : 'kept'}.`
+    }[args.action];
+
+    return toolResult([
+      { type: 'text', text: summary },
+      { type: 'text', text: JSON.stringify(response.typeConfig) }
+    ], {
+      action: args.action,
+      contextType: response.typeConfig,
+      ...(args.action === 'remove' && { onRemove: args.onRemove })
+    });
+  }
+}
+
+export default ConfigureContextTypeHandler;
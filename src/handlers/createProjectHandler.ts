@@ -1,32 +1,74 @@
-import { ContentItem } from '../types.js';
-import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { applyPreset, Preset, readPreset } from '../models/context_types/utilities/presets.js';
+import { resolvePresetsDir } from '../models/context_types/utilities/settings.js';
+import { toolError, toolResult } from './toolResult.js';
 
 class CreateProjectHandler {
-  private persistenceHelper: FileSystemHelper;
+  private persistenceHelper: PersistenceHelper;
+  private presetsDir: string;
   
   constructor(
-    persistenceHelper: FileSystemHelper,
+    persistenceHelper: PersistenceHelper,
+    presetsDir: string = resolvePresetsDir()
   ) {
     this.persistenceHelper = persistenceHelper;
+    this.presetsDir = presetsDir;
     }
 
-  async handle(args: {projectName: string}): Promise<{ content: ContentItem[] }> {
+  async handle(args: {projectName: string, preset?: string}): Promise<ToolResult> {
     try {
+      // Read the preset first, so a broken preset leaves no half-initialized project behind
+      let preset: Preset | undefined;
+      if (args.preset !== undefined) {
+        try {
+          preset = await readPreset(args.preset, this.presetsDir);
+        } catch (error) {
+          return toolError([{ type: 'text', text: error instanceof Error ? error.message : 'Unknown error' }]);
+        }
+      }
+
       const result = await this.persistenceHelper.initProject(args.projectName);
       if (!result.success) {
-        return {
-          content: [{
-            type: 'text',
-            text: result.errors?.join('\n') || 'An unknown error occurred'
-          }]
-        };
+        return toolError([{
+          type: 'text',
+          text: result.errors?.join('\n') || 'An unknown error occurred'
+        }]);
       }
-      return {
-        content: [{
+
+      if (!preset) {
+        return toolResult([{
           type: 'text',
           text: 'Project initialized successfully'
-        }]
-      };
+        }], { projectName: args.projectName });
+      }
+
+      const applied = await applyPreset(this.persistenceHelper, args.projectName, preset);
+      if (!applied.success) {
+        return toolError([{
+          type: 'text',
+          text: `Project '${args.projectName}' was created but preset '${preset.name}' could not be applied: ${applied.errors?.join('\n') || 'An unknown error occurred'}`
+        }]);
+      }
+
+      const content = [{
+        type: 'text',
+        text: `Project initialized successfully from preset '${preset.name}' with context types: ${preset.config.contextTypes.map(ct => ct.name).join(', ')}`
+      }];
+      if (applied.warnings.length > 0) {
+        content.push({ type: 'text', text: `Preset warning: ${applied.warnings.join(', ')}` });
+      }
+      return toolResult(content, {
+        projectName: args.projectName,
+        preset: {
+          name: preset.name,
+          source: preset.source,
+          contextTypes: preset.config.contextTypes.map(ct => ct.name),
+          templates: preset.templates.map(template => template.name),
+          prompts: preset.prompts.map(prompt => prompt.name),
+          seeded: preset.seeds.map(seed => `${seed.contextType}/${seed.contextName}`),
+          warnings: applied.warnings
+        }
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to initialize project: ${errorMessage}`);
@@ -34,4 +76,4 @@ class CreateProjectHandler {
   }
 }
 
-export default CreateProjectHandler;
\ No newline at end of file
+export default CreateProjectHandler;
@@ -0,0 +1,42 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface DeleteProjectArgs {
+  projectName: string;
+  confirmProjectName?: string;
+}
+
+class DeleteProjectHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: DeleteProjectArgs): Promise<ToolResult> {
+    // Deletion can't be undone, so the caller has to repeat the name it means
+    if (args.confirmProjectName !== args.projectName) {
+      return toolError([{
+        type: 'text',
+        text: `Project '${args.projectName}' was not deleted. Deleting a project permanently removes all of its context and archives; ` +
+          'to confirm, set confirm_project_name to the project name. Use archive_project instead to set a project aside recoverably.'
+      }]);
+    }
+
+    const response = await this.persistenceHelper.deleteProject(args.projectName);
+
+    if (!response.success) {
+      return toolError([{
+        type: 'text',
+        text: response.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: `Project '${args.projectName}' deleted permanently.`
+    }], { projectName: args.projectName });
+  }
+}
+
+export default DeleteProjectHandler;
@@ -0,0 +1,49 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { CURRENT_VERSION, ContextHistory, DiffFormat } from '../models/context_types/utilities/history.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface DiffContextArgs {
+  projectName: string;
+  contextType: string;
+  contextName?: string;
+  fromVersion: string;
+  toVersion?: string;
+  format?: DiffFormat;
+}
+
+class DiffContextHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: DiffContextArgs): Promise<ToolResult> {
+    if (args.format !== undefined && args.format !== 'unified' && args.format !== 'sections') {
+      return toolError([{ type: 'text', text: `Invalid format '${args.format}'. Use 'unified' or 'sections'.` }]);
+    }
+
+    const history = new ContextHistory(this.persistenceHelper, args.projectName);
+    const result = await history.diff(args.contextType, args.contextName, args.fromVersion, args.toVersion, args.format);
+
+    if (!result.success) {
+      return toolError([{
+        type: 'text',
+        text: result.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    const diff = result.content || '';
+    return toolResult([{
+      type: 'text',
+      text: diff
+    }], {
+      fromVersion: args.fromVersion,
+      toVersion: args.toVersion || CURRENT_VERSION,
+      format: args.format || 'unified',
+      diff
+    });
+  }
+}
+
+export default DiffContextHandler;
@@ -0,0 +1,40 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface GetArchivedContextArgs {
+  projectName: string;
+  contextType: string;
+  snapshot: string;
+  contextName: string;
+}
+
+class GetArchivedContextHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: GetArchivedContextArgs): Promise<ToolResult> {
+    const response = await this.persistenceHelper.getArchivedContext(
+      args.projectName,
+      args.contextType,
+      args.snapshot,
+      args.contextName
+    );
+
+    if (!response.success || !response.data) {
+      return toolError([{
+        type: 'text',
+        text: response.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: response.data[0]
+    }], { content: response.data[0] });
+  }
+}
+
+export default GetArchivedContextHandler;
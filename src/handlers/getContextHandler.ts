@@ -1,49 +1,81 @@
-import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
 import  ContextTypeFactory  from '../models/contexTypeFactory.js';
-import { ContentItem } from '../types.js';
+import { ContentItem, LogWindow, PersistenceHelper, ReadMode, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
 
 interface GetContextArgs {
   projectName: string;
   contextType: string;
   contextName?: string;
+  entryId?: string;
+  section?: string;
+  mode?: ReadMode;
+  since?: string;
+  until?: string;
+  limit?: number;
+  cursor?: string;
 }
 
 class GetContextHandler {
-  private persistenceHelper: FileSystemHelper;
+  private persistenceHelper: PersistenceHelper;
   
   constructor(
-    persistenceHelper: FileSystemHelper
+    persistenceHelper: PersistenceHelper
   ) {
     this.persistenceHelper = persistenceHelper;
   }
 
-  async handle(args: GetContextArgs): Promise<{ content: ContentItem[] }> {
+  async handle(args: GetContextArgs): Promise<ToolResult> {
+    const { since, until, limit, cursor } = args;
+    const windowed = [since, until, limit, cursor].some(value => value !== undefined);
+    const logWindow: LogWindow | undefined = windowed ? { since, until, limit, cursor } : undefined;
+
     const contextType = await ContextTypeFactory({
       projectName: args.projectName,
       persistenceHelper: this.persistenceHelper,
       contextType: args.contextType,
-      contextName: args.contextName
+      contextName: args.contextName,
+      entryId: args.entryId,
+      section: args.section,
+      mode: args.mode,
+      logWindow
     });
 
     try {
       const result = await contextType.read();
       
       if (result.success) {
-       return {
-        content: [{
-          type: 'text',
-          text: result.content || ''
-        }]
-      };
-    };
+       const content: ContentItem[] = [
+          {
+            type: 'text',
+            text: result.content || ''
+          },
+          {
+            type: 'text',
+            text: `Revision: ${result.revision} (pass as expected_revision to update_context or clear_context to reject the write if this content has changed)`
+          }
+        ];
 
-    return {
-      content: [{
-        type: 'text',
-        text: result.errors?.join('\n') || 'An unknown error occurred'
-      }]
+       if (logWindow) {
+         content.push({
+           type: 'text',
+           text: result.hasMore
+             ? `More entries: true. Pass cursor "${result.nextCursor}" with the same since, until and limit to read the next, older page.`
+             : 'More entries: false. This is the last page of entries in the window.'
+         });
+       }
+
+       return toolResult(content, {
+         content: result.content || '',
+         revision: result.revision,
+         ...(logWindow && { hasMore: result.hasMore === true, nextCursor: result.nextCursor })
+       });
     };
 
+    return toolError([{
+      type: 'text',
+      text: result.errors?.join('\n') || 'An unknown error occurred'
+    }]);
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to get context: ${errorMessage}`);
@@ -0,0 +1,43 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+import { ContextHistory } from '../models/context_types/utilities/history.js';
+
+interface GetContextHistoryArgs {
+  projectName: string;
+  contextType: string;
+  contextName?: string;
+  since?: string;
+}
+
+class GetContextHistoryHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: GetContextHistoryArgs): Promise<ToolResult> {
+    const history = new ContextHistory(this.persistenceHelper, args.projectName);
+    const result = await history.listVersions(args.contextType, args.contextName, args.since);
+
+    if (!result.success || !result.versions) {
+      return toolError([{
+        type: 'text',
+        text: result.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    const versions = {
+      contextType: args.contextType,
+      contextName: args.contextName || args.contextType,
+      versions: result.versions
+    };
+
+    return toolResult([{
+      type: 'text',
+      text: JSON.stringify(versions)
+    }], versions);
+  }
+}
+
+export default GetContextHistoryHandler;
@@ -0,0 +1,59 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { mergeProjectConfig } from '../models/context_types/utilities/configInheritance.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface GetProjectConfigArgs {
+  projectName: string;
+}
+
+class GetProjectConfigHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  // The effective config: the project's own merged over the global default config
+  async handle(args: GetProjectConfigArgs): Promise<ToolResult> {
+    const own = await this.persistenceHelper.getOwnProjectConfig(args.projectName);
+    if (!own.success || !own.config) {
+      return toolError([
+        { type: 'text', text: 'GetProjectConfigHandler: Failed to load project configuration.' },
+        { type: 'text', text: own.errors?.join(', ') || 'Unknown error' }
+      ]);
+    }
+
+    const defaults = await this.persistenceHelper.getGlobalDefaultConfig();
+    if (!defaults.success) {
+      return toolError([
+        { type: 'text', text: 'GetProjectConfigHandler: Failed to load the default configuration.' },
+        { type: 'text', text: defaults.errors?.join(', ') || 'Unknown error' }
+      ]);
+    }
+
+    const { config, inherited, overridden, excluded, warnings } = mergeProjectConfig(defaults.config, own.config);
+    const allWarnings = [...(own.errors || []), ...(defaults.errors || []), ...warnings];
+
+    const content = [{ type: 'text', text: JSON.stringify(config, null, 2) }];
+    if (defaults.config) {
+      content.push({
+        type: 'text',
+        text: `From the default config: inherited ${inherited.join(', ') || 'none'}; overridden ${overridden.join(', ') || 'none'}; excluded ${excluded.join(', ') || 'none'}.`
+      });
+    }
+    if (allWarnings.length > 0) {
+      content.push({ type: 'text', text: `Configuration warning: ${allWarnings.join(', ')}` });
+    }
+
+    return toolResult(content, {
+      config,
+      hasDefaultConfig: defaults.config !== undefined,
+      inherited,
+      overridden,
+      excluded,
+      warnings: allWarnings
+    });
+  }
+}
+
+export default GetProjectConfigHandler;
@@ -1,27 +1,27 @@
-import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
-import { ContentItem } from '../types.js';
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
 
 interface GetProjectTemplatesArgs {
   projectName: string;
 }
 
 class GetProjectTemplatesHandler {
-  private persistenceHelper: FileSystemHelper;
+  private persistenceHelper: PersistenceHelper;
   
   constructor(
-    persistenceHelper: FileSystemHelper,
+    persistenceHelper: PersistenceHelper,
   ) {
     this.persistenceHelper = persistenceHelper;
   }
 
-  async handle(args: GetProjectTemplatesArgs): Promise<{ content: ContentItem[] }> {
+  async handle(args: GetProjectTemplatesArgs): Promise<ToolResult> {
     try {
       const response = await this.persistenceHelper.getProjectConfig(args.projectName);
       if (!response.success || !response.config) {
-        return { content: [
+        return toolError([
           { type: 'text', text: `GetProjectTemplatesHandler: Failed to load project configuration.` },
           { type: 'text', text: response.errors?.join(', ') || 'Unknown error' },
-        ] };
+        ]);
       }
       const contextTypes = response
         .config
@@ -38,24 +38,20 @@ class GetProjectTemplatesHandler {
         if (result.success && result.data && result.data.length > 0) {
           templates[contextType] = result.data[0];
         } else {
-          return {
-            content: [{
-              type: 'text',
-              text: `Something has gone wrong. Failed to retrieve template for ${contextType}.`
-            },{
-              type: 'text',
-              text: result.errors?.join(', ') || 'Unknown error'
-            }]
-          };
+          return toolError([{
+            type: 'text',
+            text: `Something has gone wrong. Failed to retrieve template for ${contextType}.`
+          },{
+            type: 'text',
+            text: result.errors?.join(', ') || 'Unknown error'
+          }]);
         }
       }
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(templates)
-        }]
-      };
+      return toolResult([{
+        type: 'text',
+        text: JSON.stringify(templates)
+      }], { templates });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to get project templates: ${errorMessage}`);
@@ -0,0 +1,41 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { timestampToISO } from '../models/context_types/utilities/storage.js';
+import { toolError, toolResult } from './toolResult.js';
+
+class ListArchivedProjectsHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(): Promise<ToolResult> {
+    const response = await this.persistenceHelper.listArchivedProjects();
+    if (!response.success || !response.archivedProjects) {
+      return toolError([
+        { type: 'text', text: 'ListArchivedProjectsHandler: Failed to list archived projects.' },
+        { type: 'text', text: response.errors?.join(', ') || 'Unknown error' },
+      ]);
+    }
+
+    if (response.archivedProjects.length === 0) {
+      return toolResult([{ type: 'text', text: 'No archived projects found.' }], { archivedProjects: {} });
+    }
+
+    // Group snapshots by project name, newest first
+    const output = {} as Record<string, { snapshot: string; archivedAt: string | null }[]>;
+    for (const archived of response.archivedProjects) {
+      (output[archived.projectName] ||= []).push({
+        snapshot: archived.snapshot,
+        archivedAt: timestampToISO(archived.snapshot)
+      });
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: JSON.stringify(output)
+    }], { archivedProjects: output });
+  }
+}
+
+export default ListArchivedProjectsHandler;
@@ -0,0 +1,56 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { timestampToISO } from '../models/context_types/utilities/storage.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface ListArchivesArgs {
+  projectName: string;
+  contextType?: string;
+}
+
+interface ArchiveSnapshot {
+  snapshot: string;
+  archivedAt: string | null;
+  files: { name: string; size: number }[];
+}
+
+class ListArchivesHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: ListArchivesArgs): Promise<ToolResult> {
+    const response = await this.persistenceHelper.listArchives(args.projectName, args.contextType);
+    if (!response.success || !response.archives) {
+      return toolError([
+        { type: 'text', text: 'ListArchivesHandler: Failed to list archives.' },
+        { type: 'text', text: response.errors?.join(', ') || 'Unknown error' },
+      ]);
+    }
+
+    if (response.archives.length === 0) {
+      const scope = args.contextType ? ` for context type '${args.contextType}'` : '';
+      return toolResult([{ type: 'text', text: `No archived contexts found in project '${args.projectName}'${scope}.` }], { archives: {} });
+    }
+
+    // Group by context type, then by the clear that archived them (newest first)
+    const output = {} as Record<string, ArchiveSnapshot[]>;
+    for (const archived of response.archives) {
+      const snapshots = output[archived.contextType] ||= [];
+      let snapshot = snapshots.find(s => s.snapshot === archived.snapshot);
+      if (!snapshot) {
+        snapshot = { snapshot: archived.snapshot, archivedAt: timestampToISO(archived.snapshot), files: [] };
+        snapshots.push(snapshot);
+      }
+      snapshot.files.push({ name: archived.name, size: archived.size });
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: JSON.stringify(output)
+    }], { archives: output });
+  }
+}
+
+export default ListArchivesHandler;
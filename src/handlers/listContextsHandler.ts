@@ -1,26 +1,26 @@
-import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
-import { ContentItem } from '../types.js';
+import { ContentItem, PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
 
 interface ListContextsArgs {
   projectName: string;
 }
 
 class ListContextsHandler {
-  private persistenceHelper: FileSystemHelper;
+  private persistenceHelper: PersistenceHelper;
   
-  constructor(persistenceHelper: FileSystemHelper) {
+  constructor(persistenceHelper: PersistenceHelper) {
     this.persistenceHelper = persistenceHelper;
   }
 
-  async handle(args: ListContextsArgs): Promise<{ content: ContentItem[] }> {
+  async handle(args: ListContextsArgs): Promise<ToolResult> {
     try {
       // Get project configuration
       const response = await this.persistenceHelper.getProjectConfig(args.projectName);
       if (!response.success || !response.config) {
-        return { content: [
+        return toolError([
           { type: 'text', text: 'ListContextsHandler: Failed to load project configuration.' },
           { type: 'text', text: response.errors?.join(', ') || 'Unknown error' },
-        ] };
+        ]);
       }
 
       const { config } = response;
@@ -36,12 +36,10 @@ class ListContextsHandler {
           );
 
           if (!contextNamesResponse.success || !contextNamesResponse.data) {
-            return {
-              content: [
-                { type: 'text', text: 'ListContextsHandler: Failed to list contexts.' },
-                { type: 'text', text: contextNamesResponse.errors?.join(', ') || 'Unknown error' },
-              ]
-            };
+            return toolError([
+              { type: 'text', text: 'ListContextsHandler: Failed to list contexts.' },
+              { type: 'text', text: contextNamesResponse.errors?.join(', ') || 'Unknown error' },
+            ]);
           }
           
           output[typeConfig.name] = {
@@ -51,21 +49,26 @@ class ListContextsHandler {
           
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          return {
-            content: [
-              { type: 'text', text: 'ListContextsHandler: Failed to list contexts.' },
-              { type: 'text', text: errorMessage },
-            ]
-          };
+          return toolError([
+            { type: 'text', text: 'ListContextsHandler: Failed to list contexts.' },
+            { type: 'text', text: errorMessage },
+          ]);
         }
       }
       
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(output)
-        }]
-      };
+      const content: ContentItem[] = [{
+        type: 'text',
+        text: JSON.stringify(output)
+      }];
+
+      // The config loaded but with problems, e.g. a broken edit to project-config.json
+      // while the last valid configuration is still in use
+      const warnings = response.errors || [];
+      if (warnings.length > 0) {
+        content.push({ type: 'text', text: `Configuration warning: ${warnings.join(', ')}` });
+      }
+
+      return toolResult(content, { contextTypes: output, warnings });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to list context types: ${errorMessage}`);
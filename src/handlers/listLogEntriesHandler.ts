@@ -0,0 +1,64 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { isLogType, timestampToISO } from '../models/context_types/utilities/storage.js';
+import { readLogWindow } from '../models/context_types/utilities/logWindow.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface ListLogEntriesArgs {
+  projectName: string;
+  contextType: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+class ListLogEntriesHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: ListLogEntriesArgs): Promise<ToolResult> {
+    const response = await this.persistenceHelper.getProjectConfig(args.projectName);
+    if (!response.success || !response.config) {
+      return toolError([
+        { type: 'text', text: 'ListLogEntriesHandler: Failed to load project configuration.' },
+        { type: 'text', text: response.errors?.join(', ') || 'Unknown error' },
+      ]);
+    }
+
+    const typeConfig = response.config.contextTypes.find(ct => ct.name === args.contextType);
+    if (!typeConfig || !isLogType(typeConfig)) {
+      return toolError([{ type: 'text', text: `Context type '${args.contextType}' is not a log context type in project '${args.projectName}'.` }]);
+    }
+
+    const { since, until, limit, cursor } = args;
+    const page = await readLogWindow(this.persistenceHelper, args.projectName, args.contextType, { since, until, limit, cursor });
+    if (!page.success || !page.entries) {
+      return toolError([
+        { type: 'text', text: 'ListLogEntriesHandler: Failed to list log entries.' },
+        { type: 'text', text: page.errors?.join(', ') || 'Unknown error' },
+      ]);
+    }
+
+    if (page.entries.length === 0) {
+      return toolResult([{ type: 'text', text: `No entries found in log '${args.contextType}'.` }], { entries: [], hasMore: false });
+    }
+
+    // Entry IDs are the stored names; the time is the timestamp they end with
+    const entries = page.entries.map(entry => ({
+      entryId: entry.name,
+      writtenAt: timestampToISO(entry.name.slice(args.contextType.length + 1)),
+      size: Buffer.byteLength(entry.content, 'utf-8')
+    }));
+
+    const listing = { entries, hasMore: page.hasMore === true, nextCursor: page.nextCursor };
+    return toolResult([{
+      type: 'text',
+      text: JSON.stringify(listing)
+    }], listing);
+  }
+}
+
+export default ListLogEntriesHandler;
@@ -0,0 +1,26 @@
+import { ToolResult } from '../types.js';
+import { listPresets } from '../models/context_types/utilities/presets.js';
+import { resolvePresetsDir } from '../models/context_types/utilities/settings.js';
+import { toolError, toolResult } from './toolResult.js';
+
+class ListPresetsHandler {
+  private presetsDir: string;
+
+  constructor(presetsDir: string = resolvePresetsDir()) {
+    this.presetsDir = presetsDir;
+  }
+
+  async handle(): Promise<ToolResult> {
+    try {
+      const presets = await listPresets(this.presetsDir);
+      return toolResult([{
+        type: 'text',
+        text: JSON.stringify(presets, null, 2)
+      }], { presets });
+    } catch (error) {
+      return toolError([{ type: 'text', text: `Failed to list presets: ${error instanceof Error ? error.message : 'Unknown error'}` }]);
+    }
+  }
+}
+
+export default ListPresetsHandler;
@@ -1,27 +1,25 @@
-import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
-
-interface ContentItem {
-  type: string;
-  text: string;
-}
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
 
 class ListProjectsHandler {
-  private persistenceHelper: FileSystemHelper
+  private persistenceHelper: PersistenceHelper
 
   constructor(
-    persistenceHelper: FileSystemHelper
+    persistenceHelper: PersistenceHelper
   ) {
     this.persistenceHelper = persistenceHelper;
   }
 
-  async handle(): Promise<{ content: ContentItem[] }> {
+  async handle(): Promise<ToolResult> {
     const projects = await this.persistenceHelper.listProjects();
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(projects)
-      }]
-    };
+    if (!projects.success) {
+      return toolError([{ type: 'text', text: projects.errors?.join('\n') || 'An unknown error occurred' }]);
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: JSON.stringify(projects)
+    }], { projects: projects.data || [] });
   }
 }
 
@@ -0,0 +1,345 @@
+// JSON Schemas of the structuredContent each tool returns on success, declared as the
+// tools' outputSchema so clients can parse and validate results without reading text
+export interface OutputSchema {
+  type: 'object';
+  properties: Record<string, object>;
+  required?: string[];
+}
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+const isoTimeOrNull = { type: ['string', 'null'] };
+
+const contextTarget = {
+  projectName: { type: 'string' },
+  contextType: { type: 'string' },
+  contextName: { type: 'string' },
+  entryId: { type: 'string' }
+};
+
+const archiveEntry = {
+  type: 'object',
+  properties: {
+    contextType: { type: 'string' },
+    snapshot: { type: 'string' },
+    name: { type: 'string' },
+    size: { type: 'number' }
+  },
+  required: ['contextType', 'snapshot', 'name', 'size']
+};
+
+const checklistItem = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    text: { type: 'string' },
+    status: { type: 'string', enum: ['open', 'done', 'blocked'] },
+    owner: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+    completedAt: { type: 'string' }
+  },
+  required: ['id', 'text', 'status', 'createdAt', 'updatedAt']
+};
+
+const typeConfig = {
+  type: 'object',
+  properties: {
+    baseType: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    template: { type: 'string' },
+    validation: { type: 'boolean' },
+    schema: { type: 'object' },
+    archive: { type: 'object' }
+  },
+  required: ['baseType', 'name', 'description']
+};
+
+const prunedSnapshot = {
+  type: 'object',
+  properties: {
+    contextType: { type: 'string' },
+    snapshot: { type: 'string' },
+    reason: { type: 'string', enum: ['max_snapshots', 'max_age'] }
+  },
+  required: ['contextType', 'snapshot']
+};
+
+export const outputSchemas: Record<string, OutputSchema> = {
+  list_projects: {
+    type: 'object',
+    properties: { projects: stringArray },
+    required: ['projects']
+  },
+  create_project: {
+    type: 'object',
+    properties: {
+      projectName: { type: 'string' },
+      // Only for projects created from a preset
+      preset: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          source: { type: 'string', enum: ['user', 'built-in'] },
+          contextTypes: stringArray,
+          templates: stringArray,
+          prompts: stringArray,
+          seeded: stringArray,     // type/name of each seed document
+          warnings: stringArray
+        },
+        required: ['name', 'source', 'contextTypes', 'templates', 'prompts', 'seeded', 'warnings']
+      }
+    },
+    required: ['projectName']
+  },
+  list_presets: {
+    type: 'object',
+    properties: {
+      presets: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: ['string', 'null'] },
+            source: { type: 'string', enum: ['user', 'built-in'] }
+          },
+          required: ['name', 'description', 'source']
+        }
+      }
+    },
+    required: ['presets']
+  },
+  list_contexts: {
+    type: 'object',
+    properties: {
+      // Keyed by context type name
+      contextTypes: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: { description: { type: 'string' }, contexts: stringArray },
+          required: ['description', 'contexts']
+        }
+      },
+      warnings: stringArray
+    },
+    required: ['contextTypes', 'warnings']
+  },
+  configure_context_type: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['add', 'update', 'remove'] },
+      contextType: typeConfig,  // As added or updated, or as it was before removal
+      onRemove: { type: 'string', enum: ['archive', 'keep'] }
+    },
+    required: ['action', 'contextType']
+  },
+  get_project_config: {
+    type: 'object',
+    properties: {
+      config: {
+        type: 'object',
+        properties: { contextTypes: { type: 'array', items: typeConfig }, archive: { type: 'object' } },
+        required: ['contextTypes']
+      },
+      hasDefaultConfig: { type: 'boolean' },
+      inherited: stringArray,   // Default types used as they are
+      overridden: stringArray,  // Default types changed by overrides or replaced by the project's own
+      excluded: stringArray,    // Default types the project opted out of
+      warnings: stringArray
+    },
+    required: ['config', 'hasDefaultConfig', 'inherited', 'overridden', 'excluded', 'warnings']
+  },
+  get_context: {
+    type: 'object',
+    properties: {
+      content: { type: 'string' },
+      revision: { type: 'string' },
+      hasMore: { type: 'boolean' },      // Only for reads with since, until, limit or cursor
+      nextCursor: { type: 'string' }
+    },
+    required: ['content']
+  },
+  update_context: {
+    type: 'object',
+    properties: { ...contextTarget, section: { type: 'string' } },
+    required: ['projectName', 'contextType']
+  },
+  clear_context: {
+    type: 'object',
+    properties: contextTarget,
+    required: ['projectName', 'contextType']
+  },
+  update_checklist: {
+    type: 'object',
+    properties: {
+      projectName: { type: 'string' },
+      contextType: { type: 'string' },
+      action: { type: 'string', enum: ['add', 'complete', 'reopen', 'block', 'remove'] },
+      item: checklistItem,    // The added, changed or removed item
+      items: { type: 'array', items: checklistItem }
+    },
+    required: ['projectName', 'contextType', 'action', 'item', 'items']
+  },
+  get_project_templates: {
+    type: 'object',
+    properties: {
+      // Template markdown keyed by context type name
+      templates: { type: 'object', additionalProperties: { type: 'string' } }
+    },
+    required: ['templates']
+  },
+  list_archives: {
+    type: 'object',
+    properties: {
+      // Snapshots keyed by context type name, newest first
+      archives: {
+        type: 'object',
+        additionalProperties: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              snapshot: { type: 'string' },
+              archivedAt: isoTimeOrNull,
+              files: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { name: { type: 'string' }, size: { type: 'number' } },
+                  required: ['name', 'size']
+                }
+              }
+            },
+            required: ['snapshot', 'archivedAt', 'files']
+          }
+        }
+      }
+    },
+    required: ['archives']
+  },
+  get_archived_context: {
+    type: 'object',
+    properties: { content: { type: 'string' } },
+    required: ['content']
+  },
+  restore_context: {
+    type: 'object',
+    properties: { restored: stringArray },
+    required: ['restored']
+  },
+  prune_archive: {
+    type: 'object',
+    properties: {
+      dryRun: { type: 'boolean' },
+      removed: { type: 'array', items: prunedSnapshot },
+      compressed: { type: 'array', items: prunedSnapshot },
+      deduplicated: { type: 'array', items: archiveEntry }
+    },
+    required: ['dryRun', 'removed', 'compressed', 'deduplicated']
+  },
+  get_context_history: {
+    type: 'object',
+    properties: {
+      contextType: { type: 'string' },
+      contextName: { type: 'string' },
+      versions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { version: { type: 'string' }, replacedAt: isoTimeOrNull, size: { type: 'number' } },
+          required: ['version', 'replacedAt', 'size']
+        }
+      }
+    },
+    required: ['contextType', 'contextName', 'versions']
+  },
+  diff_context: {
+    type: 'object',
+    properties: {
+      fromVersion: { type: 'string' },
+      toVersion: { type: 'string' },
+      format: { type: 'string', enum: ['unified', 'sections'] },
+      diff: { type: 'string' }
+    },
+    required: ['fromVersion', 'toVersion', 'format', 'diff']
+  },
+  rename_project: {
+    type: 'object',
+    properties: { projectName: { type: 'string' }, newProjectName: { type: 'string' } },
+    required: ['projectName', 'newProjectName']
+  },
+  archive_project: {
+    type: 'object',
+    properties: { projectName: { type: 'string' }, snapshot: { type: 'string' } },
+    required: ['projectName', 'snapshot']
+  },
+  list_archived_projects: {
+    type: 'object',
+    properties: {
+      // Snapshots keyed by project name, newest first
+      archivedProjects: {
+        type: 'object',
+        additionalProperties: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { snapshot: { type: 'string' }, archivedAt: isoTimeOrNull },
+            required: ['snapshot', 'archivedAt']
+          }
+        }
+      }
+    },
+    required: ['archivedProjects']
+  },
+  restore_project: {
+    type: 'object',
+    properties: { projectName: { type: 'string' } },  // Name the project was restored as
+    required: ['projectName']
+  },
+  delete_project: {
+    type: 'object',
+    properties: { projectName: { type: 'string' } },
+    required: ['projectName']
+  },
+  search_context: {
+    type: 'object',
+    properties: {
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            projectName: { type: 'string' },
+            contextType: { type: 'string' },
+            contextName: { type: 'string' },
+            snapshot: { type: 'string' },
+            headingPath: { type: 'string' },  // Joined with " > "
+            snippet: { type: 'string' },
+            score: { type: 'number' }
+          },
+          required: ['projectName', 'contextType', 'contextName', 'headingPath', 'snippet', 'score']
+        }
+      },
+      warnings: stringArray
+    },
+    required: ['results', 'warnings']
+  },
+  list_log_entries: {
+    type: 'object',
+    properties: {
+      entries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { entryId: { type: 'string' }, writtenAt: isoTimeOrNull, size: { type: 'number' } },
+          required: ['entryId', 'writtenAt', 'size']
+        }
+      },
+      hasMore: { type: 'boolean' },
+      nextCursor: { type: 'string' }
+    },
+    required: ['entries', 'hasMore']
+  }
+};
@@ -0,0 +1,83 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, parsePrompt, readPackagePrompts, renderPrompt } from '../models/context_types/utilities/prompts.js';
+import { PersistenceHelper } from '../types.js';
+import ResourcesHandler, { contextUri } from './resourcesHandler.js';
+
+// A prompt as served: the package's prompts under their file names, and each
+// project's own prompts as "{project}/{name}" with project_name already bound
+interface ServedPrompt {
+  definition: PromptDefinition;
+  name: string;
+  projectName?: string;
+}
+
+const PROJECT_NAME = 'project_name';
+
+// Serves the prompts directory and per-project prompt files as MCP prompts, inlining
+// contexts through the same reads as the context:// resources
+class PromptsHandler {
+  private persistenceHelper: PersistenceHelper;
+  private resources: ResourcesHandler;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+    this.resources = new ResourcesHandler(persistenceHelper);
+  }
+
+  async listPrompts(): Promise<{ prompts: Prompt[] }> {
+    const prompts = (await this.servedPrompts()).map(({ definition, name, projectName }) => ({
+      name,
+      description: definition.description,
+      arguments: definition.arguments
+        .filter(argument => !(projectName && argument.name === PROJECT_NAME))
+        .map(argument => ({ ...argument }))
+    }));
+    return { prompts };
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const prompt = (await this.servedPrompts()).find(served => served.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' not found. Use prompts/list to see the available prompts.`);
+    }
+
+    const values = prompt.projectName ? { ...args, [PROJECT_NAME]: prompt.projectName } : args;
+    const missing = prompt.definition.arguments
+      .filter(argument => argument.required && values[argument.name] === undefined)
+      .map(argument => argument.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' requires the argument(s) ${missing.join(', ')}.`);
+    }
+
+    const text = await renderPrompt(prompt.definition.body, values, async ({ contextType, name: contextName }) => {
+      const projectName = values[PROJECT_NAME];
+      if (!projectName) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' inlines the ${contextType} context; pass ${PROJECT_NAME} to choose the project.`);
+      }
+      const { contents } = await this.resources.readResource(contextUri(projectName, contextType, contextName));
+      return contents[0].text;
+    });
+
+    return {
+      description: prompt.definition.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  }
+
+  private async servedPrompts(): Promise<ServedPrompt[]> {
+    const served: ServedPrompt[] = (await readPackagePrompts())
+      .map(file => ({ definition: parsePrompt(file), name: file.name }));
+
+    const projects = await this.persistenceHelper.listProjects();
+    for (const projectName of projects.data || []) {
+      const response = await this.persistenceHelper.listPrompts(projectName);
+      for (const file of response.prompts || []) {
+        served.push({ definition: parsePrompt(file), name: `${projectName}/${file.name}`, projectName });
+      }
+    }
+
+    return served;
+  }
+}
+
+export default PromptsHandler;
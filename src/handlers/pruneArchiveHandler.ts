@@ -0,0 +1,41 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface PruneArchiveArgs {
+  projectName: string;
+  contextType?: string;
+  dryRun?: boolean;
+}
+
+class PruneArchiveHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: PruneArchiveArgs): Promise<ToolResult> {
+    // Report only unless the caller explicitly asks for the changes to be made
+    const dryRun = args.dryRun !== false;
+    const response = await this.persistenceHelper.pruneArchive(args.projectName, args.contextType, dryRun);
+
+    if (!response.success || !response.prune) {
+      return toolError([
+        { type: 'text', text: 'PruneArchiveHandler: Failed to prune archive.' },
+        { type: 'text', text: response.errors?.join(', ') || 'Unknown error' },
+      ]);
+    }
+
+    const { removed, compressed, deduplicated } = response.prune;
+    const summary = dryRun
+      ? `Dry run: would remove ${removed.length} snapshot(s), compress ${compressed.length} and deduplicate ${deduplicated.length} file(s). Call prune_archive again with dry_run set to false to apply.`
+      : `Removed ${removed.length} snapshot(s), compressed ${compressed.length} and deduplicated ${deduplicated.length} file(s).`;
+
+    return toolResult([
+      { type: 'text', text: summary },
+      { type: 'text', text: JSON.stringify(response.prune) }
+    ], { ...response.prune });
+  }
+}
+
+export default PruneArchiveHandler;
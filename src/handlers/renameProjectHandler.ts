@@ -0,0 +1,33 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface RenameProjectArgs {
+  projectName: string;
+  newProjectName: string;
+}
+
+class RenameProjectHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: RenameProjectArgs): Promise<ToolResult> {
+    const response = await this.persistenceHelper.renameProject(args.projectName, args.newProjectName);
+
+    if (!response.success) {
+      return toolError([{
+        type: 'text',
+        text: response.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: `Project '${args.projectName}' renamed to '${args.newProjectName}'.`
+    }], { projectName: args.projectName, newProjectName: args.newProjectName });
+  }
+}
+
+export default RenameProjectHandler;
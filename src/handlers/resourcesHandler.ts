@@ -0,0 +1,183 @@
+import { ErrorCode, McpError, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import ContextTypeFactory from '../models/contexTypeFactory.js';
+import { isJsonType, isLogType } from '../models/context_types/utilities/storage.js';
+import { PersistenceHelper, TypeConfig } from '../types.js';
+
+// A context addressed by URI: context://{project}/{type} for single documents, whole
+// logs and collection indexes, context://{project}/{type}/{name} for collection
+// documents and log entries. Each segment is percent-encoded.
+export interface ContextUri {
+  projectName: string;
+  contextType: string;
+  name?: string;
+}
+
+const SCHEME = 'context://';
+
+export function contextUri(projectName: string, contextType: string, name?: string): string {
+  const segments = name === undefined ? [projectName, contextType] : [projectName, contextType, name];
+  return SCHEME + segments.map(segment => encodeURIComponent(segment)).join('/');
+}
+
+export function parseContextUri(uri: string): ContextUri | null {
+  if (!uri.startsWith(SCHEME)) {
+    return null;
+  }
+  const segments = uri.slice(SCHEME.length).split('/');
+  if (segments.length < 2 || segments.length > 3 || segments.some(segment => segment.length === 0)) {
+    return null;
+  }
+  try {
+    const [projectName, contextType, name] = segments.map(segment => decodeURIComponent(segment));
+    return { projectName, contextType, name };
+  } catch {
+    return null;
+  }
+}
+
+const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'context://{project}/{type}',
+    name: 'context',
+    description: 'A single document, a whole log, or the index of a document collection',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'context://{project}/{type}/{name}',
+    name: 'context-entry',
+    description: 'A document of a collection, or a log entry by the entry ID list_log_entries returns',
+    mimeType: 'text/markdown'
+  }
+];
+
+// Serves contexts as MCP resources, reading them through the context types like
+// get_context, and tracks which resources clients subscribed to
+class ResourcesHandler {
+  private persistenceHelper: PersistenceHelper;
+  private subscriptions = new Set<string>();
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  listResourceTemplates(): { resourceTemplates: ResourceTemplate[] } {
+    return { resourceTemplates };
+  }
+
+  async listResources(): Promise<{ resources: Resource[] }> {
+    const projects = await this.persistenceHelper.listProjects();
+    const resources: Resource[] = [];
+
+    for (const projectName of projects.data || []) {
+      const response = await this.persistenceHelper.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        continue;
+      }
+
+      for (const typeConfig of response.config.contextTypes) {
+        const names = await this.persistenceHelper.listAllContextForType(projectName, typeConfig.name);
+        if (!names.success || !names.data) {
+          continue;
+        }
+
+        // Collections list their documents; single documents and logs are one resource each
+        const entries = isCollection(typeConfig) ? names.data : [undefined];
+        for (const name of entries) {
+          resources.push({
+            uri: contextUri(projectName, typeConfig.name, name),
+            name: [projectName, typeConfig.name, name].filter(Boolean).join('/'),
+            description: typeConfig.description,
+            mimeType: documentMimeType(typeConfig)
+          });
+        }
+      }
+    }
+
+    return { resources };
+  }
+
+  async readResource(uri: string): Promise<{ contents: { uri: string; mimeType: string; text: string }[] }> {
+    const target = this.parse(uri);
+
+    const response = await this.persistenceHelper.getProjectConfig(target.projectName);
+    if (!response.success || !response.config) {
+      throw new McpError(ErrorCode.InvalidParams, response.errors?.join(', ') || `Failed to load project '${target.projectName}'.`);
+    }
+
+    const typeConfig = response.config.contextTypes.find(ct => ct.name === target.contextType);
+    if (!typeConfig) {
+      throw new McpError(ErrorCode.InvalidParams, `Context type '${target.contextType}' not found in project '${target.projectName}'.`);
+    }
+    if (target.name !== undefined && !isCollection(typeConfig) && !isLogType(typeConfig)) {
+      throw new McpError(ErrorCode.InvalidParams, `Context type '${target.contextType}' is a single document; use ${contextUri(target.projectName, target.contextType)}.`);
+    }
+
+    const log = isLogType(typeConfig);
+    const contextType = await ContextTypeFactory({
+      persistenceHelper: this.persistenceHelper,
+      projectName: target.projectName,
+      contextType: target.contextType,
+      contextName: log ? undefined : target.name,
+      entryId: log ? target.name : undefined
+    });
+
+    const result = await contextType.read();
+    if (!result.success) {
+      throw new McpError(ErrorCode.InvalidParams, result.errors?.join('\n') || 'An unknown error occurred');
+    }
+
+    // A collection without a document name reads as its JSON index
+    const mimeType = isCollection(typeConfig) && target.name === undefined ? 'application/json' : documentMimeType(typeConfig);
+    return { contents: [{ uri, mimeType, text: result.content || '' }] };
+  }
+
+  subscribe(uri: string): Record<string, never> {
+    this.subscriptions.add(this.normalize(uri));
+    return {};
+  }
+
+  unsubscribe(uri: string): Record<string, never> {
+    this.subscriptions.delete(this.normalize(uri));
+    return {};
+  }
+
+  // Subscribed resources a write to `name` of a context type changes: the context
+  // itself, and the type's resource, which covers a whole log or a collection's index.
+  // A write without a name, such as clearing a whole log, can change every context of
+  // the type, so every subscribed resource under it is included.
+  updatedResources(projectName: string, contextType: string, name?: string): string[] {
+    if (!name) {
+      return Array.from(this.subscriptions).filter(uri => {
+        const target = parseContextUri(uri)!;
+        return target.projectName === projectName && target.contextType === contextType;
+      });
+    }
+
+    return [contextUri(projectName, contextType), contextUri(projectName, contextType, name)]
+      .filter(uri => this.subscriptions.has(uri));
+  }
+
+  private parse(uri: string): ContextUri {
+    const target = parseContextUri(uri);
+    if (!target) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI '${uri}'. Use context://{project}/{type} or context://{project}/{type}/{name}.`);
+    }
+    return target;
+  }
+
+  // Compare URIs in one encoding, so a subscription matches however the client encoded it
+  private normalize(uri: string): string {
+    const { projectName, contextType, name } = this.parse(uri);
+    return contextUri(projectName, contextType, name);
+  }
+}
+
+function isCollection(typeConfig: TypeConfig): boolean {
+  return typeConfig.baseType.endsWith('-collection');
+}
+
+function documentMimeType(typeConfig: TypeConfig): string {
+  return isJsonType(typeConfig) ? 'application/json' : 'text/markdown';
+}
+
+export default ResourcesHandler;
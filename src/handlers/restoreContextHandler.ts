@@ -0,0 +1,48 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface RestoreContextArgs {
+  projectName: string;
+  contextType: string;
+  snapshot: string;
+  contextName?: string;
+}
+
+class RestoreContextHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: RestoreContextArgs): Promise<ToolResult> {
+    const response = await this.persistenceHelper.restoreContext(
+      args.projectName,
+      args.contextType,
+      args.snapshot,
+      args.contextName ? [args.contextName] : undefined
+    );
+
+    if (!response.success || !response.data) {
+      return toolError([{
+        type: 'text',
+        text: response.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    if (response.data.length === 0) {
+      return toolResult([{
+        type: 'text',
+        text: `Nothing to restore: every entry in ${args.contextType}/${args.snapshot} is already present.`
+      }], { restored: [] });
+    }
+
+    return toolResult([{
+      type: 'text',
+      text: `Restored ${response.data.join(', ')} from ${args.contextType}/${args.snapshot}. ` +
+        'Any content it replaced was archived first and can be restored the same way.'
+    }], { restored: response.data });
+  }
+}
+
+export default RestoreContextHandler;
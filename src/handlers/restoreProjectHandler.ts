@@ -0,0 +1,35 @@
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+interface RestoreProjectArgs {
+  projectName: string;
+  snapshot?: string;
+  newProjectName?: string;
+}
+
+class RestoreProjectHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: RestoreProjectArgs): Promise<ToolResult> {
+    const response = await this.persistenceHelper.restoreProject(args.projectName, args.snapshot, args.newProjectName);
+
+    if (!response.success || !response.data) {
+      return toolError([{
+        type: 'text',
+        text: response.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    const source = args.snapshot ? `${args.projectName}/${args.snapshot}` : args.projectName;
+    return toolResult([{
+      type: 'text',
+      text: `Restored archived project '${source}' as '${response.data[0]}'.`
+    }], { projectName: response.data[0] });
+  }
+}
+
+export default RestoreProjectHandler;
@@ -0,0 +1,54 @@
+import { ContentItem, PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+import { ContextSearch } from '../models/context_types/utilities/search.js';
+
+interface SearchContextArgs {
+  query: string;
+  projectName?: string;
+  contextType?: string;
+  includeArchives?: boolean;
+  limit?: number;
+}
+
+class SearchContextHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: SearchContextArgs): Promise<ToolResult> {
+    const search = new ContextSearch(this.persistenceHelper);
+    const response = await search.search(args.query, {
+      projectName: args.projectName,
+      contextType: args.contextType,
+      includeArchives: args.includeArchives,
+      limit: args.limit
+    });
+
+    if (!response.success || !response.results) {
+      return toolError([{
+        type: 'text',
+        text: response.errors?.join('\n') || 'An unknown error occurred'
+      }]);
+    }
+
+    const results = response.results.map(result => ({
+      ...result,
+      headingPath: result.headingPath.join(' > ')
+    }));
+    const content: ContentItem[] = [{
+      type: 'text',
+      text: results.length === 0 ? `No contexts match '${args.query}'.` : JSON.stringify(results)
+    }];
+
+    const warnings = response.errors || [];
+    if (warnings.length > 0) {
+      content.push({ type: 'text', text: `Search warning: ${warnings.join('; ')}` });
+    }
+
+    return toolResult(content, { results, warnings });
+  }
+}
+
+export default SearchContextHandler;
@@ -0,0 +1,11 @@
+import { ContentItem, ToolResult } from '../types.js';
+
+export function toolResult(content: ContentItem[], structuredContent: Record<string, unknown>): ToolResult {
+  return { content, structuredContent };
+}
+
+// Clients validate structuredContent against the outputSchema even on errors, so
+// failures are reported as text alone
+export function toolError(content: ContentItem[]): ToolResult {
+  return { content, isError: true };
+}
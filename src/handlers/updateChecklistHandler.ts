@@ -0,0 +1,73 @@
+import ContextTypeFactory from '../models/contexTypeFactory.js';
+import { Checklist, ChecklistItemResponse } from '../models/context_types/checklist.js';
+import { renderChecklist, renderItem } from '../models/context_types/utilities/checklistItems.js';
+import { PersistenceHelper, ToolResult } from '../types.js';
+import { toolError, toolResult } from './toolResult.js';
+
+type ChecklistAction = 'add' | 'complete' | 'reopen' | 'block' | 'remove';
+
+interface UpdateChecklistArgs {
+  projectName: string;
+  contextType: string;
+  action: ChecklistAction;
+  itemId?: string;  // Every action but add
+  text?: string;    // add only
+  owner?: string;   // add only
+}
+
+const itemStatuses = { complete: 'done', reopen: 'open', block: 'blocked' } as const;
+
+class UpdateChecklistHandler {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async handle(args: UpdateChecklistArgs): Promise<ToolResult> {
+    const contextType = await ContextTypeFactory({
+      projectName: args.projectName,
+      persistenceHelper: this.persistenceHelper,
+      contextType: args.contextType
+    });
+
+    if (!(contextType instanceof Checklist)) {
+      return toolError([{ type: 'text', text: `${args.contextType} is not a checklist. update_checklist only changes context types with base type checklist.` }]);
+    }
+
+    let response: ChecklistItemResponse;
+    if (args.action === 'add') {
+      if (args.text === undefined) {
+        return toolError([{ type: 'text', text: 'text is required to add a checklist item.' }]);
+      }
+      response = await contextType.addItem(args.text, args.owner);
+    } else if (args.action === 'remove' || Object.prototype.hasOwnProperty.call(itemStatuses, args.action)) {
+      if (args.itemId === undefined) {
+        return toolError([{ type: 'text', text: `item_id is required to ${args.action} a checklist item.` }]);
+      }
+      response = args.action === 'remove'
+        ? await contextType.removeItem(args.itemId)
+        : await contextType.setItemStatus(args.itemId, itemStatuses[args.action]);
+    } else {
+      return toolError([{ type: 'text', text: `Invalid action '${args.action}'. Use 'add', 'complete', 'reopen', 'block' or 'remove'.` }]);
+    }
+
+    if (!response.success || !response.item) {
+      return toolError([{ type: 'text', text: response.errors?.join('\n') || 'An unknown error occurred' }]);
+    }
+
+    const items = response.items || [];
+    return toolResult([
+      { type: 'text', text: `${args.action === 'remove' ? 'Removed' : 'Saved'}: ${renderItem(response.item)}` },
+      { type: 'text', text: renderChecklist(args.contextType, items) }
+    ], {
+      projectName: args.projectName,
+      contextType: args.contextType,
+      action: args.action,
+      item: response.item,
+      items
+    });
+  }
+}
+
+export default UpdateChecklistHandler;
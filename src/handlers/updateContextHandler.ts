@@ -1,31 +1,38 @@
-import { FileSystemHelper } from '../models/context_types/utilities/fileSystem.js';
 import  ContextTypeFactory from '../models/contexTypeFactory.js';
-import { ContentItem, ValidationError } from '../types.js';
+import { PersistenceHelper, ToolResult, ValidationError } from '../types.js';
+import { isJsonType } from '../models/context_types/utilities/storage.js';
+import { toolError, toolResult } from './toolResult.js';
 
 interface UpdateContextArgs {
   projectName: string;
   contextType: string;
   content: string;
   contextName?: string; // For 'other' type files
+  entryId?: string; // A single log entry to amend
+  section?: string; // Heading path of the section to replace, e.g. "Mental Model > Components"
+  expectedRevision?: string; // Reject the write unless the content is still at this revision
 }
 
 class UpdateContextHandler {
-  private persistenceHelper: FileSystemHelper;
+  private persistenceHelper: PersistenceHelper;
 
   constructor(
-    persistenceHelper: FileSystemHelper 
+    persistenceHelper: PersistenceHelper 
   ) {
     this.persistenceHelper = persistenceHelper;
   }
 
-  async handle(args: UpdateContextArgs): Promise<{ content: ContentItem[] }> {
+  async handle(args: UpdateContextArgs): Promise<ToolResult> {
     
     const contextType = await ContextTypeFactory({
       projectName: args.projectName,
       persistenceHelper: this.persistenceHelper,
       contextType: args.contextType,
       contextName: args.contextName,
-      content: args.content
+      entryId: args.entryId,
+      section: args.section,
+      content: args.content,
+      expectedRevision: args.expectedRevision
     });
 
     // Validate content for all context types
@@ -44,17 +51,24 @@ class UpdateContextHandler {
 
       const response = await this.persistenceHelper.getProjectConfig(args.projectName);
       if (!response.success || !response.config) {
-        return {
-          content: [
-            { type: 'text', text: 'UpdateContextHandler: Failed to load project configuration.' },
-            { type: 'text', text: response.errors?.join(', ') || 'Unknown error' }
-          ]
-        }
+        return toolError([
+          { type: 'text', text: 'UpdateContextHandler: Failed to load project configuration.' },
+          { type: 'text', text: response.errors?.join(', ') || 'Unknown error' }
+        ]);
       }
 
       const templateContextTypes = response.config.contextTypes.filter(ct => ct.template).map(ct => ct.name);
+      const schemaContextTypes = response.config.contextTypes.filter(ct => isJsonType(ct) && ct.schema).map(ct => ct.name);
 
-      if (templateContextTypes.includes(args.contextType) && validationResult.templateUsed) {
+      if (schemaContextTypes.includes(args.contextType) && validationResult.templateUsed) {
+        errorMessages.push(
+          '',
+          'Schema used for validation:',
+          '```json',
+          validationResult.templateUsed,
+          '```'
+        );
+      } else if (templateContextTypes.includes(args.contextType) && validationResult.templateUsed) {
         errorMessages.push(
           '',
           'Template used for validation:',
@@ -64,31 +78,38 @@ class UpdateContextHandler {
         );
       }
       
-      return {
-        content: [{
-          type: 'text',
-          text: errorMessages.join('\n')
-        }]
-      };
+      return toolError([{
+        type: 'text',
+        text: errorMessages.join('\n')
+      }]);
     }
 
     const result = await contextType.update()
   
-    if (result.success) {  
-      return {
-        content: [{
-          type: 'text',
-          text: 'Context updated successfully'
-        }]
-      };
+    if (result.conflict) {
+      return toolError([
+        { type: 'text', text: result.errors?.join('\n') || 'Conflict' },
+        { type: 'text', text: `Current content (revision ${result.revision}):\n\n${result.content || ''}` }
+      ]);
     }
 
-    return {
-      content: [{
+    if (result.success) {  
+      return toolResult([{
         type: 'text',
-        text: result.errors?.join('\n') || 'An unknown error occurred'
-      }]
-    };
+        text: 'Context updated successfully'
+      }], {
+        projectName: args.projectName,
+        contextType: args.contextType,
+        contextName: args.contextName,
+        entryId: args.entryId,
+        section: args.section
+      });
+    }
+
+    return toolError([{
+      type: 'text',
+      text: result.errors?.join('\n') || 'An unknown error occurred'
+    }]);
   }
 }
 
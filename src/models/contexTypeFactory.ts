@@ -4,17 +4,27 @@ import { TemplatedDocumentCollection } from './context_types/templatedDocumentCo
 import { FreeformDocumentCollection } from './context_types/freeformDocumentCollection.js';
 import { TemplatedLog } from './context_types/templatedLog.js';
 import { FreeformLog } from './context_types/freeformLog.js';
-import { FileSystemHelper } from './context_types/utilities/fileSystem.js';
-import { ContextType, ContextTypeArgs, TypeConfig } from '../types.js';
+import { JsonDocument } from './context_types/jsonDocument.js';
+import { JsonDocumentCollection } from './context_types/jsonDocumentCollection.js';
+import { Checklist } from './context_types/checklist.js';
+import { ContextType, ContextTypeArgs, LogWindow, PersistenceHelper, ReadMode, TypeConfig } from '../types.js';
+import { isJsonType, isLogType } from './context_types/utilities/storage.js';
 
 interface ContextTypeFactoryArgs {
-    persistenceHelper: FileSystemHelper;
+    persistenceHelper: PersistenceHelper;
     projectName: string;
     contextType: string;
     contextName?: string;
     content?: string;
+    expectedRevision?: string;
+    logWindow?: LogWindow;
+    entryId?: string;
+    section?: string;
+    mode?: ReadMode;
 }
 
+const readModes: ReadMode[] = ['full', 'outline', 'all', 'index'];
+
 type BaseContextTypeConstructor = new (args: ContextTypeArgs, config: TypeConfig) => ContextType;
 
 const baseTypeMap = new Map<string, BaseContextTypeConstructor>([
@@ -23,11 +33,16 @@ const baseTypeMap = new Map<string, BaseContextTypeConstructor>([
     ['templated-document-collection', TemplatedDocumentCollection as BaseContextTypeConstructor],
     ['freeform-document-collection', FreeformDocumentCollection as BaseContextTypeConstructor],
     ['templated-log', TemplatedLog as BaseContextTypeConstructor],
-    ['freeform-log', FreeformLog as BaseContextTypeConstructor]
+    ['freeform-log', FreeformLog as BaseContextTypeConstructor],
+    ['json-document', JsonDocument as BaseContextTypeConstructor],
+    ['json-document-collection', JsonDocumentCollection as BaseContextTypeConstructor],
+    ['checklist', Checklist as BaseContextTypeConstructor]
 ]);
 
+export const baseTypes = [...baseTypeMap.keys()] as TypeConfig['baseType'][];
+
 export default async function contextTypeFactory(args: ContextTypeFactoryArgs): Promise<ContextType> {
-    const { persistenceHelper, projectName, contextType, contextName, content } = args;
+    const { persistenceHelper, projectName, contextType, contextName, content, expectedRevision, logWindow, entryId, section, mode } = args;
     
     // Load project configuration
     const response = await persistenceHelper.getProjectConfig(projectName);
@@ -47,10 +62,42 @@ export default async function contextTypeFactory(args: ContextTypeFactoryArgs):
     if (!BaseClass) {
         throw new Error(`Unknown base type: ${typeConfig.baseType}`);
     }
+
+    if (logWindow && !isLogType(typeConfig)) {
+        throw new Error(`since, until, limit and cursor only apply to log context types; ${contextType} is a ${typeConfig.baseType}`);
+    }
+
+    if (entryId !== undefined && !isLogType(typeConfig)) {
+        throw new Error(`entry_id only applies to log context types; ${contextType} is a ${typeConfig.baseType}`);
+    }
+
+    if (entryId !== undefined && logWindow) {
+        throw new Error('entry_id selects a single log entry and cannot be combined with since, until, limit or cursor');
+    }
+
+    if (mode !== undefined && !readModes.includes(mode)) {
+        throw new Error(`Unknown mode: ${mode}. Expected one of ${readModes.join(', ')}`);
+    }
+
+    if ((section !== undefined || mode === 'outline') && isLogType(typeConfig)) {
+        throw new Error(`section and outline mode only apply to document context types; ${contextType} is a ${typeConfig.baseType}`);
+    }
+
+    if ((section !== undefined || mode === 'outline') && (isJsonType(typeConfig) || typeConfig.baseType === 'checklist')) {
+        throw new Error(`section and outline mode only apply to markdown documents; ${contextType} is a ${typeConfig.baseType}`);
+    }
+
+    if ((mode === 'all' || mode === 'index') && !typeConfig.baseType.endsWith('-document-collection')) {
+        throw new Error(`mode '${mode}' only applies to document collection types; ${contextType} is a ${typeConfig.baseType}`);
+    }
+
+    if ((mode === 'all' || mode === 'index') && contextName !== undefined) {
+        throw new Error(`mode '${mode}' reads the whole ${contextType} collection; leave out context_name`);
+    }
     
     // Create instance with configuration
     return new BaseClass(
-        { persistenceHelper, projectName, contextName, content },
+        { persistenceHelper, projectName, contextName, content, expectedRevision, logWindow, entryId, section, mode },
         typeConfig
     );
 }
@@ -1,12 +1,20 @@
-import { ContextType, ContextTypeArgs, ContexTypeResponse, ValidationResponse, TypeConfig } from '../../types.js';
-import { FileSystemHelper } from './utilities/fileSystem.js';
+import { CollectionIndexEntry, ContextType, ContextTypeArgs, ContexTypeResponse, LogWindow, PersistenceHelper, ReadMode, ValidationResponse, TypeConfig } from '../../types.js';
 import { MarkdownTemplateValidator } from './utilities/MarkdownTemplateValidator.js';
+import { contentRevision } from './utilities/revision.js';
+import { readLogWindow } from './utilities/logWindow.js';
+import { logEntryNotFound } from './utilities/storage.js';
+import { outline, parseSections, readSection, replaceSection } from './utilities/documentSections.js';
 
 export abstract class BaseContextType implements ContextType {
-  public readonly persistenceHelper: FileSystemHelper;
+  public readonly persistenceHelper: PersistenceHelper;
   protected readonly projectName: string;
   protected readonly contextName?: string;
   protected readonly content?: string;
+  protected readonly expectedRevision?: string;
+  protected readonly logWindow?: LogWindow;
+  protected readonly entryId?: string;
+  protected readonly section?: string;
+  protected readonly mode?: ReadMode;
   protected readonly config: TypeConfig;
   protected validator?: MarkdownTemplateValidator;
 
@@ -15,6 +23,11 @@ export abstract class BaseContextType implements ContextType {
     this.projectName = args.projectName;
     this.contextName = args.contextName;
     this.content = args.content;
+    this.expectedRevision = args.expectedRevision;
+    this.logWindow = args.logWindow;
+    this.entryId = args.entryId;
+    this.section = args.section;
+    this.mode = args.mode;
     this.config = config;
     
     if (config.validation && config.template) {
@@ -25,6 +38,155 @@ export abstract class BaseContextType implements ContextType {
   abstract update(): Promise<ContexTypeResponse>;
   abstract read(): Promise<ContexTypeResponse>;
   abstract reset(): Promise<ContexTypeResponse>;
+
+  protected contentResponse(content: string): ContexTypeResponse {
+    return { success: true, content, revision: contentRevision(content) };
+  }
+
+  // Reads one page of log entries, newest first, joined the same way a full log read is
+  protected async readLogWindow(window: LogWindow): Promise<ContexTypeResponse> {
+    const page = await readLogWindow(this.persistenceHelper, this.projectName, this.config.name, window);
+    if (!page.success) {
+      return { success: false, errors: page.errors };
+    }
+
+    return {
+      ...this.contentResponse((page.entries || []).map(entry => entry.content).join('\n\n---\n\n')),
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
+    };
+  }
+
+  // The whole stored document. Document types override this; read() may narrow it to a
+  // section or an outline, but writes always splice into the full document.
+  protected async readDocument(): Promise<ContexTypeResponse> {
+    return this.read();
+  }
+
+  // Narrows a full document read to the addressed section and/or its outline
+  protected documentView(document: ContexTypeResponse): ContexTypeResponse {
+    if (!document.success || (!this.section && this.mode !== 'outline')) {
+      return document;
+    }
+
+    let content = document.content || '';
+    if (this.section) {
+      const found = readSection(content, this.section, this.documentName());
+      if (!found.success) {
+        return { success: false, errors: found.errors };
+      }
+      content = found.content;
+    }
+
+    return this.mode === 'outline'
+      ? { ...this.contentResponse(JSON.stringify(outline(content))), revision: document.revision }
+      : this.contentResponse(content);
+  }
+
+  // What an update stores: the content as given, or the current document with the
+  // content spliced in at the addressed section
+  protected async documentToWrite(): Promise<{ content?: string; errors?: string[] }> {
+    if (!this.section) {
+      return { content: this.content };
+    }
+
+    const current = await this.readDocument();
+    if (!current.success) {
+      return { errors: current.errors };
+    }
+
+    const spliced = replaceSection(current.content || '', this.section, this.content || '', this.documentName());
+    return spliced.success ? { content: spliced.content } : { errors: spliced.errors };
+  }
+
+  // Reads a whole collection at once: every document under a name header, or by
+  // default an index of names, titles and sizes
+  protected async readCollection(): Promise<ContexTypeResponse> {
+    const mode = this.mode || 'index';
+    if (mode !== 'all' && mode !== 'index') {
+      return {
+        success: false,
+        errors: [`Context name is required to read ${this.config.name} type with ${this.section ? 'a section' : `mode '${mode}'`}. Without one, use mode 'all' or 'index'.`]
+      };
+    }
+
+    const result = await this.persistenceHelper.listContextEntries(this.projectName, this.config.name);
+    if (!result.success) {
+      return { success: false, errors: result.errors };
+    }
+
+    const documents = [...(result.entries || [])].sort((a, b) => a.name.localeCompare(b.name));
+    if (mode === 'all') {
+      return this.contentResponse(documents.map(document => `==> ${document.name} <==\n\n${document.content.trim()}`).join('\n\n'));
+    }
+
+    const index: CollectionIndexEntry[] = documents.map(document => ({
+      contextName: document.name,
+      title: parseSections(document.content)[0]?.path.slice(-1)[0] ?? null,
+      size: Buffer.byteLength(document.content, 'utf-8')
+    }));
+    return this.contentResponse(JSON.stringify(index));
+  }
+
+  protected documentName(): string {
+    return this.contextName ? `${this.config.name}/${this.contextName}` : this.config.name;
+  }
+
+  protected async readLogEntry(entryId: string): Promise<ContexTypeResponse> {
+    const result = await this.persistenceHelper.listContextEntries(this.projectName, this.config.name);
+    if (!result.success) {
+      return { success: false, errors: result.errors };
+    }
+
+    const entry = result.entries?.find(candidate => candidate.name === entryId);
+    return entry
+      ? this.contentResponse(entry.content)
+      : { success: false, errors: [logEntryNotFound(this.config.name, entryId)] };
+  }
+
+  // Archives a single log entry; clearing by the type name would take every entry
+  protected async clearLogEntry(entryId: string): Promise<ContexTypeResponse> {
+    const existing = await this.readLogEntry(entryId);
+    if (!existing.success) {
+      return existing;
+    }
+
+    const result = await this.persistenceHelper.clearContext(this.projectName, this.config.name, [entryId]);
+    return result.success ? { success: true } : { success: false, errors: result.errors };
+  }
+
+  // Runs a write only if the stored content still matches the revision the caller read.
+  // The check and the write share the project lock so nothing can change in between.
+  protected async withRevisionCheck(operation: () => Promise<ContexTypeResponse>): Promise<ContexTypeResponse> {
+    if (this.expectedRevision === undefined) {
+      return operation();
+    }
+
+    return this.persistenceHelper.withProjectLock(this.projectName, async () => {
+      const current = await this.read();
+      if (!current.success) {
+        return {
+          success: false,
+          errors: [`Cannot check expected revision ${this.expectedRevision} for ${this.config.name}:`, ...(current.errors || [])]
+        };
+      }
+
+      if (current.revision !== this.expectedRevision) {
+        return {
+          success: false,
+          conflict: true,
+          content: current.content,
+          revision: current.revision,
+          errors: [
+            `Conflict: ${this.config.name} has changed since revision ${this.expectedRevision} was read; it is now at revision ${current.revision}. ` +
+            'Merge your changes into the current content and retry with the current revision as expected_revision.'
+          ]
+        };
+      }
+
+      return operation();
+    });
+  }
   
   async validate(): Promise<ValidationResponse> {
     if (!this.config.validation) {
@@ -58,7 +220,17 @@ export abstract class BaseContextType implements ContextType {
       };
     }
     
-    const trimmedContent = this.content?.trim() || '';
+    // A section update is validated as the whole document it produces
+    const document = await this.documentToWrite();
+    if (document.errors) {
+      return {
+        isValid: false,
+        validationErrors: document.errors.map(message => ({ type: 'content_error', message })),
+        correctionGuidance: ['Use get_context with mode "outline" to list the sections of the document']
+      };
+    }
+
+    const trimmedContent = document.content?.trim() || '';
     if (trimmedContent.length === 0) {
       return {
         isValid: false,
@@ -0,0 +1,187 @@
+import { ChecklistItem, ChecklistStatus, ContexTypeResponse, ValidationResponse } from '../../types.js';
+import { BaseContextType } from './baseContextType.js';
+import { parseChecklist, renderChecklist, serializeChecklist, StoredChecklist } from './utilities/checklistItems.js';
+
+export interface ChecklistItemResponse {
+  success: boolean;
+  item?: ChecklistItem;     // The added, changed or removed item
+  items?: ChecklistItem[];  // The whole list after the change
+  errors?: string[];
+}
+
+// A list of items that are added, completed, reopened, blocked and removed one at a
+// time, so agents never resend the list. Reads render it as a markdown task list.
+export class Checklist extends BaseContextType {
+  // The list only changes an item at a time; replacing it wholesale would lose item IDs
+  async update(): Promise<ContexTypeResponse> {
+    return { success: false, errors: [this.itemsOnly()] };
+  }
+
+  async validate(): Promise<ValidationResponse> {
+    return {
+      isValid: false,
+      validationErrors: [{ type: 'content_error', message: this.itemsOnly() }],
+      correctionGuidance: [
+        `1. Use update_checklist with action "add" and text to add an item to ${this.config.name}`,
+        '2. Use action "complete", "reopen", "block" or "remove" with item_id to change an item',
+        '3. Use clear_context to archive the whole list'
+      ]
+    };
+  }
+
+  async read(): Promise<ContexTypeResponse> {
+    const loaded = await this.load();
+    if (!loaded.success) {
+      return { success: false, errors: loaded.errors };
+    }
+    return this.contentResponse(renderChecklist(this.config.name, loaded.checklist!.items));
+  }
+
+  // Archives the list and leaves an empty one that keeps counting, so items added after
+  // a clear don't take the IDs of archived ones. An unreadable list starts over at 1.
+  async reset(): Promise<ContexTypeResponse> {
+    return this.withRevisionCheck(() => this.persistenceHelper.withProjectLock(this.projectName, async () => {
+      const loaded = await this.load();
+      const result = await this.persistenceHelper.clearContext(
+        this.projectName,
+        this.config.name,
+        [this.config.name]
+      );
+      if (!result.success) {
+        return { success: false, errors: result.errors };
+      }
+
+      const nextId = loaded.checklist?.nextId ?? 1;
+      if (nextId === 1) {
+        return { success: true };
+      }
+      const written = await this.persistenceHelper.writeContext(
+        this.projectName,
+        this.config.name,
+        this.config.name,
+        serializeChecklist({ nextId, items: [] })
+      );
+      return written.success ? { success: true } : { success: false, errors: written.errors };
+    }));
+  }
+
+  async addItem(text: string, owner?: string): Promise<ChecklistItemResponse> {
+    const problem = this.textProblem(text) ?? (owner !== undefined ? this.textProblem(owner, 'owner') : undefined);
+    if (problem) {
+      return { success: false, errors: [problem] };
+    }
+
+    return this.change(checklist => {
+      const now = new Date().toISOString();
+      const item: ChecklistItem = {
+        id: String(checklist.nextId),
+        text: text.trim(),
+        status: 'open',
+        ...(owner !== undefined && { owner: owner.trim() }),
+        createdAt: now,
+        updatedAt: now
+      };
+      return { checklist: { nextId: checklist.nextId + 1, items: [...checklist.items, item] }, item };
+    });
+  }
+
+  // Setting the status an item already has leaves it, and its timestamps, as they are
+  async setItemStatus(itemId: string, status: ChecklistStatus): Promise<ChecklistItemResponse> {
+    return this.change(checklist => {
+      const current = checklist.items.find(item => item.id === itemId);
+      if (!current) {
+        return { errors: [this.itemNotFound(itemId)] };
+      }
+      if (current.status === status) {
+        return { item: current };
+      }
+
+      const now = new Date().toISOString();
+      const item: ChecklistItem = { ...current, status, updatedAt: now };
+      if (status === 'done') {
+        item.completedAt = now;
+      } else {
+        delete item.completedAt;
+      }
+      return { checklist: { ...checklist, items: checklist.items.map(candidate => (candidate.id === itemId ? item : candidate)) }, item };
+    });
+  }
+
+  async removeItem(itemId: string): Promise<ChecklistItemResponse> {
+    return this.change(checklist => {
+      const item = checklist.items.find(candidate => candidate.id === itemId);
+      if (!item) {
+        return { errors: [this.itemNotFound(itemId)] };
+      }
+      return { checklist: { ...checklist, items: checklist.items.filter(candidate => candidate.id !== itemId) }, item };
+    });
+  }
+
+  // Reads, changes and writes the list under the project lock so concurrent item
+  // changes can't lose one another. A change without a new checklist writes nothing.
+  private async change(
+    operation: (checklist: StoredChecklist) => { checklist?: StoredChecklist; item?: ChecklistItem; errors?: string[] }
+  ): Promise<ChecklistItemResponse> {
+    return this.persistenceHelper.withProjectLock(this.projectName, async () => {
+      const loaded = await this.load();
+      if (!loaded.success) {
+        return { success: false, errors: loaded.errors };
+      }
+
+      const changed = operation(loaded.checklist!);
+      if (changed.errors) {
+        return { success: false, errors: changed.errors };
+      }
+      if (!changed.checklist) {
+        return { success: true, item: changed.item, items: loaded.checklist!.items };
+      }
+
+      const written = await this.persistenceHelper.writeContext(
+        this.projectName,
+        this.config.name,
+        this.config.name,
+        serializeChecklist(changed.checklist)
+      );
+      return written.success
+        ? { success: true, item: changed.item, items: changed.checklist.items }
+        : { success: false, errors: written.errors };
+    });
+  }
+
+  private async load(): Promise<{ success: boolean; checklist?: StoredChecklist; errors?: string[] }> {
+    const result = await this.persistenceHelper.listContextEntries(this.projectName, this.config.name);
+    if (!result.success) {
+      return { success: false, errors: result.errors };
+    }
+
+    // A list nothing was added to yet has no stored document
+    const stored = result.entries?.find(entry => entry.name === this.config.name);
+    try {
+      return { success: true, checklist: parseChecklist(stored?.content || '') };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [`Checklist ${this.config.name} can't be read: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      };
+    }
+  }
+
+  // Items render one per line, so their text and owner have to fit on one
+  private textProblem(value: string, field: string = 'text'): string | undefined {
+    if (value.trim().length === 0) {
+      return `Checklist item ${field} can't be empty.`;
+    }
+    if (/[\r\n]/.test(value)) {
+      return `Checklist item ${field} has to be a single line.`;
+    }
+    return undefined;
+  }
+
+  private itemNotFound(itemId: string): string {
+    return `Item #${itemId} not found in checklist ${this.config.name}. Use get_context to see the items and their IDs.`;
+  }
+
+  private itemsOnly(): string {
+    return `${this.config.name} is a checklist and changes an item at a time, not by replacing its content.`;
+  }
+}
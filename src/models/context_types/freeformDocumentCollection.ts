@@ -17,17 +17,34 @@ export class FreeformDocumentCollection extends BaseContextType {
       };
     }
 
-    const result = await this.persistenceHelper.writeContext(
-      this.projectName,
-      this.config.name,
-      this.contextName,
-      this.content
-    );
-    
-    return result.success ? { success: true } : { success: false, errors: result.errors };
+    // A section update reads, splices and writes under the project lock so a concurrent
+    // update to another section is not lost
+    return this.withRevisionCheck(() => this.persistenceHelper.withProjectLock(this.projectName, async () => {
+      const document = await this.documentToWrite();
+      if (document.errors) {
+        return { success: false, errors: document.errors };
+      }
+
+      const result = await this.persistenceHelper.writeContext(
+        this.projectName,
+        this.config.name,
+        this.contextName!,
+        document.content!
+      );
+
+      return result.success ? { success: true } : { success: false, errors: result.errors };
+    }));
   }
 
   async read(): Promise<ContexTypeResponse> {
+    if (!this.contextName) {
+      return this.readCollection();
+    }
+
+    return this.documentView(await this.readDocument());
+  }
+
+  protected async readDocument(): Promise<ContexTypeResponse> {
     if (!this.contextName) {
       return {
         success: false,
@@ -45,7 +62,7 @@ export class FreeformDocumentCollection extends BaseContextType {
       return { success: false, errors: result.errors };
     }
 
-    return { success: true, content: result.data?.join('\n') || '' };
+    return this.contentResponse(result.data?.join('\n') || '');
   }
 
   async reset(): Promise<ContexTypeResponse> {
@@ -56,12 +73,14 @@ export class FreeformDocumentCollection extends BaseContextType {
       };
     }
 
-    const result = await this.persistenceHelper.clearContext(
-      this.projectName,
-      this.config.name,
-      [this.contextName]
-    );
+    return this.withRevisionCheck(async () => {
+      const result = await this.persistenceHelper.clearContext(
+        this.projectName,
+        this.config.name,
+        [this.contextName!]
+      );
 
-    return result.success ? { success: true } : { success: false, errors: result.errors };
+      return result.success ? { success: true } : { success: false, errors: result.errors };
+    });
   }
 }
\ No newline at end of file
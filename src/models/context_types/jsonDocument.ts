@@ -0,0 +1,11 @@
+import { ValidationResponse } from '../../types.js';
+import { FreeformSingleDocument } from './freeformSingleDocument.js';
+import { JsonSchemaValidator } from './utilities/JsonSchemaValidator.js';
+
+// A single JSON document, stored and replaced like a freeform one but validated as JSON
+// against the schema of its configuration
+export class JsonDocument extends FreeformSingleDocument {
+  async validate(): Promise<ValidationResponse> {
+    return new JsonSchemaValidator().validate(this.content || '', this.config);
+  }
+}
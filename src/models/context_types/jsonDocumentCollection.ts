@@ -0,0 +1,10 @@
+import { ValidationResponse } from '../../types.js';
+import { FreeformDocumentCollection } from './freeformDocumentCollection.js';
+import { JsonSchemaValidator } from './utilities/JsonSchemaValidator.js';
+
+// Named JSON documents, each validated against the schema of the configuration
+export class JsonDocumentCollection extends FreeformDocumentCollection {
+  async validate(): Promise<ValidationResponse> {
+    return new JsonSchemaValidator().validate(this.content || '', this.config);
+  }
+}
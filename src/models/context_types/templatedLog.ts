@@ -10,18 +10,39 @@ export class TemplatedLog extends BaseContextType {
       };
     }
 
-    // For templated logs, append with timestamp (no reset)
-    const result = await this.persistenceHelper.writeContext(
-      this.projectName,
-      this.config.name,
-      this.config.name,
-      this.content
-    );
-    
-    return result.success ? { success: true } : { success: false, errors: result.errors };
+    // For templated logs, append with timestamp (no reset), or amend the entry named by entryId
+    return this.withRevisionCheck(async () => {
+      if (this.entryId) {
+        // Amending keeps the entry's ID; the original goes to the archive
+        const amended = await this.persistenceHelper.amendLogEntry(
+          this.projectName,
+          this.config.name,
+          this.entryId,
+          this.content!
+        );
+        return amended.success ? { success: true } : { success: false, errors: amended.errors };
+      }
+
+      const result = await this.persistenceHelper.writeContext(
+        this.projectName,
+        this.config.name,
+        this.config.name,
+        this.content!
+      );
+
+      return result.success ? { success: true } : { success: false, errors: result.errors };
+    });
   }
 
   async read(): Promise<ContexTypeResponse> {
+    if (this.entryId) {
+      return this.readLogEntry(this.entryId);
+    }
+
+    if (this.logWindow) {
+      return this.readLogWindow(this.logWindow);
+    }
+
     const contextResult = await this.persistenceHelper.getContext(
       this.projectName,
       this.config.name
@@ -31,15 +52,21 @@ export class TemplatedLog extends BaseContextType {
       return { success: false, errors: contextResult.errors };
     }
 
-    return { success: true, content: contextResult.data?.join('\n\n---\n\n') || '' };
+    return this.contentResponse(contextResult.data?.join('\n\n---\n\n') || '');
   }
 
   async reset(): Promise<ContexTypeResponse> {
-    const result = await this.persistenceHelper.clearContext(
-      this.projectName,
-      this.config.name
-    );
+    return this.withRevisionCheck(async () => {
+      if (this.entryId) {
+        return this.clearLogEntry(this.entryId);
+      }
+
+      const result = await this.persistenceHelper.clearContext(
+        this.projectName,
+        this.config.name
+      );
 
-    return result.success ? { success: true } : { success: false, errors: result.errors };
+      return result.success ? { success: true } : { success: false, errors: result.errors };
+    });
   }
 }
\ No newline at end of file
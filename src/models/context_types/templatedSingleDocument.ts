@@ -10,26 +10,30 @@ export class TemplatedSingleDocument extends BaseContextType {
       };
     }
 
-    // For templated single documents, reset first then write (replace behavior)
-    const resetResult = await this.reset();
-    if (!resetResult.success) {
-      return {
-        success: false,
-        errors: resetResult.errors
-      };
-    }
-
-    const result = await this.persistenceHelper.writeContext(
-      this.projectName,
-      this.config.name,
-      this.config.name,
-      this.content
-    );
-    
-    return result.success ? { success: true } : { success: false, errors: result.errors };
+    // The previous content is archived and the document replaced in place, never removed.
+    // Splicing a section reads the current document, so it runs under the project lock too.
+    return this.withRevisionCheck(() => this.persistenceHelper.withProjectLock(this.projectName, async () => {
+      const document = await this.documentToWrite();
+      if (document.errors) {
+        return { success: false, errors: document.errors };
+      }
+
+      const result = await this.persistenceHelper.replaceContext(
+        this.projectName,
+        this.config.name,
+        this.config.name,
+        document.content!
+      );
+
+      return result.success ? { success: true } : { success: false, errors: result.errors };
+    }));
   }
 
   async read(): Promise<ContexTypeResponse> {
+    return this.documentView(await this.readDocument());
+  }
+
+  protected async readDocument(): Promise<ContexTypeResponse> {
     const result = await this.persistenceHelper.getContext(
       this.projectName,
       this.config.name,
@@ -40,16 +44,18 @@ export class TemplatedSingleDocument extends BaseContextType {
       return { success: false, errors: result.errors };
     }
 
-    return { success: true, content: result.data?.join('\n') || '' };
+    return this.contentResponse(result.data?.join('\n') || '');
   }
 
   async reset(): Promise<ContexTypeResponse> {
-    const result = await this.persistenceHelper.clearContext(
-      this.projectName,
-      this.config.name,
-      [this.config.name]
-    );
-
-    return result.success ? { success: true } : { success: false, errors: result.errors };
+    return this.withRevisionCheck(async () => {
+      const result = await this.persistenceHelper.clearContext(
+        this.projectName,
+        this.config.name,
+        [this.config.name]
+      );
+
+      return result.success ? { success: true } : { success: false, errors: result.errors };
+    });
   }
 }
\ No newline at end of file
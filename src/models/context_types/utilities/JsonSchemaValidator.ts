@@ -0,0 +1,93 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { TypeConfig, ValidationError, ValidationResponse } from '../../../types.js';
+import { formatSchemaError } from './configSchema.js';
+
+// Compiled once per distinct schema; config reloads hand out new objects with the same content
+const compiledSchemas = new Map<string, ValidateFunction>();
+
+export class JsonSchemaValidator {
+  // Content of a JSON type has to parse, and match the type's schema when validation is on
+  validate(content: string, typeConfig: TypeConfig): ValidationResponse {
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch (error) {
+      return {
+        isValid: false,
+        validationErrors: [{
+          type: 'invalid_format',
+          message: `${typeConfig.name} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        correctionGuidance: [
+          'Send the content as a single JSON value, such as an object or an array',
+          'Check for trailing commas, comments, unquoted keys and single-quoted strings'
+        ]
+      };
+    }
+
+    if (!typeConfig.schema || typeConfig.validation === false) {
+      return { isValid: true };
+    }
+
+    const schemaUsed = JSON.stringify(typeConfig.schema, null, 2);
+    let validate: ValidateFunction;
+    try {
+      validate = this.compile(typeConfig.schema);
+    } catch (error) {
+      return {
+        isValid: false,
+        validationErrors: [{
+          type: 'content_error',
+          message: `The schema of ${typeConfig.name} is not a usable JSON Schema: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        correctionGuidance: [
+          `Fix the schema of context type '${typeConfig.name}' with configure_context_type or in project-config.json`,
+          'Schemas are JSON Schema draft-07'
+        ]
+      };
+    }
+
+    if (validate(document)) {
+      return { isValid: true, templateUsed: schemaUsed };
+    }
+
+    const errors: ValidationError[] = (validate.errors || []).map((error: ErrorObject) => ({
+      type: error.keyword === 'required' || error.keyword === 'additionalProperties' ? 'incorrect_structure' : 'invalid_format',
+      section: error.instancePath || undefined,
+      message: formatSchemaError(error)
+    }));
+
+    return {
+      isValid: false,
+      validationErrors: errors,
+      correctionGuidance: [
+        'Fix the values at these JSON pointers:',
+        ...errors.map(error => `  - ${error.message}`),
+        'Ensure your content matches the schema exactly.'
+      ],
+      templateUsed: schemaUsed
+    };
+  }
+
+  // Why a schema can't be used, or undefined when it compiles
+  schemaError(schema: Record<string, unknown>): string | undefined {
+    try {
+      this.compile(schema);
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  private compile(schema: Record<string, unknown>): ValidateFunction {
+    const key = JSON.stringify(schema);
+    let validate = compiledSchemas.get(key);
+    if (!validate) {
+      // Each schema gets its own instance so schemas sharing an $id don't collide, and
+      // formats Ajv doesn't know are ignored rather than failing the schema
+      validate = new Ajv({ allErrors: true, verbose: true, strict: false }).compile(schema);
+      compiledSchemas.set(key, validate);
+    }
+    return validate;
+  }
+}
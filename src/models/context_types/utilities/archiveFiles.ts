@@ -0,0 +1,99 @@
+import { createHash, randomUUID } from 'crypto';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import * as path from 'path';
+import fs from 'fs/promises';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// An archived context is stored as <name>.md, or as <name>.md.gz once the archive
+// policy has compressed its snapshot. Identical files may be hard links to each other.
+export interface ArchivedFile {
+  name: string;
+  path: string;
+  compressed: boolean;
+}
+
+export async function listArchivedFiles(snapshotDir: string): Promise<ArchivedFile[]> {
+  const entries = await fs.readdir(snapshotDir, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .flatMap((entry): ArchivedFile[] => {
+      const filePath = path.join(snapshotDir, entry.name);
+      if (entry.name.endsWith('.md.gz')) {
+        return [{ name: entry.name.slice(0, -'.md.gz'.length), path: filePath, compressed: true }];
+      }
+      if (entry.name.endsWith('.md')) {
+        return [{ name: entry.name.slice(0, -'.md'.length), path: filePath, compressed: false }];
+      }
+      return [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function findArchivedFile(snapshotDir: string, name: string): Promise<ArchivedFile | null> {
+  for (const compressed of [false, true]) {
+    const filePath = path.join(snapshotDir, compressed ? `${name}.md.gz` : `${name}.md`);
+    try {
+      await fs.access(filePath);
+      return { name, path: filePath, compressed };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+  return null;
+}
+
+export async function readArchivedFile(file: ArchivedFile): Promise<string> {
+  const data = await fs.readFile(file.path);
+  return (file.compressed ? await gunzipAsync(data) : data).toString('utf-8');
+}
+
+// Size of the content itself, not of the compressed file
+export async function archivedFileSize(file: ArchivedFile): Promise<number> {
+  if (!file.compressed) {
+    return (await fs.stat(file.path)).size;
+  }
+
+  // gzip records the uncompressed size in its last four bytes
+  const handle = await fs.open(file.path, 'r');
+  try {
+    const { size } = await handle.stat();
+    const trailer = Buffer.alloc(4);
+    await handle.read(trailer, 0, 4, size - 4);
+    return trailer.readUInt32LE(0);
+  } finally {
+    await handle.close();
+  }
+}
+
+export async function compressArchivedFile(file: ArchivedFile): Promise<void> {
+  const compressed = await gzipAsync(await fs.readFile(file.path));
+  await replaceFile(`${file.path}.gz`, tempPath => fs.writeFile(tempPath, compressed));
+  await fs.unlink(file.path);
+}
+
+// Replaces `duplicatePath` with a hard link to `canonicalPath`, which holds identical bytes
+export async function linkArchivedFile(canonicalPath: string, duplicatePath: string): Promise<void> {
+  await replaceFile(duplicatePath, tempPath => fs.link(canonicalPath, tempPath));
+}
+
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Creates the new file beside the target and renames it into place, so a snapshot
+// never holds a partially written file.
+async function replaceFile(targetPath: string, create: (tempPath: string) => Promise<void>): Promise<void> {
+  const tempPath = `${targetPath}.${randomUUID()}.tmp`;
+  try {
+    await create(tempPath);
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
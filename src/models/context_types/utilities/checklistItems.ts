@@ -0,0 +1,46 @@
+import { ChecklistItem } from '../../../types.js';
+
+// A checklist is stored as JSON, { "nextId": 4, "items": [...] }, so single items can
+// change without reparsing markdown, and is read as a markdown task list:
+//
+//   - [ ] Write the migration (#1, owner: alice)
+//   - [x] Review the schema (#2, done 2026-10-19T09:30:00.000Z)
+//   - [ ] Deploy to staging (#3, blocked)
+//
+// IDs are never reused, so a removed item's ID can't come to mean another item.
+export interface StoredChecklist {
+  nextId: number;
+  items: ChecklistItem[];
+}
+
+export function parseChecklist(content: string): StoredChecklist {
+  if (content.trim().length === 0) {
+    return { nextId: 1, items: [] };
+  }
+  const stored = JSON.parse(content);
+  if (!stored || !Array.isArray(stored.items) || typeof stored.nextId !== 'number') {
+    throw new Error('stored checklist lacks nextId or items');
+  }
+  return stored as StoredChecklist;
+}
+
+export function serializeChecklist(checklist: StoredChecklist): string {
+  return JSON.stringify(checklist, null, 2);
+}
+
+export function renderChecklist(title: string, items: ChecklistItem[]): string {
+  if (items.length === 0) {
+    return `# ${title}\n\nNo items yet.\n`;
+  }
+  return `# ${title}\n\n${items.map(renderItem).join('\n')}\n`;
+}
+
+export function renderItem(item: ChecklistItem): string {
+  const details = [
+    `#${item.id}`,
+    ...(item.owner ? [`owner: ${item.owner}`] : []),
+    ...(item.status === 'done' && item.completedAt ? [`done ${item.completedAt}`] : []),
+    ...(item.status === 'blocked' ? ['blocked'] : [])
+  ];
+  return `- [${item.status === 'done' ? 'x' : ' '}] ${item.text} (${details.join(', ')})`;
+}
@@ -0,0 +1,146 @@
+import { Stats } from 'fs';
+import fs from 'fs/promises';
+import { PersistenceResponse, ProjectConfig, TypeConfig } from '../../../types.js';
+import { validateProjectConfig } from './configSchema.js';
+
+// Projects inherit the context types and archive policy of CONTEXT_ROOT/default-config.json.
+// A project's own config extends them with types of its own, replaces an inherited type
+// by defining one of the same name, changes single fields of inherited types through
+// `overrides` and opts out of inherited types through `exclude`.
+
+export const DEFAULT_CONFIG_FILE = 'default-config.json';
+
+// The effective config together with where each inherited type ended up
+export interface ConfigInheritance {
+  config: ProjectConfig;
+  inherited: string[];   // Default types used as they are
+  overridden: string[];  // Default types changed by overrides or replaced by the project's own
+  excluded: string[];    // Default types the project opted out of
+  warnings: string[];
+}
+
+export function mergeProjectConfig(defaults: ProjectConfig | undefined, own: ProjectConfig): ConfigInheritance {
+  const overrides = own.overrides || {};
+  const exclude = own.exclude || [];
+  const ownTypes = new Map(own.contextTypes.map(ct => [ct.name, ct]));
+  const defaultNames = new Set((defaults?.contextTypes || []).map(ct => ct.name));
+  const inheritance: ConfigInheritance = { config: { contextTypes: [] }, inherited: [], overridden: [], excluded: [], warnings: [] };
+
+  // Inherited types keep their place in the default order; the project's own types follow
+  const contextTypes: TypeConfig[] = [];
+  for (const defaultType of defaults?.contextTypes || []) {
+    const ownType = ownTypes.get(defaultType.name);
+    if (ownType) {
+      contextTypes.push(ownType);
+      inheritance.overridden.push(defaultType.name);
+    } else if (exclude.includes(defaultType.name)) {
+      inheritance.excluded.push(defaultType.name);
+    } else {
+      contextTypes.push(defaultType);
+      (overrides[defaultType.name] ? inheritance.overridden : inheritance.inherited).push(defaultType.name);
+    }
+  }
+  contextTypes.push(...own.contextTypes.filter(ct => !defaultNames.has(ct.name)));
+
+  inheritance.config.contextTypes = contextTypes.map(ct => (overrides[ct.name] ? { ...ct, ...overrides[ct.name], name: ct.name } : ct));
+
+  const archive = defaults?.archive || own.archive ? { ...defaults?.archive, ...own.archive } : undefined;
+  if (archive) {
+    inheritance.config.archive = archive;
+  }
+
+  for (const name of Object.keys(overrides).filter(name => !contextTypes.some(ct => ct.name === name))) {
+    inheritance.warnings.push(`overrides.${name} matches no context type in the project or the default config`);
+  }
+  for (const name of exclude.filter(name => !defaultNames.has(name))) {
+    inheritance.warnings.push(`exclude lists '${name}', which is not a context type of the default config`);
+  }
+
+  return inheritance;
+}
+
+// Combines a project's own config response with the global default one. Warnings of
+// either, reported as errors of a successful response, are carried over.
+export function inheritConfig(own: PersistenceResponse, defaults: PersistenceResponse): PersistenceResponse {
+  if (!own.success || !own.config) {
+    return own;
+  }
+  if (!defaults.success) {
+    return defaults;
+  }
+
+  const { config, warnings } = mergeProjectConfig(defaults.config, own.config);
+  const allWarnings = [...(own.errors || []), ...(defaults.errors || []), ...warnings];
+  return allWarnings.length > 0 ? { success: true, config, errors: allWarnings } : { success: true, config };
+}
+
+// New projects start with no types of their own when there is a global default to
+// inherit, even one that is broken for now
+export function inheritsDefaults(defaults: PersistenceResponse): boolean {
+  return defaults.config !== undefined || !defaults.success;
+}
+
+interface CachedDefaults {
+  config: ProjectConfig;
+  mtimeMs: number;
+  size: number;
+  loadError?: string;
+}
+
+// Reads the global default config, rereading it only when the file changes. As with a
+// project's config, a broken edit keeps the last good defaults in service with a warning.
+export class DefaultConfigLoader {
+  private configPath: string;
+  private cached?: CachedDefaults;
+
+  constructor(configPath: string) {
+    this.configPath = configPath;
+  }
+
+  async load(): Promise<PersistenceResponse> {
+    let stats: Stats;
+    try {
+      stats = await fs.stat(this.configPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // No global default; projects use their own config alone
+        this.cached = undefined;
+        return { success: true };
+      }
+      return { success: false, errors: [`Error reading default config file: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+
+    if (this.cached && stats.mtimeMs === this.cached.mtimeMs && stats.size === this.cached.size) {
+      return this.response(this.cached);
+    }
+
+    let config: ProjectConfig;
+    try {
+      config = JSON.parse(await fs.readFile(this.configPath, 'utf-8'));
+    } catch (error) {
+      return this.broken(stats, `Error parsing default config file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const problems = await validateProjectConfig(config);
+    if (problems.length > 0) {
+      return this.broken(stats, `Invalid default config file: ${problems.join('; ')}`);
+    }
+
+    this.cached = { config, mtimeMs: stats.mtimeMs, size: stats.size };
+    return this.response(this.cached);
+  }
+
+  private broken(stats: Stats, errorMessage: string): PersistenceResponse {
+    if (!this.cached) {
+      return { success: false, errors: [errorMessage] };
+    }
+    this.cached = { ...this.cached, mtimeMs: stats.mtimeMs, size: stats.size, loadError: errorMessage };
+    return this.response(this.cached);
+  }
+
+  private response(cached: CachedDefaults): PersistenceResponse {
+    return cached.loadError
+      ? { success: true, config: cached.config, errors: [`${cached.loadError}. Using the last valid default configuration.`] }
+      : { success: true, config: cached.config };
+  }
+}
@@ -0,0 +1,58 @@
+import * as path from 'path';
+import fs from 'fs/promises';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { packageRoot } from './storage.js';
+
+// project-config.json is checked against the JSON Schema published in the package's
+// schemas directory, which editors can also reference through "$schema". Each problem
+// is reported at its JSON pointer with the offending value and what would be allowed.
+
+let compiled: Promise<ValidateFunction> | undefined;
+
+export function projectConfigSchemaPath(): string {
+  return path.join(packageRoot(), 'schemas', 'project-config.schema.json');
+}
+
+async function compileSchema(): Promise<ValidateFunction> {
+  const schema = JSON.parse(await fs.readFile(projectConfigSchemaPath(), 'utf-8'));
+  // verbose keeps the offending value and the failing schema on each error
+  return new Ajv({ allErrors: true, verbose: true }).compile(schema);
+}
+
+// Problems with a parsed configuration, one per line, or none when it is valid
+export async function validateProjectConfig(config: unknown): Promise<string[]> {
+  if (!compiled) {
+    compiled = compileSchema();
+    // A schema that failed to load is retried on the next validation
+    compiled.catch(() => { compiled = undefined; });
+  }
+  const validate = await compiled;
+  return validate(config) ? [] : (validate.errors || []).map(formatSchemaError);
+}
+
+// One Ajv error at its JSON pointer, with the offending value and what would be allowed
+export function formatSchemaError(error: ErrorObject): string {
+  const value = JSON.stringify(error.data);
+  switch (error.keyword) {
+    case 'enum':
+      return `${pointer(error.instancePath)}: ${value} is not allowed. Allowed values: ${error.params.allowedValues.join(', ')}`;
+    case 'required':
+      return `${pointer(`${error.instancePath}/${escape(error.params.missingProperty)}`)}: is required`;
+    case 'additionalProperties': {
+      const allowed = Object.keys(error.parentSchema?.properties || {});
+      return `${pointer(`${error.instancePath}/${escape(error.params.additionalProperty)}`)}: is not an allowed property. Allowed properties: ${allowed.join(', ')}`;
+    }
+    default:
+      return `${pointer(error.instancePath)}: ${value} ${error.message}`;
+  }
+}
+
+// A property name as a JSON pointer token
+function escape(property: string): string {
+  return property.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// The root of the document has the empty pointer, which would read as nothing
+function pointer(instancePath: string): string {
+  return instancePath || '(root)';
+}
@@ -0,0 +1,173 @@
+import { baseTypes } from '../../contexTypeFactory.js';
+import { mergeProjectConfig } from './configInheritance.js';
+import { JsonSchemaValidator } from './JsonSchemaValidator.js';
+import { isJsonType } from './storage.js';
+import { PersistenceHelper, PersistenceResponse, ProjectConfig, TypeConfig } from '../../../types.js';
+
+// What happens to a removed context type's stored content: moved to the archive as
+// clear_context would, or left in storage where re-adding the type finds it again
+export type RemovedContentAction = 'archive' | 'keep';
+
+export type ContextTypeChanges = Partial<Omit<TypeConfig, 'name'>>;
+
+export interface ContextTypeEditResponse {
+  success: boolean;
+  typeConfig?: TypeConfig;  // The added or updated type, or the removed one
+  errors?: string[];
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+// Adds, updates and removes the context types of a project's configuration. Each
+// edit reads, checks and writes the configuration under the project lock so that
+// concurrent edits can't lose one another's changes.
+export class ContextTypeEditor {
+  private persistenceHelper: PersistenceHelper;
+  private projectName: string;
+
+  constructor(persistenceHelper: PersistenceHelper, projectName: string) {
+    this.persistenceHelper = persistenceHelper;
+    this.projectName = projectName;
+  }
+
+  async add(typeConfig: TypeConfig): Promise<ContextTypeEditResponse> {
+    return this.edit(async (own, effective) => {
+      if (effective.contextTypes.some(ct => ct.name === typeConfig.name)) {
+        return { success: false, errors: [`Context type '${typeConfig.name}' already exists in project '${this.projectName}'. Use action 'update' to change it.`] };
+      }
+
+      const errors = await this.check(typeConfig);
+      if (errors.length > 0) {
+        return { success: false, errors };
+      }
+
+      // A type the project had excluded from the default config comes back as its own
+      return this.write({ ...own, contextTypes: [...own.contextTypes, typeConfig] }, typeConfig);
+    });
+  }
+
+  // The project's own types are changed in place; inherited ones get overrides
+  async update(name: string, changes: ContextTypeChanges): Promise<ContextTypeEditResponse> {
+    return this.edit(async (own, effective) => {
+      const current = effective.contextTypes.find(ct => ct.name === name);
+      if (!current) {
+        return { success: false, errors: [this.notFound(name)] };
+      }
+
+      const updated: TypeConfig = { ...current, ...changes, name };
+      const errors = await this.check(updated);
+
+      // The base types store content differently, so existing content can't change base type
+      if (updated.baseType !== current.baseType && await this.hasContent(name)) {
+        errors.push(`Context type '${name}' has stored content, so its base type can't change from ${current.baseType} to ${updated.baseType}. ` +
+          'Remove the type and add it again under the new base type instead.');
+      }
+      if (errors.length > 0) {
+        return { success: false, errors };
+      }
+
+      if (own.contextTypes.some(ct => ct.name === name)) {
+        const contextTypes = own.contextTypes.map(ct => (ct.name === name ? { ...ct, ...changes, name } : ct));
+        return this.write({ ...own, contextTypes }, updated);
+      }
+      const overrides = { ...own.overrides, [name]: { ...own.overrides?.[name], ...changes } };
+      return this.write({ ...own, overrides }, updated);
+    });
+  }
+
+  // Inherited types are excluded rather than removed, so the default config stays as it is
+  async remove(name: string, removedContent: RemovedContentAction): Promise<ContextTypeEditResponse> {
+    return this.edit(async (own, effective, defaults) => {
+      const current = effective.contextTypes.find(ct => ct.name === name);
+      if (!current) {
+        return { success: false, errors: [this.notFound(name)] };
+      }
+
+      if (removedContent === 'archive') {
+        const cleared = await this.persistenceHelper.clearContext(this.projectName, name);
+        if (!cleared.success) {
+          return { success: false, errors: cleared.errors };
+        }
+      }
+
+      const remaining: ProjectConfig = { ...own, contextTypes: own.contextTypes.filter(ct => ct.name !== name) };
+      if (remaining.overrides?.[name]) {
+        remaining.overrides = Object.fromEntries(Object.entries(remaining.overrides).filter(([typeName]) => typeName !== name));
+      }
+      if (defaults?.contextTypes.some(ct => ct.name === name)) {
+        remaining.exclude = [...(own.exclude || []), name];
+      }
+      return this.write(remaining, current);
+    });
+  }
+
+  // Edits are made to the project's own config and checked against the effective one
+  private async edit(
+    operation: (own: ProjectConfig, effective: ProjectConfig, defaults?: ProjectConfig) => Promise<ContextTypeEditResponse>
+  ): Promise<ContextTypeEditResponse> {
+    return this.persistenceHelper.withProjectLock(this.projectName, async () => {
+      const response = await this.persistenceHelper.getOwnProjectConfig(this.projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: response.errors || ['Failed to load project configuration.'] };
+      }
+      const defaults = await this.persistenceHelper.getGlobalDefaultConfig();
+      if (!defaults.success) {
+        return { success: false, errors: defaults.errors || ['Failed to load the default configuration.'] };
+      }
+      return operation(response.config, mergeProjectConfig(defaults.config, response.config).config, defaults.config);
+    });
+  }
+
+  private async write(config: ProjectConfig, typeConfig: TypeConfig): Promise<ContextTypeEditResponse> {
+    const written: PersistenceResponse = await this.persistenceHelper.writeProjectConfig(this.projectName, config);
+    return written.success ? { success: true, typeConfig } : { success: false, errors: written.errors };
+  }
+
+  private async check(typeConfig: TypeConfig): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (typeof typeConfig.name !== 'string' || !NAME_PATTERN.test(typeConfig.name)) {
+      errors.push(`Invalid context type name '${typeConfig.name}'. Use letters, digits, '_' and '-', starting with a letter or digit.`);
+    }
+    if (!baseTypes.includes(typeConfig.baseType)) {
+      errors.push(`Unknown base type '${typeConfig.baseType}'. Expected one of ${baseTypes.join(', ')}.`);
+    }
+    if (typeof typeConfig.description !== 'string' || typeConfig.description.trim().length === 0) {
+      errors.push(`Context type '${typeConfig.name}' needs a description.`);
+    }
+
+    // Markdown types only validate against a named template, which has to exist to be
+    // usable. Checklists change an item at a time and never validate whole documents.
+    if (typeConfig.validation === true && !isJsonType(typeConfig) && typeConfig.baseType !== 'checklist') {
+      if (!typeConfig.template) {
+        errors.push(`Context type '${typeConfig.name}' has validation enabled but no template. Name a template or set validation to false.`);
+      } else {
+        const template = await this.persistenceHelper.getNamedTemplate(this.projectName, typeConfig.template);
+        if (!template.success) {
+          errors.push(...(template.errors || [`Template '${typeConfig.template}' not found.`]));
+        }
+      }
+    }
+
+    // JSON types validate against their schema, which has to compile to be usable
+    if (typeConfig.schema !== undefined) {
+      const problem = isJsonType(typeConfig)
+        ? new JsonSchemaValidator().schemaError(typeConfig.schema)
+        : `schema only applies to json-document and json-document-collection types, not ${typeConfig.baseType}`;
+      if (problem) {
+        errors.push(`Context type '${typeConfig.name}' has an unusable schema: ${problem}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private async hasContent(name: string): Promise<boolean> {
+    const response = await this.persistenceHelper.listContextEntries(this.projectName, name);
+    return (response.entries || []).some(entry => entry.content.length > 0);
+  }
+
+  private notFound(name: string): string {
+    return `Context type '${name}' not found in project '${this.projectName}'.`;
+  }
+}
@@ -0,0 +1,162 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkFrontmatter from 'remark-frontmatter';
+import { Heading, PhrasingContent, Root } from 'mdast';
+
+// A heading of a markdown document and the span of source it governs: from the heading
+// up to the next heading of the same or a higher level, so subsections are included.
+// Offsets come from the mdast, which lets writes splice into the source and leave every
+// other section byte for byte as it was.
+export interface DocumentSection {
+  path: string[];     // Titles of the enclosing headings followed by this one
+  depth: number;
+  start: number;      // Offset of the heading
+  bodyStart: number;  // Offset just past the heading
+  end: number;
+}
+
+export interface OutlineEntry {
+  section: string;    // Heading path joined with " > ", as accepted by the section argument
+  depth: number;
+  size: number;       // Bytes, subsections included
+}
+
+// The text that belongs to one heading alone, up to the next heading of any level.
+// Search and diffs work on these so a match or a change is reported under the innermost
+// heading, with the heading path the section argument accepts.
+export interface SectionText {
+  key: string;      // Heading path joined with " > ", numbered if repeated; "" for text before the first heading
+  depth: number;    // 0 for text before the first heading
+  path: string[];   // Empty for text before the first heading
+  content: string;  // Heading and the text up to the next heading
+}
+
+export type SectionResult = { success: true; content: string } | { success: false; errors: string[] };
+
+const PATH_SEPARATOR = ' > ';
+
+export function parseSections(markdown: string): DocumentSection[] {
+  const tree = unified().use(remarkParse).use(remarkFrontmatter).parse(markdown) as Root;
+  const headings = tree.children.filter((node): node is Heading => node.type === 'heading' && node.position !== undefined);
+
+  const parents: { title: string; depth: number }[] = [];
+  return headings.map((heading, index) => {
+    while (parents.length > 0 && parents[parents.length - 1].depth >= heading.depth) {
+      parents.pop();
+    }
+    const title = headingText(heading.children);
+    const path = [...parents.map(parent => parent.title), title];
+    parents.push({ title, depth: heading.depth });
+
+    const next = headings.slice(index + 1).find(candidate => candidate.depth <= heading.depth);
+    return {
+      path,
+      depth: heading.depth,
+      start: heading.position!.start.offset!,
+      bodyStart: heading.position!.end.offset!,
+      end: next ? next.position!.start.offset! : markdown.length
+    };
+  });
+}
+
+export function splitSections(markdown: string): SectionText[] {
+  const sections = parseSections(markdown);
+  const preamble = markdown.slice(0, sections.length > 0 ? sections[0].start : markdown.length).trimEnd();
+  const texts: SectionText[] = preamble.trim().length > 0 ? [{ key: '', depth: 0, path: [], content: preamble }] : [];
+
+  const seen = new Map<string, number>();
+  sections.forEach((section, index) => {
+    const joined = section.path.join(PATH_SEPARATOR);
+    const occurrence = (seen.get(joined) || 0) + 1;
+    seen.set(joined, occurrence);
+
+    const end = index + 1 < sections.length ? sections[index + 1].start : markdown.length;
+    texts.push({
+      key: occurrence > 1 ? `${joined} (${occurrence})` : joined,
+      depth: section.depth,
+      path: section.path,
+      content: markdown.slice(section.start, end).trimEnd()
+    });
+  });
+  return texts;
+}
+
+export function outline(markdown: string): OutlineEntry[] {
+  return parseSections(markdown).map(section => ({
+    section: section.path.join(PATH_SEPARATOR),
+    depth: section.depth,
+    size: Buffer.byteLength(markdown.slice(section.start, section.end).trimEnd(), 'utf-8')
+  }));
+}
+
+export function readSection(markdown: string, sectionPath: string, documentName: string): SectionResult {
+  const found = findSection(markdown, sectionPath, documentName);
+  if (!found.success) {
+    return found;
+  }
+  return { success: true, content: markdown.slice(found.section.start, found.section.end).trimEnd() };
+}
+
+// Replaces a section of `markdown`. A replacement that starts with a heading of the
+// section's level replaces the heading as well; anything else replaces only the body
+// beneath the existing heading.
+export function replaceSection(markdown: string, sectionPath: string, replacement: string, documentName: string): SectionResult {
+  const found = findSection(markdown, sectionPath, documentName);
+  if (!found.success) {
+    return found;
+  }
+
+  const { section } = found;
+  const body = replacement.trim();
+  const [leading] = parseSections(body);
+  const replacesHeading = leading !== undefined && leading.start === 0 && leading.depth === section.depth;
+
+  const heading = markdown.slice(section.start, section.bodyStart);
+  let replaced = heading;
+  if (replacesHeading) {
+    replaced = body;
+  } else if (body.length > 0) {
+    replaced = `${heading}\n\n${body}`;
+  }
+
+  const before = markdown.slice(0, section.start);
+  const after = markdown.slice(section.end);
+  const separator = after.length > 0 ? '\n\n' : (markdown.endsWith('\n') ? '\n' : '');
+
+  return { success: true, content: `${before}${replaced}${separator}${after}` };
+}
+
+function findSection(markdown: string, sectionPath: string, documentName: string): { success: true; section: DocumentSection } | { success: false; errors: string[] } {
+  const wanted = sectionPath.split('>').map(title => normalizeTitle(title)).filter(title => title.length > 0);
+  const sections = parseSections(markdown);
+
+  // The path may leave out outer headings, as long as what it names is unambiguous
+  const matches = sections.filter(section => wanted.length > 0 && section.path.length >= wanted.length
+    && wanted.every((title, index) => normalizeTitle(section.path[section.path.length - wanted.length + index]) === title));
+  const exact = matches.filter(section => section.path.length === wanted.length);
+  const candidates = exact.length === 1 ? exact : matches;
+
+  if (candidates.length === 1) {
+    return { success: true, section: candidates[0] };
+  }
+
+  const available = (candidates.length > 1 ? candidates : sections).map(section => `"${section.path.join(PATH_SEPARATOR)}"`);
+  return {
+    success: false,
+    errors: [candidates.length > 1
+      ? `Section "${sectionPath}" is ambiguous in ${documentName}; it matches ${available.join(', ')}. Give more of its heading path.`
+      : `Section "${sectionPath}" not found in ${documentName}. ${available.length > 0 ? `Available sections: ${available.join(', ')}.` : 'The document has no headings.'}`
+    ]
+  };
+}
+
+function headingText(children: PhrasingContent[]): string {
+  return children
+    .map(child => ('value' in child ? child.value : 'children' in child ? headingText(child.children as PhrasingContent[]) : ''))
+    .join('')
+    .trim();
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -1,20 +1,70 @@
-import { Dirent } from 'fs';
+import { Dirent, Stats } from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs/promises';
-import { PersistenceHelper, ProjectConfig, TypeConfig } from '../../../types.js';
+import { ArchiveEntry, ArchivedProject, ContextEntry, PersistenceHelper, ProjectConfig, TypeConfig } from '../../../types.js';
 import { PersistenceResponse } from '../../../types.js';
 import { DateTime } from 'luxon';
+import { randomUUID } from 'crypto';
+import { projectLockPath, withFileLock, withProjectLocks } from './locking.js';
+import { validateProjectConfig } from './configSchema.js';
+import { DEFAULT_CONFIG_FILE, DefaultConfigLoader, inheritConfig, inheritsDefaults } from './configInheritance.js';
+import {
+  archiveSnapshotNotFound,
+  archivedContextNotFound,
+  archivedProjectNotFound,
+  emptyPruneResult,
+  getDefaultConfig,
+  hasArchivePolicy,
+  isLogEntryName,
+  isLogType,
+  logEntryNotFound,
+  logEntryTime,
+  matchesContextNames,
+  notADocumentType,
+  notALogType,
+  planRetention,
+  projectAlreadyExists,
+  projectNotFound,
+  readDefaultTemplate,
+  resolveArchivePolicy,
+  shouldCompress,
+  sortArchiveEntries,
+  sortArchivedProjects,
+  templateNotFound,
+  timestamp
+} from './storage.js';
+import {
+  archivedFileSize,
+  compressArchivedFile,
+  contentHash,
+  findArchivedFile,
+  linkArchivedFile,
+  listArchivedFiles,
+  readArchivedFile
+} from './archiveFiles.js';
+import { readPromptFiles } from './prompts.js';
+
+// A loaded project config together with the file state it was read from, so
+// edits to project-config.json are picked up without restarting the server.
+interface CachedConfig {
+  config: ProjectConfig;
+  mtimeMs: number;
+  size: number;
+  loadError?: string;  // Set while the file on disk is broken and `config` is the last good one
+}
 
 export class FileSystemHelper implements PersistenceHelper {
   contextRoot: string;
-  private configCache: Map<string, ProjectConfig> = new Map();
+  private configCache: Map<string, CachedConfig> = new Map();
+  private defaultConfig: DefaultConfigLoader;
   
   constructor(
     contextRoot: string = process.env.CONTEXT_ROOT || path.join(os.homedir(), '.shared-project-context')
   ) {
     this.contextRoot = contextRoot;
+    this.defaultConfig = new DefaultConfigLoader(path.join(contextRoot, DEFAULT_CONFIG_FILE));
   }
 
   async initProject(projectName: string): Promise<PersistenceResponse> {
@@ -48,7 +98,142 @@ export class FileSystemHelper implements PersistenceHelper {
       return { success: false, errors: [errorMessage] };
     }
   }
-  
+
+  async renameProject(projectName: string, newProjectName: string): Promise<PersistenceResponse> {
+    if (!this.isPathSegment(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+    if (!this.isPathSegment(newProjectName)) {
+      return { success: false, errors: [`Invalid project name '${newProjectName}'`] };
+    }
+
+    return withProjectLocks(this, [projectName, newProjectName], async () => {
+      try {
+        if (!await this.projectExists(projectName)) {
+          return { success: false, errors: [projectNotFound(projectName)] };
+        }
+        if (await this.projectExists(newProjectName)) {
+          return { success: false, errors: [projectAlreadyExists(newProjectName)] };
+        }
+
+        await fs.rename(await this.getProjectPath(projectName), await this.getProjectPath(newProjectName));
+        this.configCache.delete(projectName);
+        this.configCache.delete(newProjectName);
+        return { success: true };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to rename project: ${errorMessage}`] };
+      }
+    });
+  }
+
+  // Moves the whole project directory to CONTEXT_ROOT/archived-projects/<project>/<snapshot>,
+  // which frees the name for a new project until the archived one is restored.
+  async archiveProject(projectName: string): Promise<PersistenceResponse> {
+    if (!this.isPathSegment(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    return this.withProjectLock(projectName, async () => {
+      try {
+        if (!await this.projectExists(projectName)) {
+          return { success: false, errors: [projectNotFound(projectName)] };
+        }
+
+        const projectArchivePath = path.join(this.archivedProjectsPath, projectName);
+        await this.ensureDirectoryExists(projectArchivePath);
+
+        // Same-millisecond archives of a recreated project would otherwise collide
+        let snapshotTime = DateTime.utc();
+        while (await this.fileExists(path.join(projectArchivePath, timestamp(snapshotTime)))) {
+          snapshotTime = snapshotTime.plus({ milliseconds: 1 });
+        }
+        const snapshot = timestamp(snapshotTime);
+
+        await fs.rename(await this.getProjectPath(projectName), path.join(projectArchivePath, snapshot));
+        this.configCache.delete(projectName);
+        return { success: true, data: [snapshot] };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to archive project: ${errorMessage}`] };
+      }
+    });
+  }
+
+  async listArchivedProjects(): Promise<PersistenceResponse> {
+    try {
+      const archivedProjects: ArchivedProject[] = [];
+      for (const projectName of await this.listSubdirectories(this.archivedProjectsPath)) {
+        for (const snapshot of await this.listSubdirectories(path.join(this.archivedProjectsPath, projectName))) {
+          archivedProjects.push({ projectName, snapshot });
+        }
+      }
+      return { success: true, archivedProjects: sortArchivedProjects(archivedProjects) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  // Restores the newest archived copy unless a snapshot is given. The project comes back
+  // under its own name, or under `newProjectName` when that name has been reused since.
+  async restoreProject(projectName: string, snapshot?: string, newProjectName?: string): Promise<PersistenceResponse> {
+    const targetName = newProjectName ?? projectName;
+    if (![projectName, targetName].every(name => this.isPathSegment(name)) || (snapshot !== undefined && !this.isPathSegment(snapshot))) {
+      return { success: false, errors: [archivedProjectNotFound(projectName, snapshot)] };
+    }
+
+    return withProjectLocks(this, [projectName, targetName], async () => {
+      try {
+        const projectArchivePath = path.join(this.archivedProjectsPath, projectName);
+        const snapshots = (await this.listSubdirectories(projectArchivePath)).sort();
+        const restoredSnapshot = snapshot ?? snapshots[snapshots.length - 1];
+        if (restoredSnapshot === undefined || !snapshots.includes(restoredSnapshot)) {
+          return { success: false, errors: [archivedProjectNotFound(projectName, snapshot)] };
+        }
+
+        if (await this.projectExists(targetName)) {
+          return {
+            success: false,
+            errors: [`${projectAlreadyExists(targetName)} Restore it under a different name with new_project_name.`]
+          };
+        }
+
+        await this.ensureDirectoryExists(path.join(this.contextRoot, 'projects'));
+        await fs.rename(path.join(projectArchivePath, restoredSnapshot), await this.getProjectPath(targetName));
+        await fs.rmdir(projectArchivePath).catch(() => undefined);  // Only succeeds once no snapshots remain
+        this.configCache.delete(targetName);
+        return { success: true, data: [targetName] };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to restore project: ${errorMessage}`] };
+      }
+    });
+  }
+
+  // Permanent: the project directory, including its context archive, is removed
+  async deleteProject(projectName: string): Promise<PersistenceResponse> {
+    // Never let a name like '..' reach outside the projects directory
+    if (!this.isPathSegment(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    return this.withProjectLock(projectName, async () => {
+      try {
+        if (!await this.projectExists(projectName)) {
+          return { success: false, errors: [projectNotFound(projectName)] };
+        }
+
+        await fs.rm(await this.getProjectPath(projectName), { recursive: true, force: true });
+        this.configCache.delete(projectName);
+        return { success: true };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to delete project: ${errorMessage}`] };
+      }
+    });
+  }
+
   async getContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
     const response = await this.getProjectConfig(projectName);
     if (!response.success || !response.config) {
@@ -131,39 +316,72 @@ export class FileSystemHelper implements PersistenceHelper {
     }
   }
 
-  async writeContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
-    const projectPath = await this.getProjectPath(projectName); 
-    if (!(await this.fileExists(projectPath))) {
+  // Every stored context of a type with its stored name, newest log entry first
+  async listContextEntries(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`listContextEntries: Failed to load project configuration.`] };
+    }
+
+    if (!response.config.contextTypes.some(ct => ct.name === contextType)) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    if (!await this.projectExists(projectName)) {
       return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
     }
-    
-    await this.ensureDirectoryExists(path.join(projectPath, contextType));
-    
+
     try {
-      const response = await this.getProjectConfig(projectName);
-      if (!response.success || !response.config) {
-        return { success: false, errors: [`WriteContext: Failed to load project configuration.`] };
+      const typeDir = path.join(await this.getProjectPath(projectName), contextType);
+      const fileNames = (await this.listPathsForType(projectName, contextType))
+        .filter(entry => entry.isFile() && entry.name.endsWith('.md'))
+        .map(entry => entry.name);
+
+      const entries: ContextEntry[] = [];
+      for (const fileName of fileNames) {
+        entries.push({ name: fileName.slice(0, -'.md'.length), content: await fs.readFile(path.join(typeDir, fileName), 'utf-8') });
       }
-      const config = response.config;
-      const contextTypeConfig = config.contextTypes.find(ct => ct.name === contextType);
-      
-      if (!contextTypeConfig) {
-        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+
+      return { success: true, entries: entries.sort((a, b) => b.name.localeCompare(a.name)) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async writeContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      const projectPath = await this.getProjectPath(projectName); 
+      if (!(await this.fileExists(projectPath))) {
+        return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
       }
+    
+      await this.ensureDirectoryExists(path.join(projectPath, contextType));
+    
+      try {
+        const response = await this.getProjectConfig(projectName);
+        if (!response.success || !response.config) {
+          return { success: false, errors: [`WriteContext: Failed to load project configuration.`] };
+        }
+        const config = response.config;
+        const contextTypeConfig = config.contextTypes.find(ct => ct.name === contextType);
+      
+        if (!contextTypeConfig) {
+          return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+        }
 
-      const fileName = (contextTypeConfig.baseType === 'templated-log' || contextTypeConfig.baseType === 'freeform-log')
-        ? this.generateTimestampedContextName(contextName) 
-        : contextName;
-     
-      const filePath = await this.buildContextFilePath(projectName, contextType, fileName);
+        const filePath = (contextTypeConfig.baseType === 'templated-log' || contextTypeConfig.baseType === 'freeform-log')
+          ? await this.newLogEntryPath(path.join(projectPath, contextType), contextType)
+          : await this.buildContextFilePath(projectName, contextType, contextName);
       
-      await fs.writeFile(filePath, content);
+        await this.writeFileAtomic(filePath, content);
 
-      return { success: true };
+        return { success: true };
 
-    } catch (error) {
-      return {success: false, errors: [`Failed to write context: ${error instanceof Error ? error.message : 'Unknown error'}`]};
-    }
+      } catch (error) {
+        return {success: false, errors: [`Failed to write context: ${error instanceof Error ? error.message : 'Unknown error'}`]};
+      }
+    });
   }
 
   async getTemplate(projectName: string, contextType: string): Promise<PersistenceResponse> {
@@ -230,120 +448,438 @@ export class FileSystemHelper implements PersistenceHelper {
     }
   }
 
+  // The project's copy of a template, or the package default, without copying the
+  // default into the project as getTemplate does
+  async getNamedTemplate(projectName: string, templateName: string): Promise<PersistenceResponse> {
+    if (!await this.projectExists(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+    if (!this.isPathSegment(templateName)) {
+      return { success: false, errors: [templateNotFound(templateName)] };
+    }
+
+    const projectTemplatePath = path.join(await this.getProjectPath(projectName), 'templates', `${templateName}.md`);
+    try {
+      return { success: true, data: [await fs.readFile(projectTemplatePath, 'utf-8')] };
+    } catch {
+      // Fall back to the package default
+    }
+    try {
+      return { success: true, data: [await readDefaultTemplate(templateName)] };
+    } catch {
+      return { success: false, errors: [templateNotFound(templateName)] };
+    }
+  }
+
+  // Project templates take precedence over the package defaults of the same name
+  async writeTemplate(projectName: string, templateName: string, content: string): Promise<PersistenceResponse> {
+    return this.writeProjectMarkdown(projectName, 'templates', templateName, content);
+  }
+
+  async writePrompt(projectName: string, promptName: string, content: string): Promise<PersistenceResponse> {
+    return this.writeProjectMarkdown(projectName, 'prompts', promptName, content);
+  }
+
+  // A project's own prompts are the markdown files in its prompts directory
+  async listPrompts(projectName: string): Promise<PersistenceResponse> {
+    if (!await this.projectExists(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    try {
+      return { success: true, prompts: await readPromptFiles(path.join(await this.getProjectPath(projectName), 'prompts')) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
   // This actually implements archiving though the intention from a user perspective is that
   // the context is removed. It is named clearContext to because not all persistence methods
   // implement archiving.
   async clearContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
-    const response = await this.getProjectConfig(projectName);
-    if (!response.success || !response.config) {
-      return { success: false, errors: [`archiveContext: Failed to load project configuration.`] };
-    }
-    const config = response.config;
-    const contextTypeConfig = config.contextTypes.find(ct => ct.name === contextType);
+    return this.withProjectLock(projectName, async () => {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`archiveContext: Failed to load project configuration.`] };
+      }
+      const config = response.config;
+      const contextTypeConfig = config.contextTypes.find(ct => ct.name === contextType);
     
-    if (!contextTypeConfig) {
-      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
-    }
+      if (!contextTypeConfig) {
+        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+      }
     
-    if (!await this.projectExists(projectName)) {
-      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
-    }
+      if (!await this.projectExists(projectName)) {
+        return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+      }
 
-    const projectPath = await this.getProjectPath(projectName);
-    if (!(await this.fileExists(projectPath))) {
-      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
-    }
+      const projectPath = await this.getProjectPath(projectName);
+      if (!(await this.fileExists(projectPath))) {
+        return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+      }
 
-    await this.ensureDirectoryExists(path.join(projectPath, 'archive', contextType));
+      await this.ensureDirectoryExists(path.join(projectPath, 'archive', contextType));
 
-    try {
-      const timestamp = this.timestamp();
-      const archiveDir = path.join(projectPath, 'archive', contextType, timestamp);
-      
-      // Ensure the archive directory exists
-      await this.ensureDirectoryExists(archiveDir);
+      try {
+        const archiveDir = await this.newArchiveSnapshotDir(path.join(projectPath, 'archive', contextType));
 
-      // Follow same pattern as getContext for finding files to archive
-      let filePaths;
-      if (contextNames) {
-        // For log types, we need to find existing files that match the context name prefix
-        // For other types, use buildContextFilePath
-        if (contextTypeConfig.baseType === 'templated-log' || contextTypeConfig.baseType === 'freeform-log') {
-          // Get all existing files and filter by context name prefix
-          const dirEntries = await this.listPathsForType(projectName, contextType);
-          filePaths = dirEntries
-            .filter(dirent => {
-              // Check if any of the provided context names match the file prefix
-              return contextNames.some(contextName => 
-                dirent.name.startsWith(`${contextName}-`)
-              );
-            })
-            .map(dirent => path.join(dirent.parentPath, dirent.name));
+        // Follow same pattern as getContext for finding files to archive
+        let filePaths;
+        if (contextNames) {
+          // For log types, we need to find existing files that match the context name prefix
+          // For other types, use buildContextFilePath
+          if (contextTypeConfig.baseType === 'templated-log' || contextTypeConfig.baseType === 'freeform-log') {
+            // Get all existing files and filter by context name prefix
+            const dirEntries = await this.listPathsForType(projectName, contextType);
+            filePaths = dirEntries
+              .filter(dirent => {
+                // Check if any of the provided context names match the file prefix or is its entry ID
+                return contextNames.some(contextName => 
+                  dirent.name === `${contextName}.md` || dirent.name.startsWith(`${contextName}-`)
+                );
+              })
+              .map(dirent => path.join(dirent.parentPath, dirent.name));
+          } else {
+            // For non-log types, use buildContextFilePath as before
+            const filePathPromises = contextNames.map(name => 
+              this.buildContextFilePath(projectName, contextType, name)
+            );
+            filePaths = await Promise.all(filePathPromises);
+          }
         } else {
-          // For non-log types, use buildContextFilePath as before
-          const filePathPromises = contextNames.map(name => 
-            this.buildContextFilePath(projectName, contextType, name)
-          );
-          filePaths = await Promise.all(filePathPromises);
+          // No specific names - get all file paths directly (like getContext does)
+          const dirEntries = await this.listPathsForType(projectName, contextType);
+          filePaths = dirEntries.map(dirent => path.join(dirent.parentPath, dirent.name));
         }
-      } else {
-        // No specific names - get all file paths directly (like getContext does)
-        const dirEntries = await this.listPathsForType(projectName, contextType);
-        filePaths = dirEntries.map(dirent => path.join(dirent.parentPath, dirent.name));
-      }
 
-      // Process each file path
-      const movePromises = filePaths.map(async (filePath) => {
-        try {
-          if (!(await this.fileExists(filePath))) {
-            return { success: true, name: path.basename(filePath) };
-          }
+        // Process each file path
+        const movePromises = filePaths.map(async (filePath) => {
+          try {
+            if (!(await this.fileExists(filePath))) {
+              return { success: true, name: path.basename(filePath) };
+            }
 
-          // Get the filename from the source path
-          const fileName = path.basename(filePath);
+            // Get the filename from the source path
+            const fileName = path.basename(filePath);
           
-          // Create destination path in archive directory
-          const destinationPath = path.join(archiveDir, fileName);
+            // Create destination path in archive directory
+            const destinationPath = path.join(archiveDir, fileName);
           
-          // Move the file to archive
-          await fs.rename(filePath, destinationPath);
+            // Move the file to archive
+            await fs.rename(filePath, destinationPath);
           
-          return { success: true };
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          return { success: false, name: path.basename(filePath), error: errorMessage };
-        }
-      });
-      
-      const results = await Promise.all(movePromises);
+            return { success: true };
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            return { success: false, name: path.basename(filePath), error: errorMessage };
+          }
+        });
       
-      // Check if any moves failed
-      const errors = results
-        .filter(result => !result.success)
-        .map(result => `${result.name}: ${result.error}`);
+        const results = await Promise.all(movePromises);
       
-      // If any errors, return failure
-      if (errors.length > 0) {
-        return { success: false, errors };
-      }
+        // Check if any moves failed
+        const errors = results
+          .filter(result => !result.success)
+          .map(result => `${result.name}: ${result.error}`);
       
-      return { success: true };
+        // If any errors, return failure
+        if (errors.length > 0) {
+          return { success: false, errors };
+        }
+
+        return { success: true };
       
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [errorMessage] };
+      }
+    });
+  }
+
+  // Replaces one log entry's content, keeping its file name and so its ID. The original
+  // is archived first, the same way clearContext would archive it.
+  async amendLogEntry(projectName: string, contextType: string, entryId: string, content: string): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`amendLogEntry: Failed to load project configuration.`] };
+      }
+      const config = response.config;
+      const contextTypeConfig = config.contextTypes.find(ct => ct.name === contextType);
+
+      if (!contextTypeConfig) {
+        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+      }
+
+      if (!isLogType(contextTypeConfig)) {
+        return { success: false, errors: [notALogType(contextType)] };
+      }
+
+      if (!await this.projectExists(projectName)) {
+        return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+      }
+
+      const projectPath = await this.getProjectPath(projectName);
+      const entryPath = path.join(projectPath, contextType, `${entryId}.md`);
+      if (!isLogEntryName(contextType, entryId) || !(await this.fileExists(entryPath))) {
+        return { success: false, errors: [logEntryNotFound(contextType, entryId)] };
+      }
+
+      try {
+        await this.ensureDirectoryExists(path.join(projectPath, 'archive', contextType));
+        const archiveDir = await this.newArchiveSnapshotDir(path.join(projectPath, 'archive', contextType));
+        await fs.copyFile(entryPath, path.join(archiveDir, `${entryId}.md`));
+        await this.writeFileAtomic(entryPath, content);
+
+        return { success: true };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to amend log entry: ${errorMessage}`] };
+      }
+    });
+  }
+
+  // Replaces a document, archiving a copy of its current content first. The new content
+  // is renamed over the old file, so the document is never missing, not even to a reader
+  // that doesn't take the lock or after a crash between archiving and writing.
+  async replaceContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`replaceContext: Failed to load project configuration.`] };
+      }
+      const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+      if (!contextTypeConfig) {
+        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+      }
+
+      if (isLogType(contextTypeConfig)) {
+        return { success: false, errors: [notADocumentType(contextType)] };
+      }
+
+      if (!await this.projectExists(projectName)) {
+        return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+      }
+
+      try {
+        const projectPath = await this.getProjectPath(projectName);
+        const filePath = await this.buildContextFilePath(projectName, contextType, contextName);
+
+        if (await this.fileExists(filePath)) {
+          await this.ensureDirectoryExists(path.join(projectPath, 'archive', contextType));
+          const archiveDir = await this.newArchiveSnapshotDir(path.join(projectPath, 'archive', contextType));
+          await fs.copyFile(filePath, path.join(archiveDir, path.basename(filePath)));
+        }
+        await this.writeFileAtomic(filePath, content);
+
+        return { success: true };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to replace context: ${errorMessage}`] };
+      }
+    });
+  }
+
+  // Archived contexts live at archive/<type>/<snapshot>/<name>.md (or .md.gz) inside the project
+  async listArchives(projectName: string, contextType?: string): Promise<PersistenceResponse> {
+    if (!await this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    if (contextType !== undefined && !this.isPathSegment(contextType)) {
+      return { success: false, errors: [`Invalid context type '${contextType}'`] };
+    }
+
+    try {
+      const archivePath = path.join(await this.getProjectPath(projectName), 'archive');
+      const contextTypes = contextType ? [contextType] : await this.listSubdirectories(archivePath);
+      const archives: ArchiveEntry[] = [];
+
+      for (const type of contextTypes) {
+        const typeArchivePath = path.join(archivePath, type);
+        for (const snapshot of await this.listSubdirectories(typeArchivePath)) {
+          for (const file of await listArchivedFiles(path.join(typeArchivePath, snapshot))) {
+            archives.push({ contextType: type, snapshot, name: file.name, size: await archivedFileSize(file) });
+          }
+        }
+      }
+
+      return { success: true, archives: sortArchiveEntries(archives) };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return { success: false, errors: [errorMessage] };
     }
   }
 
-  async getProjectConfig(projectName: string): Promise<PersistenceResponse> {
-    // Check cache first
-    if (this.configCache.has(projectName)) {
-      return { success: true, config: this.configCache.get(projectName) };
+  async getArchivedContext(projectName: string, contextType: string, snapshot: string, contextName: string): Promise<PersistenceResponse> {
+    if (!await this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
     }
-  
+
+    // These come straight from tool arguments; never let them leave the archive directory
+    if (![contextType, snapshot, contextName].every(segment => this.isPathSegment(segment))) {
+      return { success: false, errors: [archivedContextNotFound(contextType, snapshot, contextName)] };
+    }
+
+    const snapshotDir = path.join(await this.getProjectPath(projectName), 'archive', contextType, snapshot);
+    try {
+      const file = await findArchivedFile(snapshotDir, contextName);
+      if (!file) {
+        return { success: false, errors: [archivedContextNotFound(contextType, snapshot, contextName)] };
+      }
+      return { success: true, data: [await readArchivedFile(file)] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { success: false, errors: [archivedContextNotFound(contextType, snapshot, contextName)] };
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  // Copies contexts from an archive snapshot back into place. Documents that would be
+  // replaced are archived first, so a restore can itself be undone with another restore.
+  // Log entries keep their original timestamped names and are merged with the current
+  // entries; entries that are already present are left alone.
+  async restoreContext(projectName: string, contextType: string, snapshot: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`restoreContext: Failed to load project configuration.`, ...(response.errors || [])] };
+      }
+      const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+      if (!contextTypeConfig) {
+        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+      }
+
+      if (!await this.projectExists(projectName)) {
+        return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+      }
+
+      const projectPath = await this.getProjectPath(projectName);
+      const snapshotDir = path.join(projectPath, 'archive', contextType, snapshot);
+      if (!this.isPathSegment(snapshot) || !(await this.fileExists(snapshotDir))) {
+        return { success: false, errors: [archiveSnapshotNotFound(contextType, snapshot)] };
+      }
+
+      try {
+        const files = (await listArchivedFiles(snapshotDir))
+          .filter(file => matchesContextNames(contextTypeConfig, file.name, contextNames));
+        const names = files.map(file => file.name);
+
+        if (names.length === 0) {
+          return { success: false, errors: [contextNames
+            ? archivedContextNotFound(contextType, snapshot, contextNames.join(', '))
+            : archiveSnapshotNotFound(contextType, snapshot)] };
+        }
+
+        const typeDir = path.join(projectPath, contextType);
+        await this.ensureDirectoryExists(typeDir);
+
+        const existing: string[] = [];
+        for (const name of names) {
+          if (await this.fileExists(path.join(typeDir, `${name}.md`))) {
+            existing.push(name);
+          }
+        }
+
+        // Read everything up front: archiving the current content may prune this snapshot
+        const contents = new Map<string, string>();
+        for (const file of files) {
+          contents.set(file.name, await readArchivedFile(file));
+        }
+
+        if (!isLogType(contextTypeConfig) && existing.length > 0) {
+          // Single documents are archived under the type name, which is also their context name
+          const archived = await this.clearContext(projectName, contextType, existing);
+          if (!archived.success) {
+            return archived;
+          }
+        }
+
+        const restored: string[] = [];
+        for (const name of names) {
+          const content = contents.get(name)!;
+          let filePath = path.join(typeDir, `${name}.md`);
+
+          if (isLogType(contextTypeConfig) && existing.includes(name)) {
+            if (await fs.readFile(filePath, 'utf-8') === content) {
+              continue;
+            }
+            // A different entry written in the same millisecond took the name; keep both
+            filePath = await this.newLogEntryPath(typeDir, contextType, logEntryTime(contextType, name));
+          }
+
+          await this.writeFileAtomic(filePath, content);
+          restored.push(path.basename(filePath, '.md'));
+        }
+
+        return { success: true, data: restored };
+      } catch (error) {
+        return {success: false, errors: [`Failed to restore context: ${error instanceof Error ? error.message : 'Unknown error'}`]};
+      }
+    });
+  }
+
+  // Applies the archive policy from project-config.json to one context type, or to every
+  // archived type. With dryRun nothing is changed and the result lists what would be.
+  async pruneArchive(projectName: string, contextType?: string, dryRun: boolean = false): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`pruneArchive: Failed to load project configuration.`, ...(response.errors || [])] };
+      }
+
+      if (!await this.projectExists(projectName)) {
+        return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+      }
+
+      if (contextType !== undefined && !this.isPathSegment(contextType)) {
+        return { success: false, errors: [`Invalid context type '${contextType}'`] };
+      }
+
+      return this.applyArchivePolicy(projectName, response.config, contextType, dryRun);
+    });
+  }
+
+  // Mutations of a project are serialized across processes with a lock file in
+  // CONTEXT_ROOT/locks. The lock is reentrant, so callers can hold it around several
+  // persistence calls (such as a reset followed by a write).
+  async withProjectLock<T>(projectName: string, operation: () => Promise<T>): Promise<T> {
+    return withFileLock(projectLockPath(this.contextRoot, projectName), operation);
+  }
+
+  async getProjectConfig(projectName: string): Promise<PersistenceResponse> {
+    return inheritConfig(await this.getOwnProjectConfig(projectName), await this.getGlobalDefaultConfig());
+  }
+
+  async getGlobalDefaultConfig(): Promise<PersistenceResponse> {
+    return this.defaultConfig.load();
+  }
+
+  // The cached config is reused until project-config.json changes on disk. A change that
+  // fails to parse or to match the config schema keeps the last good config in service
+  // and reports the problem alongside it until the file is fixed.
+  async getOwnProjectConfig(projectName: string): Promise<PersistenceResponse> {
     const projectPath = await this.getProjectPath(projectName);
     const configPath = path.join(projectPath, 'project-config.json');
-    
+    const cached = this.configCache.get(projectName);
+
+    let stats: Stats | undefined;
+    try {
+      stats = await fs.stat(configPath);
+    } catch {
+      // Missing or unreadable; the read below reports the specific problem
+      stats = undefined;
+    }
+
+    if (cached && stats && stats.mtimeMs === cached.mtimeMs && stats.size === cached.size) {
+      return this.cachedConfigResponse(cached);
+    }
+
     let config: ProjectConfig;
     
     try {
@@ -352,7 +888,7 @@ export class FileSystemHelper implements PersistenceHelper {
         config = JSON.parse(configContent);
       } catch (parseError) {
         const errorMessage = `Error parsing config file: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`;
-        return { success: false, errors: [errorMessage] };
+        return this.brokenConfigResponse(projectName, cached, stats, errorMessage);
       }
     } catch (error) {
       // Only create default config if file doesn't exist
@@ -361,9 +897,10 @@ export class FileSystemHelper implements PersistenceHelper {
       };
       
       if (isNodeError(error) && error.code === 'ENOENT') {
-        config = this.getDefaultConfig();
+        config = inheritsDefaults(await this.getGlobalDefaultConfig()) ? { contextTypes: [] } : getDefaultConfig();
         try {
           await fs.writeFile(configPath, JSON.stringify(config, null, 2));
+          stats = await fs.stat(configPath);
         } catch (writeError) {
           const errorMessage = `Error creating default config: ${writeError instanceof Error ? writeError.message : 'Unknown error'}`;
           return { success: false, errors: [errorMessage] };
@@ -375,10 +912,40 @@ export class FileSystemHelper implements PersistenceHelper {
       }
     }
     
-    // Cache the configuration
-    this.configCache.set(projectName, config);
+    const problems = await validateProjectConfig(config);
+    if (problems.length > 0) {
+      return this.brokenConfigResponse(projectName, cached, stats, `Invalid config file: ${problems.join('; ')}`);
+    }
+
+    // Replace the cached configuration in one step so callers never see a partial reload
+    this.configCache.set(projectName, { config, mtimeMs: stats?.mtimeMs ?? 0, size: stats?.size ?? 0 });
     return { success: true, config: config };
-}
+  }
+
+  // Replaces project-config.json in one step; the next getProjectConfig reads the new file
+  async writeProjectConfig(projectName: string, config: ProjectConfig): Promise<PersistenceResponse> {
+    const problems = await validateProjectConfig(config);
+    if (problems.length > 0) {
+      return { success: false, errors: [`Invalid config: ${problems.join('; ')}`] };
+    }
+
+    if (!await this.projectExists(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    return this.withProjectLock(projectName, async () => {
+      try {
+        const configPath = path.join(await this.getProjectPath(projectName), 'project-config.json');
+        await this.writeFileAtomic(configPath, JSON.stringify(config, null, 2));
+        // A rewrite within the same millisecond can keep the size and mtime the cache compares
+        this.configCache.delete(projectName);
+        return { success: true };
+      } catch (error) {
+        const errorMessage = `Error writing config file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        return { success: false, errors: [errorMessage] };
+      }
+    });
+  }
 
   async listAllContextForType(projectName: string, contextType: string): Promise<PersistenceResponse> {
     // Get the config to check the base type
@@ -404,6 +971,114 @@ export class FileSystemHelper implements PersistenceHelper {
     return { success: true, data: [contextType] };
   }
 
+  // Retention removes whole snapshots; the snapshots that remain are then compressed
+  // and identical files within a type are replaced by hard links to a single copy.
+  // Callers hold the project lock.
+  private async applyArchivePolicy(projectName: string, config: ProjectConfig, contextType: string | undefined, dryRun: boolean): Promise<PersistenceResponse> {
+    try {
+      const archivePath = path.join(await this.getProjectPath(projectName), 'archive');
+      const result = emptyPruneResult(dryRun);
+      const contextTypes = contextType ? [contextType] : await this.listSubdirectories(archivePath);
+
+      for (const type of contextTypes) {
+        const policy = resolveArchivePolicy(config, type);
+        if (!hasArchivePolicy(policy)) continue;
+
+        const typeArchivePath = path.join(archivePath, type);
+        const snapshots = await this.listSubdirectories(typeArchivePath);
+        const removed = planRetention(type, snapshots, policy);
+        result.removed.push(...removed);
+
+        const canonicalFiles = new Map<string, { path: string; ino: number }>();
+        const kept = snapshots
+          .filter(snapshot => !removed.some(pruned => pruned.snapshot === snapshot))
+          .sort((a, b) => b.localeCompare(a));
+
+        for (const snapshot of kept) {
+          const snapshotDir = path.join(typeArchivePath, snapshot);
+          let files = await listArchivedFiles(snapshotDir);
+          const compress = shouldCompress(snapshot, policy);
+
+          if (compress && files.some(file => !file.compressed)) {
+            result.compressed.push({ contextType: type, snapshot });
+            if (!dryRun) {
+              for (const file of files.filter(file => !file.compressed)) {
+                await compressArchivedFile(file);
+              }
+              files = await listArchivedFiles(snapshotDir);
+            }
+          }
+
+          if (!policy.deduplicate) continue;
+
+          for (const file of files) {
+            const content = await readArchivedFile(file);
+            // Compressed and plain copies can't share a link, so they are grouped separately
+            const key = `${file.compressed || compress ? 'gz' : 'md'}:${contentHash(content)}`;
+            const { ino } = await fs.stat(file.path);
+            const canonical = canonicalFiles.get(key);
+
+            if (!canonical) {
+              canonicalFiles.set(key, { path: file.path, ino });
+            } else if (canonical.ino !== ino) {
+              result.deduplicated.push({ contextType: type, snapshot, name: file.name, size: Buffer.byteLength(content, 'utf-8') });
+              if (!dryRun) {
+                await linkArchivedFile(canonical.path, file.path);
+              }
+            }
+          }
+        }
+
+        if (!dryRun) {
+          for (const pruned of removed) {
+            await fs.rm(path.join(typeArchivePath, pruned.snapshot), { recursive: true, force: true });
+          }
+        }
+      }
+
+      return { success: true, prune: result };
+    } catch (error) {
+      return { success: false, errors: [`Failed to prune archive: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+  }
+
+  private async writeProjectMarkdown(projectName: string, directory: string, name: string, content: string): Promise<PersistenceResponse> {
+    if (!await this.projectExists(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+    if (!this.isPathSegment(name)) {
+      return { success: false, errors: [`Invalid file name '${name}'`] };
+    }
+
+    return this.withProjectLock(projectName, async () => {
+      try {
+        const directoryPath = path.join(await this.getProjectPath(projectName), directory);
+        await this.ensureDirectoryExists(directoryPath);
+        await this.writeFileAtomic(path.join(directoryPath, `${name}.md`), content);
+        return { success: true };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to write ${directory}/${name}.md: ${errorMessage}`] };
+      }
+    });
+  }
+
+  private brokenConfigResponse(projectName: string, cached: CachedConfig | undefined, stats: Stats | undefined, errorMessage: string): PersistenceResponse {
+    if (cached && stats) {
+      // Keep serving the last good config until the file is fixed
+      const broken = { ...cached, mtimeMs: stats.mtimeMs, size: stats.size, loadError: errorMessage };
+      this.configCache.set(projectName, broken);
+      return this.cachedConfigResponse(broken);
+    }
+    return { success: false, errors: [errorMessage] };
+  }
+
+  private cachedConfigResponse(cached: CachedConfig): PersistenceResponse {
+    return cached.loadError
+      ? { success: true, config: cached.config, errors: [`${cached.loadError}. Using the last valid configuration.`] }
+      : { success: true, config: cached.config };
+  }
+
   private async readDirectory(dirPath: string, options: { withFileTypes: boolean, recursive?: boolean } = { withFileTypes: true }): Promise<string[] | Dirent[]> {
     try {
       const entries = await fs.readdir(dirPath, { ...options, withFileTypes: true });
@@ -418,6 +1093,45 @@ export class FileSystemHelper implements PersistenceHelper {
     }
   }
 
+  // Writes to a temporary file and renames it into place, so readers and crashes
+  // only ever see the old or the new content, never a partial write.
+  private async writeFileAtomic(filePath: string, content: string): Promise<void> {
+    const tempDir = path.join(this.contextRoot, 'tmp');
+    await this.ensureDirectoryExists(tempDir);
+    const tempPath = path.join(tempDir, `${path.basename(filePath)}.${process.pid}.${randomUUID()}.tmp`);
+
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async listSubdirectories(dirPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private isPathSegment(name: string): boolean {
+    return name.length > 0 && name !== '.' && name !== '..' && !/[/\\]/.test(name);
+  }
+
   private async ensureDirectoryExists(directory: string): Promise<void> {
     try {
       await fs.access(directory);
@@ -442,6 +1156,10 @@ export class FileSystemHelper implements PersistenceHelper {
     }
   }
 
+  private get archivedProjectsPath(): string {
+    return path.join(this.contextRoot, 'archived-projects');
+  }
+
   private async getProjectPath(projectName: string): Promise<string> {
     return path.join(this.contextRoot, 'projects', projectName);
   }
@@ -469,9 +1187,12 @@ export class FileSystemHelper implements PersistenceHelper {
     switch (contextTypeConfig.baseType) {
       case 'templated-single-document':
       case 'freeform-single-document':
+      case 'json-document':
+      case 'checklist':
         return path.join(projectPath, contextType, `${contextType}.md`);
       case 'templated-document-collection':
       case 'freeform-document-collection':
+      case 'json-document-collection':
         return path.join(projectPath, contextType, `${contextName}.md`);
       case 'templated-log':
       case 'freeform-log':
@@ -490,26 +1211,40 @@ export class FileSystemHelper implements PersistenceHelper {
       .filter((name): name is string => name !== undefined && name !== '');
   }
 
-  private timestamp(): string {
-    // Format: YYYY-MM-DDTHH-MM-ss-SSSZ (filesystem-friendly ISO 8601)
-    return DateTime.utc().toFormat('yyyy-MM-dd\'T\'HH-mm-ss-SSS\'Z\'');
+  // Creates a fresh snapshot directory. Two clears within the same millisecond would
+  // otherwise share a directory and the second would overwrite the first's files, so
+  // the timestamp is moved forward until it is unused. Callers hold the project lock.
+  private async newArchiveSnapshotDir(typeArchiveDir: string): Promise<string> {
+    let snapshotTime = DateTime.utc();
+    for (;;) {
+      const archiveDir = path.join(typeArchiveDir, timestamp(snapshotTime));
+      try {
+        await fs.mkdir(archiveDir);
+        return archiveDir;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        snapshotTime = snapshotTime.plus({ milliseconds: 1 });
+      }
+    }
   }
 
-  private generateTimestampedContextName(contextType: string): string {
-    return `${contextType}-${this.timestamp()}`;
+  // Log entries written within the same millisecond would share a file name, so the
+  // timestamp is moved forward until it is unused. Callers hold the project lock.
+  private async newLogEntryPath(typeDir: string, contextType: string, start: DateTime = DateTime.utc()): Promise<string> {
+    let entryTime = start;
+    for (;;) {
+      const filePath = path.join(typeDir, `${contextType}-${timestamp(entryTime)}.md`);
+      if (!(await this.fileExists(filePath))) {
+        return filePath;
+      }
+      entryTime = entryTime.plus({ milliseconds: 1 });
+    }
   }
 
-  private getDefaultConfig(): ProjectConfig {
-    return {
-      "contextTypes": [
-        {
-          "baseType": "freeform-document-collection",
-          "name": "general",
-          "description": "Arbitrary named contexts with no template requirements. Each document stored separately and requires a filename.",
-          "validation": false
-        }
-      ]
-    }
+  private generateTimestampedContextName(contextType: string): string {
+    return `${contextType}-${timestamp()}`;
   }
 
   private async listPathsForType(projectName: string, contextType: string): Promise<{ name: string; parentPath: string; isFile: () => boolean }[]> {
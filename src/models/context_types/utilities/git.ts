@@ -0,0 +1,322 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import fs from 'fs/promises';
+import { PersistenceResponse, ProjectConfig } from '../../../types.js';
+import { FileSystemHelper } from './fileSystem.js';
+import { currentTool } from './toolContext.js';
+import { withFileLock, withProjectLocks } from './locking.js';
+
+const execFileAsync = promisify(execFile);
+
+interface CommitDetails {
+  tool: string;
+  contextType?: string;      // Omitted for changes to the project as a whole
+  contextNames?: string[];
+  renamedTo?: string;        // New name of a renamed or restored project
+}
+
+// Keeps CONTEXT_ROOT/projects as a git repository and records every write and clear
+// as a commit, so the full history of what agents changed can be read with git log.
+// Storage layout and archiving are inherited unchanged from FileSystemHelper.
+export class GitFileSystemHelper extends FileSystemHelper {
+  private repositoryReady?: Promise<void>;
+  private identityArgs: string[] = [];
+
+  async listProjects(): Promise<PersistenceResponse> {
+    const result = await super.listProjects();
+    // The repository metadata lives alongside the projects but is not one
+    return result.success
+      ? { ...result, data: result.data?.filter(name => name !== '.git') }
+      : result;
+  }
+
+  async writeContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.writeContext(projectName, contextType, contextName, content);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, {
+        tool: currentTool() || 'update_context',
+        contextType,
+        contextNames: [contextName]
+      });
+    });
+  }
+
+  async clearContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.clearContext(projectName, contextType, contextNames);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, {
+        tool: currentTool() || 'clear_context',
+        contextType,
+        contextNames
+      });
+    });
+  }
+
+  async writeProjectConfig(projectName: string, config: ProjectConfig): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.writeProjectConfig(projectName, config);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, { tool: currentTool() || 'configure_context_type' });
+    });
+  }
+
+  async writeTemplate(projectName: string, templateName: string, content: string): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.writeTemplate(projectName, templateName, content);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, { tool: currentTool() || 'create_project' });
+    });
+  }
+
+  async writePrompt(projectName: string, promptName: string, content: string): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.writePrompt(projectName, promptName, content);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, { tool: currentTool() || 'create_project' });
+    });
+  }
+
+  async amendLogEntry(projectName: string, contextType: string, entryId: string, content: string): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.amendLogEntry(projectName, contextType, entryId, content);
+      if (!result.success) {
+        return result;
+      }
+
+      const committed = await this.commit(projectName, {
+        tool: currentTool() || 'update_context',
+        contextType,
+        contextNames: [entryId]
+      });
+      return committed.success ? result : committed;
+    });
+  }
+
+  async replaceContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.replaceContext(projectName, contextType, contextName, content);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, {
+        tool: currentTool() || 'update_context',
+        contextType,
+        contextNames: [contextName]
+      });
+    });
+  }
+
+  async pruneArchive(projectName: string, contextType?: string, dryRun: boolean = false): Promise<PersistenceResponse> {
+    if (dryRun) {
+      return super.pruneArchive(projectName, contextType, dryRun);
+    }
+
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.pruneArchive(projectName, contextType, dryRun);
+      if (!result.success) {
+        return result;
+      }
+
+      const committed = await this.commit(projectName, {
+        tool: currentTool() || 'prune_archive',
+        contextType: contextType || '(all)',
+        contextNames: ['archive']
+      });
+      return committed.success ? result : committed;
+    });
+  }
+
+  async restoreContext(projectName: string, contextType: string, snapshot: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.restoreContext(projectName, contextType, snapshot, contextNames);
+      if (!result.success) {
+        return result;
+      }
+
+      const committed = await this.commit(projectName, {
+        tool: currentTool() || 'restore_context',
+        contextType,
+        contextNames: result.data
+      });
+      return committed.success ? result : committed;
+    });
+  }
+
+  async renameProject(projectName: string, newProjectName: string): Promise<PersistenceResponse> {
+    return this.withCommitLock([projectName, newProjectName], async () => {
+      const result = await super.renameProject(projectName, newProjectName);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, { tool: currentTool() || 'rename_project', renamedTo: newProjectName });
+    });
+  }
+
+  // Archived projects live outside the repository, so the commit records the removal
+  // and the restore commit brings the files back
+  async archiveProject(projectName: string): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.archiveProject(projectName);
+      if (!result.success) {
+        return result;
+      }
+
+      const committed = await this.commit(projectName, { tool: currentTool() || 'archive_project' });
+      return committed.success ? result : committed;
+    });
+  }
+
+  async restoreProject(projectName: string, snapshot?: string, newProjectName?: string): Promise<PersistenceResponse> {
+    return this.withCommitLock([projectName, newProjectName ?? projectName], async () => {
+      const result = await super.restoreProject(projectName, snapshot, newProjectName);
+      if (!result.success) {
+        return result;
+      }
+
+      const committed = await this.commit(projectName, {
+        tool: currentTool() || 'restore_project',
+        renamedTo: newProjectName !== undefined && newProjectName !== projectName ? newProjectName : undefined
+      });
+      return committed.success ? result : committed;
+    });
+  }
+
+  async deleteProject(projectName: string): Promise<PersistenceResponse> {
+    return this.withCommitLock(projectName, async () => {
+      const result = await super.deleteProject(projectName);
+      if (!result.success) {
+        return result;
+      }
+
+      return this.commit(projectName, { tool: currentTool() || 'delete_project' });
+    });
+  }
+
+  get projectsPath(): string {
+    return path.join(this.contextRoot, 'projects');
+  }
+
+  private async commit(projectName: string, details: CommitDetails): Promise<PersistenceResponse> {
+    try {
+      await this.ensureRepository();
+
+      // A removed project that was never committed is unknown to git and can't be a pathspec
+      const pathspecs: string[] = [];
+      for (const name of [projectName, details.renamedTo]) {
+        if (name !== undefined && await this.isKnownPath(name)) {
+          pathspecs.push(name);
+        }
+      }
+      if (pathspecs.length === 0) {
+        return { success: true };
+      }
+
+      await this.git(['add', '--all', '--', ...pathspecs]);
+      const { stdout } = await this.git(['status', '--porcelain', '--', ...pathspecs]);
+      if (stdout.trim().length === 0) {
+        // Nothing changed on disk (e.g. clearing an already empty type)
+        return { success: true };
+      }
+
+      await this.git(['commit', '--quiet', '-m', this.commitMessage(projectName, details), '--', ...pathspecs]);
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [`Context was changed but could not be committed: ${errorMessage}`] };
+    }
+  }
+
+  private commitMessage(projectName: string, details: CommitDetails): string {
+    if (details.contextType === undefined) {
+      const renamed = details.renamedTo ? ` -> ${details.renamedTo}` : '';
+      return [
+        `${details.tool}: ${projectName}${renamed}`,
+        '',
+        `Project: ${projectName}`,
+        ...(details.renamedTo ? [`Renamed-To: ${details.renamedTo}`] : []),
+        `Tool: ${details.tool}`
+      ].join('\n');
+    }
+
+    const names = details.contextNames && details.contextNames.length > 0
+      ? details.contextNames.join(', ')
+      : '(all)';
+
+    return [
+      `${details.tool}: ${projectName}/${details.contextType}/${names}`,
+      '',
+      `Project: ${projectName}`,
+      `Context-Type: ${details.contextType}`,
+      `Context-Name: ${names}`,
+      `Tool: ${details.tool}`
+    ].join('\n');
+  }
+
+  private ensureRepository(): Promise<void> {
+    if (!this.repositoryReady) {
+      this.repositoryReady = (async (): Promise<void> => {
+        await fs.mkdir(this.projectsPath, { recursive: true });
+
+        try {
+          await fs.access(path.join(this.projectsPath, '.git'));
+        } catch {
+          await this.git(['init', '--quiet']);
+        }
+
+        // Fall back to a server identity when the user has not configured one
+        try {
+          await this.git(['config', 'user.email']);
+        } catch {
+          this.identityArgs = ['-c', 'user.name=shared-project-context', '-c', 'user.email=shared-project-context@localhost'];
+        }
+      })().catch(error => {
+        this.repositoryReady = undefined;
+        throw error;
+      });
+    }
+    return this.repositoryReady;
+  }
+
+  private async isKnownPath(name: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.projectsPath, name));
+      return true;
+    } catch {
+      const { stdout } = await this.git(['ls-files', '--', name]);
+      return stdout.trim().length > 0;
+    }
+  }
+
+  // A mutation and its commit run under the project lock(s) and then a repository-wide
+  // lock, always in that order, so a commit never picks up half of a concurrent change
+  // and processes never contend for the git index.
+  private withCommitLock<T>(projectNames: string | string[], operation: () => Promise<T>): Promise<T> {
+    return withProjectLocks(this, ([] as string[]).concat(projectNames), () =>
+      withFileLock(path.join(this.contextRoot, 'locks', '.repository.lock'), operation)
+    );
+  }
+
+  private async git(args: string[]): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync('git', [...this.identityArgs, '-C', this.projectsPath, ...args]);
+  }
+}
@@ -0,0 +1,165 @@
+import { createTwoFilesPatch, diffLines } from 'diff';
+import { DateTime } from 'luxon';
+import { ContextVersion, PersistenceHelper } from '../../../types.js';
+import { isLogType, parseTimestamp, storageName, timestampToISO } from './storage.js';
+import { splitSections } from './documentSections.js';
+
+export const CURRENT_VERSION = 'current';
+
+export type DiffFormat = 'unified' | 'sections';
+
+export interface HistoryResponse {
+  success: boolean;
+  versions?: ContextVersion[];
+  content?: string;
+  errors?: string[];
+}
+
+interface HistoryTarget {
+  contextName: string;  // Name to read the current version with
+  storedName: string;   // Name the archive stores the document under
+}
+
+// Builds the version history of a single document or collection entry from the
+// archive: every archived copy is a version that was current until its snapshot.
+export class ContextHistory {
+  private persistenceHelper: PersistenceHelper;
+  private projectName: string;
+
+  constructor(persistenceHelper: PersistenceHelper, projectName: string) {
+    this.persistenceHelper = persistenceHelper;
+    this.projectName = projectName;
+  }
+
+  // Newest first. With `since`, only versions that were still current at that time are listed.
+  async listVersions(contextType: string, contextName?: string, since?: string): Promise<HistoryResponse> {
+    const target = await this.resolveTarget(contextType, contextName);
+    if ('errors' in target) {
+      return { success: false, errors: target.errors };
+    }
+
+    let sinceTime: DateTime | undefined;
+    if (since !== undefined) {
+      sinceTime = DateTime.fromISO(since, { zone: 'utc' });
+      if (!sinceTime.isValid) {
+        return { success: false, errors: [`Invalid since '${since}'. Use an ISO 8601 date or time, e.g. 2025-06-01.`] };
+      }
+    }
+
+    const archives = await this.persistenceHelper.listArchives(this.projectName, contextType);
+    if (!archives.success || !archives.archives) {
+      return { success: false, errors: archives.errors || ['Failed to list archives'] };
+    }
+
+    const versions: ContextVersion[] = [];
+    const current = await this.persistenceHelper.getContext(this.projectName, contextType, [target.contextName]);
+    if (current.success && current.data?.[0] !== undefined) {
+      versions.push({ version: CURRENT_VERSION, replacedAt: null, size: Buffer.byteLength(current.data[0], 'utf-8') });
+    }
+
+    for (const archived of archives.archives.filter(archived => archived.name === target.storedName)) {
+      const replacedAt = parseTimestamp(archived.snapshot);
+      if (sinceTime && replacedAt && replacedAt < sinceTime) continue;
+      versions.push({ version: archived.snapshot, replacedAt: timestampToISO(archived.snapshot), size: archived.size });
+    }
+
+    if (versions.length === 0) {
+      return { success: false, errors: [`No versions of ${contextType}/${target.contextName} found`] };
+    }
+
+    return { success: true, versions };
+  }
+
+  async readVersion(contextType: string, contextName: string | undefined, version: string): Promise<HistoryResponse> {
+    const target = await this.resolveTarget(contextType, contextName);
+    if ('errors' in target) {
+      return { success: false, errors: target.errors };
+    }
+
+    const response = version === CURRENT_VERSION
+      ? await this.persistenceHelper.getContext(this.projectName, contextType, [target.contextName])
+      : await this.persistenceHelper.getArchivedContext(this.projectName, contextType, version, target.storedName);
+
+    if (!response.success || response.data?.[0] === undefined) {
+      return { success: false, errors: response.errors || [`Version '${version}' of ${contextType}/${target.contextName} not found`] };
+    }
+    return { success: true, content: response.data[0] };
+  }
+
+  async diff(contextType: string, contextName: string | undefined, from: string, to: string = CURRENT_VERSION, format: DiffFormat = 'unified'): Promise<HistoryResponse> {
+    const [fromVersion, toVersion] = await Promise.all([
+      this.readVersion(contextType, contextName, from),
+      this.readVersion(contextType, contextName, to)
+    ]);
+    if (!fromVersion.success || !toVersion.success) {
+      return { success: false, errors: [...(fromVersion.errors || []), ...(toVersion.errors || [])] };
+    }
+
+    const label = contextName || contextType;
+    if (fromVersion.content === toVersion.content) {
+      return { success: true, content: `No differences between ${label}@${from} and ${label}@${to}.` };
+    }
+
+    const content = format === 'sections'
+      ? sectionDiff(fromVersion.content!, toVersion.content!, `${label}@${from}`, `${label}@${to}`)
+      : createTwoFilesPatch(`${label}@${from}`, `${label}@${to}`, fromVersion.content!, toVersion.content!, undefined, undefined, { context: 3 });
+
+    return { success: true, content };
+  }
+
+  private async resolveTarget(contextType: string, contextName?: string): Promise<HistoryTarget | { errors: string[] }> {
+    const response = await this.persistenceHelper.getProjectConfig(this.projectName);
+    if (!response.success || !response.config) {
+      return { errors: response.errors || ['Failed to load project configuration'] };
+    }
+
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+    if (!contextTypeConfig) {
+      return { errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    if (isLogType(contextTypeConfig)) {
+      return { errors: [`${contextType} is a log. Log entries are never replaced, so they have no version history.`] };
+    }
+
+    if (contextTypeConfig.baseType.endsWith('-collection') && !contextName) {
+      return { errors: [`context_name is required for document collection '${contextType}'`] };
+    }
+
+    const name = contextName || contextType;
+    return { contextName: name, storedName: storageName(contextTypeConfig, name) };
+  }
+}
+
+// Summarizes which markdown sections were added, removed or changed, with the
+// changed lines of each changed section.
+export function sectionDiff(from: string, to: string, fromLabel: string, toLabel: string): string {
+  const before = new Map(splitSections(from).map(section => [section.key, section]));
+  const after = new Map(splitSections(to).map(section => [section.key, section]));
+  const heading = (key: string): string => key ? `\`${key}\`` : '(text before the first heading)';
+  const lines = [`# Section changes from ${fromLabel} to ${toLabel}`, ''];
+
+  const added = [...after.keys()].filter(key => !before.has(key));
+  const removed = [...before.keys()].filter(key => !after.has(key));
+  const changed = [...after.keys()].filter(key => before.has(key) && before.get(key)!.content !== after.get(key)!.content);
+
+  if (added.length > 0) {
+    lines.push('## Added', ...added.map(key => `- ${heading(key)}`), '');
+  }
+  if (removed.length > 0) {
+    lines.push('## Removed', ...removed.map(key => `- ${heading(key)}`), '');
+  }
+  if (changed.length > 0) {
+    lines.push('## Changed');
+    for (const key of changed) {
+      const changes = diffLines(before.get(key)!.content, after.get(key)!.content)
+        .filter(change => change.added || change.removed)
+        .flatMap(change => change.value.replace(/\n$/, '').split('\n').map(line => `${change.added ? '+' : '-'} ${line}`));
+      lines.push(`### ${heading(key)}`, '```diff', ...changes, '```', '');
+    }
+  }
+
+  const unchanged = after.size - added.length - changed.length;
+  lines.push(`${unchanged} section(s) unchanged.`);
+  return lines.join('\n');
+}
@@ -0,0 +1,178 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as os from 'os';
+import * as path from 'path';
+import fs from 'fs/promises';
+import { PersistenceHelper } from '../../../types.js';
+
+export interface FileLockOptions {
+  timeoutMs?: number;  // How long to wait for another holder before giving up
+  staleMs?: number;    // A lock whose heartbeat is older than this is considered abandoned
+  retryMs?: number;    // Delay between attempts while the lock is held elsewhere
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+const DEFAULT_OPTIONS: Required<FileLockOptions> = {
+  timeoutMs: 10000,
+  staleMs: 30000,
+  retryMs: 50
+};
+
+// Locks held by the current async call chain. Nested calls for a lock that is
+// already held (e.g. writeContext inside a single-document update) run straight through.
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+// Waiters within this process queue up here instead of polling their own lock file.
+const localQueues = new Map<string, Promise<unknown>>();
+
+// Serializes operations on `key` within this process. Reentrant for the current call chain.
+export async function withLocalLock<T>(key: string, operation: () => Promise<T>): Promise<T> {
+  const held = heldLocks.getStore();
+  if (held?.has(key)) {
+    return operation();
+  }
+
+  const previous = localQueues.get(key) || Promise.resolve();
+  const run = previous.then(
+    () => heldLocks.run(new Set([...(held || []), key]), operation)
+  );
+  const settled = run.catch(() => undefined);
+  localQueues.set(key, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (localQueues.get(key) === settled) {
+      localQueues.delete(key);
+    }
+  }
+}
+
+// Holds the locks of several projects at once. They are always taken in name order, so
+// two operations on the same pair of projects cannot each wait for the other's lock.
+export async function withProjectLocks<T>(helper: PersistenceHelper, projectNames: string[], operation: () => Promise<T>): Promise<T> {
+  const [first, ...rest] = Array.from(new Set(projectNames)).sort();
+  if (first === undefined) {
+    return operation();
+  }
+  return helper.withProjectLock(first, () => withProjectLocks(helper, rest, operation));
+}
+
+// The lock file of a project in CONTEXT_ROOT/locks. Project names are encoded, so a name
+// containing `/` or `..` can't place the lock, or remove a stale one, outside that directory.
+export function projectLockPath(contextRoot: string, projectName: string): string {
+  return path.join(contextRoot, 'locks', `${encodeURIComponent(projectName)}.lock`);
+}
+
+// Serializes operations on `lockPath` across processes using an exclusively created
+// lock file. The holder refreshes the file's mtime while it works; a lock file that
+// stops being refreshed, or whose owning process is gone, is treated as stale.
+export async function withFileLock<T>(lockPath: string, operation: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+
+  if (heldLocks.getStore()?.has(lockPath)) {
+    return operation();
+  }
+
+  return withLocalLock(lockPath, async () => {
+    await acquireLockFile(lockPath, settings);
+
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(lockPath, now, now).catch(() => undefined);
+    }, Math.max(settings.staleMs / 3, 10));
+    heartbeat.unref();
+
+    try {
+      return await operation();
+    } finally {
+      clearInterval(heartbeat);
+      await fs.unlink(lockPath).catch(() => undefined);
+    }
+  });
+}
+
+async function acquireLockFile(lockPath: string, settings: Required<FileLockOptions>): Promise<void> {
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  const startedAt = Date.now();
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+      await handle.writeFile(JSON.stringify(owner));
+      await handle.close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (await removeIfStale(lockPath, settings.staleMs)) {
+      continue;
+    }
+
+    if (Date.now() - startedAt > settings.timeoutMs) {
+      const owner = await readOwner(lockPath);
+      const holder = owner ? ` held by process ${owner.pid} on ${owner.hostname} since ${owner.acquiredAt}` : '';
+      throw new Error(`Timed out waiting for lock ${lockPath}${holder}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, settings.retryMs));
+  }
+}
+
+async function removeIfStale(lockPath: string, staleMs: number): Promise<boolean> {
+  let stats;
+  try {
+    stats = await fs.stat(lockPath);
+  } catch (error) {
+    // Released between our attempt and the check; try again straight away
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+
+  const owner = await readOwner(lockPath);
+  const heartbeatExpired = Date.now() - stats.mtimeMs > staleMs;
+  const ownerGone = owner !== null && owner.hostname === os.hostname() && !processIsAlive(owner.pid);
+
+  if (!heartbeatExpired && !ownerGone) {
+    return false;
+  }
+
+  // Only remove the exact file we judged stale, not a fresh lock created since
+  try {
+    const current = await fs.stat(lockPath);
+    if (current.ino !== stats.ino || current.mtimeMs !== stats.mtimeMs) {
+      return false;
+    }
+    await fs.unlink(lockPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  return true;
+}
+
+async function readOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    return JSON.parse(await fs.readFile(lockPath, 'utf-8')) as LockOwner;
+  } catch {
+    // Missing, or still being written by its creator
+    return null;
+  }
+}
+
+function processIsAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
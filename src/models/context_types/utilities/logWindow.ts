@@ -0,0 +1,79 @@
+import { DateTime } from 'luxon';
+import { ContextEntry, LogWindow, PersistenceHelper } from '../../../types.js';
+import { isLogEntryName, logEntryTime } from './storage.js';
+
+export interface LogPage {
+  success: boolean;
+  entries?: ContextEntry[];  // Newest first
+  hasMore?: boolean;
+  nextCursor?: string;
+  errors?: string[];
+}
+
+export function validateLogWindow(contextType: string, window: LogWindow): string[] {
+  const errors: string[] = [];
+  const since = window.since !== undefined ? parseWindowTime(window.since) : null;
+  const until = window.until !== undefined ? parseWindowTime(window.until) : null;
+
+  if (window.since !== undefined && !since) {
+    errors.push(`since must be an ISO 8601 time such as 2025-01-31 or 2025-01-31T12:00:00Z, got '${window.since}'`);
+  }
+  if (window.until !== undefined && !until) {
+    errors.push(`until must be an ISO 8601 time such as 2025-01-31 or 2025-01-31T12:00:00Z, got '${window.until}'`);
+  }
+  if (since && until && since >= until) {
+    errors.push(`since (${window.since}) must be earlier than until (${window.until})`);
+  }
+  if (window.limit !== undefined && (!Number.isInteger(window.limit) || window.limit < 1)) {
+    errors.push(`limit must be a positive integer, got ${window.limit}`);
+  }
+  if (window.cursor !== undefined && !isLogEntryName(contextType, window.cursor)) {
+    errors.push(`cursor '${window.cursor}' is not a ${contextType} entry. Pass the nextCursor from a previous get_context response.`);
+  }
+
+  return errors;
+}
+
+// Picks the page of `entries` (newest first) that `window` asks for. The cursor is the
+// name of the last entry on the previous page, so later writes never shift the pages
+// that follow it.
+export function selectLogEntries(contextType: string, entries: ContextEntry[], window: LogWindow): LogPage {
+  const since = window.since !== undefined ? parseWindowTime(window.since) : null;
+  const until = window.until !== undefined ? parseWindowTime(window.until) : null;
+
+  const inWindow = entries.filter(entry => {
+    const writtenAt = logEntryTime(contextType, entry.name);
+    return (!since || writtenAt >= since)
+      && (!until || writtenAt < until)
+      && (window.cursor === undefined || entry.name < window.cursor);
+  });
+
+  const page = window.limit !== undefined ? inWindow.slice(0, window.limit) : inWindow;
+  const hasMore = page.length < inWindow.length;
+
+  return {
+    success: true,
+    entries: page,
+    hasMore,
+    nextCursor: hasMore ? page[page.length - 1].name : undefined
+  };
+}
+
+export async function readLogWindow(persistenceHelper: PersistenceHelper, projectName: string, contextType: string, window: LogWindow): Promise<LogPage> {
+  const errors = validateLogWindow(contextType, window);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const result = await persistenceHelper.listContextEntries(projectName, contextType);
+  if (!result.success) {
+    return { success: false, errors: result.errors };
+  }
+
+  return selectLogEntries(contextType, result.entries || [], window);
+}
+
+function parseWindowTime(value: string): DateTime | null {
+  const time = DateTime.fromISO(value, { zone: 'utc' });
+  return time.isValid ? time : null;
+}
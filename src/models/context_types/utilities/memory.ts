@@ -0,0 +1,569 @@
+import { ArchivedProject, PersistenceHelper, ProjectConfig } from '../../../types.js';
+import { PersistenceResponse } from '../../../types.js';
+import {
+  archiveSnapshotNotFound,
+  archivedContextNotFound,
+  archivedProjectNotFound,
+  emptyPruneResult,
+  getDefaultConfig,
+  isLogType,
+  logEntryNotFound,
+  logEntryTime,
+  matchesContextNames,
+  notADocumentType,
+  notALogType,
+  planRetention,
+  projectAlreadyExists,
+  projectNotFound,
+  promptsNotStored,
+  readDefaultTemplate,
+  resolveArchivePolicy,
+  sortArchiveEntries,
+  sortArchivedProjects,
+  storageName,
+  successiveTimestamps,
+  templateNotFound,
+  timestampedContextNames
+} from './storage.js';
+import { withLocalLock, withProjectLocks } from './locking.js';
+import { validateProjectConfig } from './configSchema.js';
+
+interface ArchivedContext {
+  contextType: string;
+  snapshot: string;
+  name: string;
+  content: string;
+}
+
+interface MemoryProject {
+  config?: ProjectConfig;
+  contexts: Map<string, Map<string, string>>; // contextType -> name -> content
+  archives: ArchivedContext[];
+  templates: Map<string, string>;
+}
+
+interface ArchivedMemoryProject extends ArchivedProject {
+  project: MemoryProject;
+}
+
+// Keeps every project in process memory. Nothing survives a restart, which makes
+// it suitable for ephemeral sessions and for trying out configurations.
+export class MemoryHelper implements PersistenceHelper {
+  private projects: Map<string, MemoryProject> = new Map();
+  private archivedProjects: ArchivedMemoryProject[] = [];
+
+  async initProject(projectName: string): Promise<PersistenceResponse> {
+    if (this.projects.has(projectName)) {
+      return {
+        success: false,
+        errors: [`Project '${projectName}' already exists.`]
+      };
+    }
+
+    this.projects.set(projectName, { contexts: new Map(), archives: [], templates: new Map() });
+    return { success: true };
+  }
+
+  async listProjects(): Promise<PersistenceResponse> {
+    return { success: true, data: Array.from(this.projects.keys()) };
+  }
+
+  async renameProject(projectName: string, newProjectName: string): Promise<PersistenceResponse> {
+    return withProjectLocks(this, [projectName, newProjectName], async () => {
+      const project = this.projects.get(projectName);
+      if (!project) {
+        return { success: false, errors: [projectNotFound(projectName)] };
+      }
+      if (this.projects.has(newProjectName)) {
+        return { success: false, errors: [projectAlreadyExists(newProjectName)] };
+      }
+
+      this.projects.delete(projectName);
+      this.projects.set(newProjectName, project);
+      return { success: true };
+    });
+  }
+
+  async archiveProject(projectName: string): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      const project = this.projects.get(projectName);
+      if (!project) {
+        return { success: false, errors: [projectNotFound(projectName)] };
+      }
+
+      let snapshot = '';
+      for (snapshot of successiveTimestamps()) {
+        if (!this.archivedProjects.some(archived => archived.projectName === projectName && archived.snapshot === snapshot)) break;
+      }
+
+      this.archivedProjects.push({ projectName, snapshot, project });
+      this.projects.delete(projectName);
+      return { success: true, data: [snapshot] };
+    });
+  }
+
+  async listArchivedProjects(): Promise<PersistenceResponse> {
+    const archivedProjects = this.archivedProjects.map(({ projectName, snapshot }) => ({ projectName, snapshot }));
+    return { success: true, archivedProjects: sortArchivedProjects(archivedProjects) };
+  }
+
+  async restoreProject(projectName: string, snapshot?: string, newProjectName?: string): Promise<PersistenceResponse> {
+    const targetName = newProjectName ?? projectName;
+
+    return withProjectLocks(this, [projectName, targetName], async () => {
+      const candidates = this.archivedProjects
+        .filter(archived => archived.projectName === projectName && (snapshot === undefined || archived.snapshot === snapshot))
+        .sort((a, b) => b.snapshot.localeCompare(a.snapshot));
+      const archived = candidates[0];
+      if (!archived) {
+        return { success: false, errors: [archivedProjectNotFound(projectName, snapshot)] };
+      }
+
+      if (this.projects.has(targetName)) {
+        return {
+          success: false,
+          errors: [`${projectAlreadyExists(targetName)} Restore it under a different name with new_project_name.`]
+        };
+      }
+
+      this.projects.set(targetName, archived.project);
+      this.archivedProjects = this.archivedProjects.filter(other => other !== archived);
+      return { success: true, data: [targetName] };
+    });
+  }
+
+  async deleteProject(projectName: string): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      if (!this.projects.delete(projectName)) {
+        return { success: false, errors: [projectNotFound(projectName)] };
+      }
+      return { success: true };
+    });
+  }
+
+  async getContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`getContext: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    const typeContexts = this.contextsForType(projectName, contextType);
+    let entries: [string, string][];
+
+    if (contextNames) {
+      entries = [];
+      const errors: string[] = [];
+      for (const name of contextNames) {
+        const key = storageName(contextTypeConfig, name);
+        const content = typeContexts.get(key);
+        if (content === undefined) {
+          errors.push(`${contextTypeConfig.name}: Context not found. Have you created it using create_context yet?`);
+        } else {
+          entries.push([key, content]);
+        }
+      }
+
+      if (errors.length > 0) {
+        return { success: false, errors };
+      }
+    } else {
+      entries = Array.from(typeContexts.entries());
+    }
+
+    // Newest log entries first, matching the file name ordering of FileSystemHelper
+    const data = entries
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([, content]) => content);
+
+    return { success: true, data };
+  }
+
+  async listContextEntries(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`listContextEntries: Failed to load project configuration.`] };
+    }
+
+    if (!response.config.contextTypes.some(ct => ct.name === contextType)) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    const entries = Array.from(this.contextsForType(projectName, contextType).entries())
+      .map(([name, content]) => ({ name, content }))
+      .sort((a, b) => b.name.localeCompare(a.name));
+    return { success: true, entries };
+  }
+
+  async writeContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`WriteContext: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    const typeContexts = this.contextsForType(projectName, contextType);
+    let name = storageName(contextTypeConfig, contextName);
+    if (isLogType(contextTypeConfig)) {
+      for (name of timestampedContextNames(contextType)) {
+        if (!typeContexts.has(name)) break;
+      }
+    }
+
+    typeContexts.set(name, content);
+    return { success: true };
+  }
+
+  async getTemplate(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`getTemplate: Failed to load project configuration.`] };
+    }
+
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    const templates = this.projects.get(projectName)!.templates;
+    const templateName = contextTypeConfig.template || contextType;
+    const template = templates.get(templateName);
+    if (template !== undefined) {
+      return { success: true, data: [template] };
+    }
+
+    // Project template doesn't exist, initialize it from repository default
+    try {
+      const defaultTemplateContent = await readDefaultTemplate(templateName);
+      templates.set(templateName, defaultTemplateContent);
+      return { success: true, data: [defaultTemplateContent] };
+    } catch (repositoryError) {
+      return {
+        success: false,
+        errors: [`Failed to load or initialize template for ${contextType}: ${repositoryError instanceof Error ? repositoryError.message : 'Unknown error'}`]
+      };
+    }
+  }
+
+  async getNamedTemplate(projectName: string, templateName: string): Promise<PersistenceResponse> {
+    const project = this.projects.get(projectName);
+    if (!project) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    const template = project.templates.get(templateName);
+    if (template !== undefined) {
+      return { success: true, data: [template] };
+    }
+    try {
+      return { success: true, data: [await readDefaultTemplate(templateName)] };
+    } catch {
+      return { success: false, errors: [templateNotFound(templateName)] };
+    }
+  }
+
+  async writeTemplate(projectName: string, templateName: string, content: string): Promise<PersistenceResponse> {
+    const project = this.projects.get(projectName);
+    if (!project) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    project.templates.set(templateName, content);
+    return { success: true };
+  }
+
+  // Prompt files live on disk, so projects held in memory have none of their own
+  async listPrompts(projectName: string): Promise<PersistenceResponse> {
+    if (!this.projects.has(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+    return { success: true, prompts: [] };
+  }
+
+  async writePrompt(projectName: string): Promise<PersistenceResponse> {
+    return { success: false, errors: [promptsNotStored(projectName)] };
+  }
+
+  // Cleared contexts are kept in an in-memory archive for the life of the process
+  async clearContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`archiveContext: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    const project = this.projects.get(projectName)!;
+    const typeContexts = this.contextsForType(projectName, contextType);
+    const snapshot = this.newArchiveSnapshot(projectName, contextType);
+
+    for (const [name, content] of Array.from(typeContexts.entries())) {
+      if (matchesContextNames(contextTypeConfig, name, contextNames)) {
+        project.archives.push({ contextType, snapshot, name, content });
+        typeContexts.delete(name);
+      }
+    }
+
+    return { success: true };
+  }
+
+  async amendLogEntry(projectName: string, contextType: string, entryId: string, content: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`amendLogEntry: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    if (!isLogType(contextTypeConfig)) {
+      return { success: false, errors: [notALogType(contextType)] };
+    }
+
+    const typeContexts = this.contextsForType(projectName, contextType);
+    const original = typeContexts.get(entryId);
+    if (original === undefined) {
+      return { success: false, errors: [logEntryNotFound(contextType, entryId)] };
+    }
+
+    this.projects.get(projectName)!.archives.push({ contextType, snapshot: this.newArchiveSnapshot(projectName, contextType), name: entryId, content: original });
+    typeContexts.set(entryId, content);
+
+    return { success: true };
+  }
+
+  async replaceContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`replaceContext: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    if (isLogType(contextTypeConfig)) {
+      return { success: false, errors: [notADocumentType(contextType)] };
+    }
+
+    const typeContexts = this.contextsForType(projectName, contextType);
+    const name = storageName(contextTypeConfig, contextName);
+    const current = typeContexts.get(name);
+    if (current !== undefined) {
+      this.projects.get(projectName)!.archives.push({ contextType, snapshot: this.newArchiveSnapshot(projectName, contextType), name, content: current });
+    }
+    typeContexts.set(name, content);
+
+    return { success: true };
+  }
+
+  // Only retention applies here; compression and deduplication are filesystem features
+  async pruneArchive(projectName: string, contextType?: string, dryRun: boolean = false): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`pruneArchive: Failed to load project configuration.`, ...(response.errors || [])] };
+    }
+
+    const project = this.projects.get(projectName)!;
+    const result = emptyPruneResult(dryRun);
+    const contextTypes = contextType
+      ? [contextType]
+      : Array.from(new Set(project.archives.map(archived => archived.contextType)));
+
+    for (const type of contextTypes) {
+      const snapshots = new Set(project.archives.filter(archived => archived.contextType === type).map(archived => archived.snapshot));
+      result.removed.push(...planRetention(type, Array.from(snapshots), resolveArchivePolicy(response.config, type)));
+    }
+
+    if (!dryRun) {
+      project.archives = project.archives.filter(archived =>
+        !result.removed.some(pruned => pruned.contextType === archived.contextType && pruned.snapshot === archived.snapshot)
+      );
+    }
+
+    return { success: true, prune: result };
+  }
+
+  async listArchives(projectName: string, contextType?: string): Promise<PersistenceResponse> {
+    const project = this.projects.get(projectName);
+    if (!project) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    const archives = project.archives
+      .filter(archived => contextType === undefined || archived.contextType === contextType)
+      .map(({ contextType, snapshot, name, content }) => ({
+        contextType, snapshot, name, size: Buffer.byteLength(content, 'utf-8')
+      }));
+
+    return { success: true, archives: sortArchiveEntries(archives) };
+  }
+
+  async getArchivedContext(projectName: string, contextType: string, snapshot: string, contextName: string): Promise<PersistenceResponse> {
+    const project = this.projects.get(projectName);
+    if (!project) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    const archived = project.archives.find(archived =>
+      archived.contextType === contextType && archived.snapshot === snapshot && archived.name === contextName
+    );
+    if (!archived) {
+      return { success: false, errors: [archivedContextNotFound(contextType, snapshot, contextName)] };
+    }
+    return { success: true, data: [archived.content] };
+  }
+
+  // Same semantics as FileSystemHelper.restoreContext: replaced documents are archived
+  // first and log entries are merged back under their original names.
+  async restoreContext(projectName: string, contextType: string, snapshot: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`restoreContext: Failed to load project configuration.`, ...(response.errors || [])] };
+      }
+      const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+      if (!contextTypeConfig) {
+        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+      }
+
+      const snapshotEntries = this.projects.get(projectName)!.archives
+        .filter(archived => archived.contextType === contextType && archived.snapshot === snapshot);
+      if (snapshotEntries.length === 0) {
+        return { success: false, errors: [archiveSnapshotNotFound(contextType, snapshot)] };
+      }
+
+      const entries = snapshotEntries
+        .filter(archived => matchesContextNames(contextTypeConfig, archived.name, contextNames))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      if (entries.length === 0) {
+        return { success: false, errors: [archivedContextNotFound(contextType, snapshot, contextNames?.join(', ') || '')] };
+      }
+
+      const typeContexts = this.contextsForType(projectName, contextType);
+      const existing = entries.map(archived => archived.name).filter(name => typeContexts.has(name));
+
+      if (!isLogType(contextTypeConfig) && existing.length > 0) {
+        await this.clearContext(projectName, contextType, existing);
+      }
+
+      const restored: string[] = [];
+      for (const archived of entries) {
+        let name = archived.name;
+        if (isLogType(contextTypeConfig) && typeContexts.has(name)) {
+          if (typeContexts.get(name) === archived.content) continue;
+          // A different entry written in the same millisecond took the name; keep both
+          for (name of timestampedContextNames(contextType, logEntryTime(contextType, archived.name))) {
+            if (!typeContexts.has(name)) break;
+          }
+        }
+        typeContexts.set(name, archived.content);
+        restored.push(name);
+      }
+
+      return { success: true, data: restored };
+    });
+  }
+
+  // In-memory projects have no CONTEXT_ROOT to inherit a default config from, so the
+  // effective config is the project's own
+  async getProjectConfig(projectName: string): Promise<PersistenceResponse> {
+    return this.getOwnProjectConfig(projectName);
+  }
+
+  async getGlobalDefaultConfig(): Promise<PersistenceResponse> {
+    return { success: true };
+  }
+
+  async getOwnProjectConfig(projectName: string): Promise<PersistenceResponse> {
+    const project = this.projects.get(projectName);
+    if (!project) {
+      return { success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`] };
+    }
+
+    if (!project.config) {
+      project.config = getDefaultConfig();
+    }
+
+    return { success: true, config: project.config };
+  }
+
+  async writeProjectConfig(projectName: string, config: ProjectConfig): Promise<PersistenceResponse> {
+    const problems = await validateProjectConfig(config);
+    if (problems.length > 0) {
+      return { success: false, errors: [`Invalid config: ${problems.join('; ')}`] };
+    }
+
+    const project = this.projects.get(projectName);
+    if (!project) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    project.config = config;
+    return { success: true };
+  }
+
+  async listAllContextForType(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    const configResponse = await this.getProjectConfig(projectName);
+    if (!configResponse.success || !configResponse.config) {
+      return { success: false, errors: ['Failed to load project configuration'] };
+    }
+
+    const contextTypeConfig = configResponse.config.contextTypes.find(ct => ct.name === contextType);
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    // For collection types, return the stored document names
+    if (contextTypeConfig.baseType.endsWith('-collection')) {
+      return { success: true, data: Array.from(this.contextsForType(projectName, contextType).keys()).sort() };
+    }
+
+    // For single-document and log types, return just the context type name
+    return { success: true, data: [contextType] };
+  }
+
+  // Only this process can see the data, so an in-process lock is sufficient
+  async withProjectLock<T>(projectName: string, operation: () => Promise<T>): Promise<T> {
+    return withLocalLock(`memory:${projectName}`, operation);
+  }
+
+  // The first snapshot from now on that holds nothing of the context type yet, so archiving
+  // calls within the same millisecond don't end up in one snapshot
+  private newArchiveSnapshot(projectName: string, contextType: string): string {
+    const archives = this.projects.get(projectName)!.archives;
+    let snapshot = '';
+    for (snapshot of successiveTimestamps()) {
+      if (!archives.some(archived => archived.contextType === contextType && archived.snapshot === snapshot)) break;
+    }
+    return snapshot;
+  }
+
+  private contextsForType(projectName: string, contextType: string): Map<string, string> {
+    const contexts = this.projects.get(projectName)!.contexts;
+    if (!contexts.has(contextType)) {
+      contexts.set(contextType, new Map());
+    }
+    return contexts.get(contextType)!;
+  }
+}
@@ -0,0 +1,42 @@
+import { PersistenceHelper } from '../../../types.js';
+import { FileSystemHelper } from './fileSystem.js';
+import { GitFileSystemHelper } from './git.js';
+import { MemoryHelper } from './memory.js';
+import { SqliteHelper } from './sqlite.js';
+import { defaultContextRoot, loadSettings } from './settings.js';
+
+type PersistenceHelperConstructor = new (contextRoot: string) => PersistenceHelper;
+
+const DEFAULT_BACKEND = 'filesystem';
+
+const backendMap = new Map<string, PersistenceHelperConstructor>([
+  ['filesystem', FileSystemHelper],
+  ['git', GitFileSystemHelper],
+  ['sqlite', SqliteHelper],
+  ['memory', MemoryHelper]
+]);
+
+export function registerPersistenceBackend(name: string, backend: PersistenceHelperConstructor): void {
+  backendMap.set(name, backend);
+}
+
+export function availablePersistenceBackends(): string[] {
+  return Array.from(backendMap.keys());
+}
+
+// The backend is chosen by the CONTEXT_BACKEND environment variable, then by the
+// "backend" key of CONTEXT_ROOT/settings.json, and defaults to the filesystem.
+export function resolvePersistenceBackend(contextRoot: string = defaultContextRoot()): string {
+  return process.env.CONTEXT_BACKEND || loadSettings(contextRoot).backend || DEFAULT_BACKEND;
+}
+
+export function createPersistenceHelper(contextRoot: string = defaultContextRoot()): PersistenceHelper {
+  const backend = resolvePersistenceBackend(contextRoot);
+  const Backend = backendMap.get(backend);
+
+  if (!Backend) {
+    throw new Error(`Unknown persistence backend: ${backend}. Available backends: ${availablePersistenceBackends().join(', ')}`);
+  }
+
+  return new Backend(contextRoot);
+}
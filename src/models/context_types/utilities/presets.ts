@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import * as path from 'path';
+import { PersistenceHelper, ProjectConfig, PromptFile } from '../../../types.js';
+import { validateProjectConfig } from './configSchema.js';
+import { readPromptFiles } from './prompts.js';
+import { isLogType, packageRoot, readDefaultTemplate, storageName } from './storage.js';
+
+// A preset is a directory a new project is initialized from:
+//
+//   <name>/
+//     preset.json          (optional) { "description": "..." }
+//     project-config.json  The project's config
+//     templates/*.md       Templates the config refers to that the package doesn't provide,
+//                          or that replace the package's
+//     prompts/*.md         Prompts of the project
+//     seed/<type>/<name>.md  Documents the project starts with
+//
+// The built-in presets ship in the package's presets directory; the user's own live in
+// the presets directory of the settings and shadow built-in presets of the same name.
+
+export type PresetSource = 'user' | 'built-in';
+
+export interface PresetSummary {
+  name: string;
+  description: string | null;
+  source: PresetSource;
+}
+
+export interface SeedDocument {
+  contextType: string;
+  contextName: string;
+  content: string;
+}
+
+export interface Preset extends PresetSummary {
+  config: ProjectConfig;
+  templates: PromptFile[];
+  prompts: PromptFile[];
+  seeds: SeedDocument[];
+}
+
+const PRESET_CONFIG_FILE = 'project-config.json';
+
+export function builtInPresetsDir(): string {
+  return path.join(packageRoot(), 'presets');
+}
+
+export async function listPresets(userPresetsDir: string): Promise<PresetSummary[]> {
+  const presets = new Map<string, PresetSummary>();
+  for (const [directory, source] of presetDirectories(userPresetsDir)) {
+    for (const name of await presetNames(directory)) {
+      if (!presets.has(name)) {
+        presets.set(name, { name, description: await readDescription(path.join(directory, name)), source });
+      }
+    }
+  }
+  return [...presets.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Throws when the preset doesn't exist or its files are unusable, before anything is written
+export async function readPreset(name: string, userPresetsDir: string): Promise<Preset> {
+  // Only names found by listing the presets directories are looked up, never arbitrary paths
+  const found = await findPreset(name, userPresetsDir);
+  if (!found) {
+    const available = (await listPresets(userPresetsDir)).map(preset => preset.name);
+    throw new Error(`Preset '${name}' not found. Available presets: ${available.join(', ') || 'none'}`);
+  }
+  const [directory, source] = found;
+
+  let parsed: ProjectConfig & { $schema?: string };
+  try {
+    parsed = JSON.parse(await fs.readFile(path.join(directory, PRESET_CONFIG_FILE), 'utf-8'));
+  } catch (error) {
+    throw new Error(`Error reading ${PRESET_CONFIG_FILE} of preset '${name}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const problems = await validateProjectConfig(parsed);
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${PRESET_CONFIG_FILE} in preset '${name}': ${problems.join('; ')}`);
+  }
+  // The schema reference is relative to the preset, not to the project it is copied into
+  const config: ProjectConfig = Object.fromEntries(Object.entries(parsed).filter(([key]) => key !== '$schema')) as ProjectConfig;
+
+  // Templates the preset doesn't bring are read from the package's templates, as for any project
+  const templates = await readPromptFiles(path.join(directory, 'templates'));
+  const missingTemplates: string[] = [];
+  for (const templateName of new Set(config.contextTypes.flatMap(ct => (ct.template ? [ct.template] : [])))) {
+    if (!templates.some(template => template.name === templateName) && !(await hasPackageTemplate(templateName))) {
+      missingTemplates.push(templateName);
+    }
+  }
+  if (missingTemplates.length > 0) {
+    throw new Error(`Preset '${name}' refers to templates that neither it nor the package provides: ${missingTemplates.join(', ')}`);
+  }
+
+  const seeds = await readSeeds(path.join(directory, 'seed'));
+  const unknownTypes = [...new Set(seeds.map(seed => seed.contextType))]
+    .filter(contextType => !config.contextTypes.some(ct => ct.name === contextType));
+  if (unknownTypes.length > 0) {
+    throw new Error(`Preset '${name}' seeds context types its config doesn't define: ${unknownTypes.join(', ')}`);
+  }
+
+  return {
+    name,
+    description: await readDescription(directory),
+    source,
+    config,
+    templates,
+    prompts: await readPromptFiles(path.join(directory, 'prompts')),
+    seeds
+  };
+}
+
+// Writes the preset into a freshly initialized project. Prompts the backend can't
+// store are reported as warnings; any other failure stops the initialization.
+export async function applyPreset(persistenceHelper: PersistenceHelper, projectName: string, preset: Preset): Promise<{ success: boolean; errors?: string[]; warnings: string[] }> {
+  const warnings: string[] = [];
+
+  // Templates first, so the config never refers to a template the project lacks
+  for (const template of preset.templates) {
+    const result = await persistenceHelper.writeTemplate(projectName, template.name, template.content);
+    if (!result.success) {
+      return { success: false, errors: result.errors, warnings };
+    }
+  }
+
+  const configResult = await persistenceHelper.writeProjectConfig(projectName, preset.config);
+  if (!configResult.success) {
+    return { success: false, errors: configResult.errors, warnings };
+  }
+
+  for (const prompt of preset.prompts) {
+    const result = await persistenceHelper.writePrompt(projectName, prompt.name, prompt.content);
+    if (!result.success) {
+      warnings.push(...(result.errors || [`Prompt '${prompt.name}' was not stored`]));
+    }
+  }
+
+  for (const seed of preset.seeds) {
+    const typeConfig = preset.config.contextTypes.find(ct => ct.name === seed.contextType)!;
+    // A log seed becomes its first entry; single documents are stored under the type name
+    const contextName = isLogType(typeConfig) ? typeConfig.name : storageName(typeConfig, seed.contextName);
+    const result = await persistenceHelper.writeContext(projectName, seed.contextType, contextName, seed.content);
+    if (!result.success) {
+      return { success: false, errors: result.errors, warnings };
+    }
+  }
+
+  return { success: true, warnings };
+}
+
+function presetDirectories(userPresetsDir: string): [string, PresetSource][] {
+  return [[userPresetsDir, 'user'], [builtInPresetsDir(), 'built-in']];
+}
+
+async function findPreset(name: string, userPresetsDir: string): Promise<[string, PresetSource] | undefined> {
+  for (const [directory, source] of presetDirectories(userPresetsDir)) {
+    if ((await presetNames(directory)).includes(name)) {
+      return [path.join(directory, name), source];
+    }
+  }
+  return undefined;
+}
+
+// Subdirectories with a project-config.json; a missing presets directory has none
+async function presetNames(directory: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const names: string[] = [];
+  for (const entry of entries.filter(entry => entry.isDirectory())) {
+    try {
+      await fs.access(path.join(directory, entry.name, PRESET_CONFIG_FILE));
+      names.push(entry.name);
+    } catch {
+      // Not a preset
+    }
+  }
+  return names;
+}
+
+async function hasPackageTemplate(templateName: string): Promise<boolean> {
+  try {
+    await readDefaultTemplate(templateName);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readDescription(presetDir: string): Promise<string | null> {
+  try {
+    const metadata = JSON.parse(await fs.readFile(path.join(presetDir, 'preset.json'), 'utf-8'));
+    return typeof metadata.description === 'string' ? metadata.description : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readSeeds(seedDir: string): Promise<SeedDocument[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(seedDir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const seeds: SeedDocument[] = [];
+  for (const entry of entries.filter(entry => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    for (const file of await readPromptFiles(path.join(seedDir, entry.name))) {
+      seeds.push({ contextType: entry.name, contextName: file.name, content: file.content });
+    }
+  }
+  return seeds;
+}
@@ -0,0 +1,147 @@
+import fs from 'fs/promises';
+import * as path from 'path';
+import { PromptFile } from '../../../types.js';
+import { packageRoot } from './storage.js';
+
+// Prompts are markdown files with optional frontmatter declaring what they are for
+// and which arguments they take:
+//
+//   ---
+//   description: Draft a session_summary update
+//   arguments:
+//     project_name: Project whose session summary to update
+//     since: (optional) Tag or commit to summarize changes from
+//   ---
+//
+// The body refers to arguments as {{name}} and inlines the current content of a
+// context as {{context:type}} or {{context:type/name}}.
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments: PromptArgumentDefinition[];
+  body: string;
+}
+
+// A context a prompt inlines: a single document or log by type, or a collection
+// document or log entry by name
+export interface InlinedContext {
+  contextType: string;
+  name?: string;
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const PLACEHOLDER = /\{\{\s*(context:)?([^{}]+?)\s*\}\}/g;
+const OPTIONAL = '(optional)';
+
+export async function readPackagePrompts(): Promise<PromptFile[]> {
+  return readPromptFiles(path.join(packageRoot(), 'prompts'));
+}
+
+// Every .md file directly in `directory`, named without the extension. A missing
+// directory has no prompts.
+export async function readPromptFiles(directory: string): Promise<PromptFile[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files = entries.filter(entry => entry.isFile() && entry.name.endsWith('.md'));
+  const prompts = await Promise.all(files.map(async file => ({
+    name: path.basename(file.name, '.md'),
+    content: await fs.readFile(path.join(directory, file.name), 'utf-8')
+  })));
+  return prompts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function parsePrompt(file: PromptFile): PromptDefinition {
+  const match = file.content.match(FRONTMATTER);
+  const body = match ? file.content.slice(match[0].length) : file.content;
+  const frontmatter = match ? parseFrontmatter(match[1]) : { arguments: undefined };
+
+  // Without declared arguments, every placeholder that isn't a context is an optional argument
+  const declared = frontmatter.arguments ?? placeholderNames(body).map(name => ({ name, required: false }));
+
+  return { name: file.name, description: frontmatter.description, arguments: declared, body };
+}
+
+// Substitutes the given arguments and inlines contexts through `readContext`.
+// Placeholders for arguments that weren't given are left as they are.
+export async function renderPrompt(
+  body: string,
+  args: Record<string, string>,
+  readContext: (context: InlinedContext) => Promise<string>
+): Promise<string> {
+  const inlined = new Map<string, string>();
+  for (const [, isContext, reference] of body.matchAll(PLACEHOLDER)) {
+    if (isContext && !inlined.has(reference)) {
+      inlined.set(reference, await readContext(parseContextReference(reference)));
+    }
+  }
+
+  return body.replace(PLACEHOLDER, (placeholder, isContext: string | undefined, reference: string) => {
+    if (isContext) {
+      return inlined.get(reference)!;
+    }
+    return Object.prototype.hasOwnProperty.call(args, reference) ? args[reference] : placeholder;
+  });
+}
+
+function parseContextReference(reference: string): InlinedContext {
+  const separator = reference.indexOf('/');
+  return separator === -1
+    ? { contextType: reference }
+    : { contextType: reference.slice(0, separator), name: reference.slice(separator + 1) };
+}
+
+function placeholderNames(body: string): string[] {
+  const names = [...body.matchAll(PLACEHOLDER)]
+    .filter(([, isContext]) => isContext === undefined)
+    .map(([, , name]) => name);
+  return [...new Set(names)];
+}
+
+// Reads the small subset of YAML the frontmatter uses: top-level "key: value" lines,
+// and the indented "name: description" lines under "arguments:"
+function parseFrontmatter(frontmatter: string): { description?: string; arguments?: PromptArgumentDefinition[] } {
+  const result: { description?: string; arguments?: PromptArgumentDefinition[] } = {};
+  let inArguments = false;
+
+  for (const line of frontmatter.split(/\r?\n/)) {
+    const entry = line.match(/^(\s*)([\w-]+):\s*(.*)$/);
+    if (!entry) {
+      continue;
+    }
+    const [, indent, key, rawValue] = entry;
+    const value = unquote(rawValue.trim());
+
+    if (indent.length === 0) {
+      inArguments = key === 'arguments';
+      if (inArguments) {
+        result.arguments = [];
+      } else if (key === 'description') {
+        result.description = value;
+      }
+    } else if (inArguments) {
+      const required = !value.startsWith(OPTIONAL);
+      const description = required ? value : value.slice(OPTIONAL.length).trim();
+      result.arguments!.push({ name: key, required, ...(description && { description }) });
+    }
+  }
+
+  return result;
+}
+
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
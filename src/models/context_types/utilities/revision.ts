@@ -0,0 +1,7 @@
+import { createHash } from 'crypto';
+
+// A revision identifies a context's content as get_context returned it. It is derived
+// from the content alone, so every backend produces the same token for the same text.
+export function contentRevision(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,195 @@
+import { PersistenceHelper, SearchResult } from '../../../types.js';
+import { splitSections } from './documentSections.js';
+
+export interface SearchOptions {
+  projectName?: string;       // Search every project when omitted
+  contextType?: string;       // Search every context type when omitted
+  includeArchives?: boolean;  // Also search contexts that clear_context archived
+  limit?: number;
+}
+
+export interface SearchResponse {
+  success: boolean;
+  results?: SearchResult[];
+  errors?: string[];          // On success, projects or types that could not be searched
+}
+
+interface IndexedSection {
+  source: Omit<SearchResult, 'headingPath' | 'snippet' | 'score'>;
+  headingPath: string[];
+  content: string;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LENGTH = 200;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Ranks markdown sections of stored contexts against a query with BM25. Each section
+// of each document or log entry is scored on its own, and every context is reported
+// once, with its best-matching section. The index is built per search from the
+// persistence backend, so results always reflect what is currently stored.
+export class ContextSearch {
+  private persistenceHelper: PersistenceHelper;
+
+  constructor(persistenceHelper: PersistenceHelper) {
+    this.persistenceHelper = persistenceHelper;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return { success: false, errors: ['Search query must contain at least one word'] };
+    }
+
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { success: false, errors: [`Invalid limit '${options.limit}'. Use a positive whole number.`] };
+    }
+
+    const warnings: string[] = [];
+    const sections: IndexedSection[] = [];
+
+    let projectNames: string[];
+    if (options.projectName !== undefined) {
+      projectNames = [options.projectName];
+    } else {
+      const projects = await this.persistenceHelper.listProjects();
+      if (!projects.success || !projects.data) {
+        return { success: false, errors: projects.errors || ['Failed to list projects'] };
+      }
+      projectNames = projects.data;
+    }
+
+    for (const projectName of projectNames) {
+      const config = await this.persistenceHelper.getProjectConfig(projectName);
+      if (!config.success || !config.config) {
+        // A named project must be searchable; when searching everything, skip the broken one
+        if (options.projectName !== undefined) {
+          return { success: false, errors: config.errors || [`Failed to load configuration of project '${projectName}'`] };
+        }
+        warnings.push(`Skipped project '${projectName}': ${config.errors?.join(', ') || 'failed to load configuration'}`);
+        continue;
+      }
+
+      const contextTypes = config.config.contextTypes
+        .map(ct => ct.name)
+        .filter(name => options.contextType === undefined || name === options.contextType);
+      if (options.contextType !== undefined && contextTypes.length === 0 && options.projectName !== undefined) {
+        return { success: false, errors: [`Context type '${options.contextType}' not found in project configuration`] };
+      }
+
+      for (const contextType of contextTypes) {
+        const entries = await this.persistenceHelper.listContextEntries(projectName, contextType);
+        if (!entries.success || !entries.entries) {
+          warnings.push(`Skipped ${projectName}/${contextType}: ${entries.errors?.join(', ') || 'failed to read contexts'}`);
+          continue;
+        }
+        for (const entry of entries.entries) {
+          sections.push(...this.indexSections({ projectName, contextType, contextName: entry.name }, entry.content));
+        }
+      }
+
+      if (options.includeArchives) {
+        sections.push(...await this.indexArchives(projectName, options.contextType, warnings));
+      }
+    }
+
+    const results = this.rank(terms, sections).slice(0, limit);
+    return warnings.length > 0
+      ? { success: true, results, errors: warnings }
+      : { success: true, results };
+  }
+
+  private async indexArchives(projectName: string, contextType: string | undefined, warnings: string[]): Promise<IndexedSection[]> {
+    const archives = await this.persistenceHelper.listArchives(projectName, contextType);
+    if (!archives.success || !archives.archives) {
+      warnings.push(`Skipped the archive of project '${projectName}': ${archives.errors?.join(', ') || 'failed to list archives'}`);
+      return [];
+    }
+
+    const sections: IndexedSection[] = [];
+    for (const archived of archives.archives) {
+      const response = await this.persistenceHelper.getArchivedContext(projectName, archived.contextType, archived.snapshot, archived.name);
+      if (!response.success || response.data?.[0] === undefined) {
+        warnings.push(`Skipped archived ${projectName}/${archived.contextType}/${archived.snapshot}/${archived.name}`);
+        continue;
+      }
+      sections.push(...this.indexSections(
+        { projectName, contextType: archived.contextType, contextName: archived.name, snapshot: archived.snapshot },
+        response.data[0]
+      ));
+    }
+    return sections;
+  }
+
+  private indexSections(source: IndexedSection['source'], content: string): IndexedSection[] {
+    return splitSections(content).map(section => {
+      const tokens = tokenize(section.content);
+      const termCounts = new Map<string, number>();
+      for (const token of tokens) {
+        termCounts.set(token, (termCounts.get(token) || 0) + 1);
+      }
+      return { source, headingPath: section.path, content: section.content, termCounts, length: tokens.length };
+    });
+  }
+
+  private rank(terms: string[], sections: IndexedSection[]): SearchResult[] {
+    if (sections.length === 0) {
+      return [];
+    }
+
+    const averageLength = sections.reduce((total, section) => total + section.length, 0) / sections.length || 1;
+    const idf = new Map(terms.map(term => {
+      const documentFrequency = sections.filter(section => section.termCounts.has(term)).length;
+      return [term, Math.log(1 + (sections.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+    }));
+
+    // Keep the best section of each context
+    const best = new Map<string, { section: IndexedSection; score: number }>();
+    for (const section of sections) {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = section.termCounts.get(term) || 0;
+        if (frequency === 0) continue;
+        score += idf.get(term)! * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * section.length / averageLength));
+      }
+      if (score === 0) continue;
+
+      const { projectName, contextType, contextName, snapshot } = section.source;
+      const key = [projectName, contextType, contextName, snapshot ?? ''].join('\u0000');
+      const current = best.get(key);
+      if (!current || score > current.score) {
+        best.set(key, { section, score });
+      }
+    }
+
+    return Array.from(best.values())
+      .sort((a, b) => b.score - a.score)
+      .map(({ section, score }) => ({
+        ...section.source,
+        headingPath: section.headingPath,
+        snippet: snippet(section.content, terms),
+        score: Math.round(score * 1000) / 1000
+      }));
+  }
+}
+
+// A single line of text around the first query term in the section
+function snippet(content: string, terms: string[]): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const match = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`, 'iu').exec(text);
+  const matchIndex = match?.index ?? 0;
+
+  const start = Math.max(0, Math.min(matchIndex - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
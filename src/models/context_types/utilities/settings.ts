@@ -0,0 +1,37 @@
+import * as os from 'os';
+import * as path from 'path';
+import { readFileSync } from 'fs';
+import { ServerSettings } from '../../../types.js';
+
+export function defaultContextRoot(): string {
+  return process.env.CONTEXT_ROOT || path.join(os.homedir(), '.shared-project-context');
+}
+
+// Settings are read once at startup, before any persistence backend exists, so the
+// file is loaded synchronously. A missing file means "use the defaults".
+export function loadSettings(contextRoot: string = defaultContextRoot()): ServerSettings {
+  const settingsPath = path.join(contextRoot, 'settings.json');
+
+  let settingsContent: string;
+  try {
+    settingsContent = readFileSync(settingsPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Error reading settings file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    return JSON.parse(settingsContent) as ServerSettings;
+  } catch (parseError) {
+    throw new Error(`Error parsing settings file ${settingsPath}: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+}
+
+// The directory of the user's own presets: CONTEXT_PRESETS, else the settings file's
+// presetsDir, else CONTEXT_ROOT/presets. Relative paths are resolved against CONTEXT_ROOT.
+export function resolvePresetsDir(contextRoot: string = defaultContextRoot()): string {
+  const configured = process.env.CONTEXT_PRESETS || loadSettings(contextRoot).presetsDir;
+  return configured ? path.resolve(contextRoot, configured) : path.join(contextRoot, 'presets');
+}
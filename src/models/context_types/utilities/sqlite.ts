@@ -0,0 +1,930 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdirSync } from 'fs';
+import Database from 'better-sqlite3';
+import { ArchiveEntry, ArchivedProject, PersistenceHelper, ProjectConfig } from '../../../types.js';
+import { PersistenceResponse } from '../../../types.js';
+import { DateTime } from 'luxon';
+import {
+  archiveSnapshotNotFound,
+  archivedContextNotFound,
+  archivedProjectNotFound,
+  emptyPruneResult,
+  getDefaultConfig,
+  isLogEntryName,
+  isLogType,
+  logEntryNotFound,
+  logEntryTime,
+  matchesContextNames,
+  notADocumentType,
+  notALogType,
+  planRetention,
+  projectAlreadyExists,
+  projectNotFound,
+  promptsNotStored,
+  readDefaultTemplate,
+  resolveArchivePolicy,
+  sortArchiveEntries,
+  sortArchivedProjects,
+  storageName,
+  successiveTimestamps,
+  templateNotFound,
+  timestampedContextNames
+} from './storage.js';
+import { projectLockPath, withFileLock, withProjectLocks } from './locking.js';
+import { validateProjectConfig } from './configSchema.js';
+import { DEFAULT_CONFIG_FILE, DefaultConfigLoader, inheritConfig, inheritsDefaults } from './configInheritance.js';
+
+interface ContextRow {
+  name: string;
+  content: string;
+}
+
+// Everything that belongs to a project, as stored in archived_projects.data
+interface ProjectSnapshot {
+  config: string | null;
+  createdAt: string;
+  contexts: { context_type: string; name: string; content: string; updated_at: string }[];
+  archives: { context_type: string; snapshot: string; name: string; content: string }[];
+  templates: { name: string; content: string }[];
+}
+
+// Stores every project in a single SQLite database file so that several agents
+// can share one context store. Mirrors the behaviour of FileSystemHelper: logs get
+// timestamped entry names and clearing moves rows into the archive table.
+export class SqliteHelper implements PersistenceHelper {
+  contextRoot: string;
+  databasePath: string;
+  private db: Database.Database;
+  private defaultConfig: DefaultConfigLoader;
+
+  constructor(
+    contextRoot: string = process.env.CONTEXT_ROOT || path.join(os.homedir(), '.shared-project-context'),
+    databasePath: string = process.env.CONTEXT_DATABASE || path.join(contextRoot, 'context.sqlite')
+  ) {
+    this.contextRoot = contextRoot;
+    this.databasePath = databasePath;
+    this.defaultConfig = new DefaultConfigLoader(path.join(contextRoot, DEFAULT_CONFIG_FILE));
+    this.db = this.openDatabase();
+  }
+
+  async initProject(projectName: string): Promise<PersistenceResponse> {
+    try {
+      if (this.projectExists(projectName)) {
+        return {
+          success: false,
+          errors: [`Project '${projectName}' already exists.`]
+        };
+      }
+
+      this.db
+        .prepare('INSERT INTO projects (name, created_at) VALUES (?, ?)')
+        .run(projectName, DateTime.utc().toISO());
+      return { success: true };
+    } catch (error) {
+      const errorMessage = ( error instanceof Error ? error.message : 'Unknown error');
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async listProjects(): Promise<PersistenceResponse> {
+    try {
+      const rows = this.db.prepare('SELECT name FROM projects ORDER BY name').all() as { name: string }[];
+      return { success: true, data: rows.map(row => row.name) };
+    } catch (error) {
+      const errorMessage = ( error instanceof Error ? error.message : 'Unknown error');
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async renameProject(projectName: string, newProjectName: string): Promise<PersistenceResponse> {
+    return withProjectLocks(this, [projectName, newProjectName], async () => {
+      try {
+        if (!this.projectExists(projectName)) {
+          return { success: false, errors: [projectNotFound(projectName)] };
+        }
+        if (this.projectExists(newProjectName)) {
+          return { success: false, errors: [projectAlreadyExists(newProjectName)] };
+        }
+
+        // The foreign keys don't cascade updates, so the rows move to a new project row
+        this.db.transaction(() => {
+          this.db
+            .prepare('INSERT INTO projects (name, config, created_at) SELECT ?, config, created_at FROM projects WHERE name = ?')
+            .run(newProjectName, projectName);
+          for (const table of ['contexts', 'archives', 'templates']) {
+            this.db.prepare(`UPDATE ${table} SET project = ? WHERE project = ?`).run(newProjectName, projectName);
+          }
+          this.db.prepare('DELETE FROM projects WHERE name = ?').run(projectName);
+        })();
+        return { success: true };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to rename project: ${errorMessage}`] };
+      }
+    });
+  }
+
+  // The project's rows are serialized into archived_projects and removed, which frees
+  // the name for a new project until the archived one is restored.
+  async archiveProject(projectName: string): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      try {
+        const project = this.db
+          .prepare('SELECT config, created_at FROM projects WHERE name = ?')
+          .get(projectName) as { config: string | null; created_at: string } | undefined;
+        if (!project) {
+          return { success: false, errors: [projectNotFound(projectName)] };
+        }
+
+        const data: ProjectSnapshot = {
+          config: project.config,
+          createdAt: project.created_at,
+          contexts: this.db
+            .prepare('SELECT context_type, name, content, updated_at FROM contexts WHERE project = ?')
+            .all(projectName) as ProjectSnapshot['contexts'],
+          archives: this.db
+            .prepare('SELECT context_type, snapshot, name, content FROM archives WHERE project = ? ORDER BY id')
+            .all(projectName) as ProjectSnapshot['archives'],
+          templates: this.db
+            .prepare('SELECT name, content FROM templates WHERE project = ?')
+            .all(projectName) as ProjectSnapshot['templates']
+        };
+
+        const taken = this.db.prepare('SELECT 1 FROM archived_projects WHERE name = ? AND snapshot = ?');
+        let snapshot = '';
+        for (snapshot of successiveTimestamps()) {
+          if (taken.get(projectName, snapshot) === undefined) break;
+        }
+
+        this.db.transaction(() => {
+          this.db
+            .prepare('INSERT INTO archived_projects (name, snapshot, data) VALUES (?, ?, ?)')
+            .run(projectName, snapshot, JSON.stringify(data));
+          this.db.prepare('DELETE FROM projects WHERE name = ?').run(projectName);
+        })();
+        return { success: true, data: [snapshot] };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to archive project: ${errorMessage}`] };
+      }
+    });
+  }
+
+  async listArchivedProjects(): Promise<PersistenceResponse> {
+    try {
+      const rows = this.db
+        .prepare('SELECT name, snapshot FROM archived_projects')
+        .all() as { name: string; snapshot: string }[];
+      const archivedProjects: ArchivedProject[] = rows.map(row => ({ projectName: row.name, snapshot: row.snapshot }));
+      return { success: true, archivedProjects: sortArchivedProjects(archivedProjects) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async restoreProject(projectName: string, snapshot?: string, newProjectName?: string): Promise<PersistenceResponse> {
+    const targetName = newProjectName ?? projectName;
+
+    return withProjectLocks(this, [projectName, targetName], async () => {
+      try {
+        const row = (snapshot === undefined
+          ? this.db.prepare('SELECT snapshot, data FROM archived_projects WHERE name = ? ORDER BY snapshot DESC LIMIT 1').get(projectName)
+          : this.db.prepare('SELECT snapshot, data FROM archived_projects WHERE name = ? AND snapshot = ?').get(projectName, snapshot)
+        ) as { snapshot: string; data: string } | undefined;
+        if (!row) {
+          return { success: false, errors: [archivedProjectNotFound(projectName, snapshot)] };
+        }
+
+        if (this.projectExists(targetName)) {
+          return {
+            success: false,
+            errors: [`${projectAlreadyExists(targetName)} Restore it under a different name with new_project_name.`]
+          };
+        }
+
+        const data: ProjectSnapshot = JSON.parse(row.data);
+        const insertContext = this.db.prepare(
+          'INSERT INTO contexts (project, context_type, name, content, updated_at) VALUES (?, ?, ?, ?, ?)'
+        );
+        const insertArchive = this.db.prepare(
+          'INSERT INTO archives (project, context_type, snapshot, name, content) VALUES (?, ?, ?, ?, ?)'
+        );
+        const insertTemplate = this.db.prepare('INSERT INTO templates (project, name, content) VALUES (?, ?, ?)');
+
+        this.db.transaction(() => {
+          this.db
+            .prepare('INSERT INTO projects (name, config, created_at) VALUES (?, ?, ?)')
+            .run(targetName, data.config, data.createdAt);
+          for (const context of data.contexts) {
+            insertContext.run(targetName, context.context_type, context.name, context.content, context.updated_at);
+          }
+          for (const archived of data.archives) {
+            insertArchive.run(targetName, archived.context_type, archived.snapshot, archived.name, archived.content);
+          }
+          for (const template of data.templates) {
+            insertTemplate.run(targetName, template.name, template.content);
+          }
+          this.db.prepare('DELETE FROM archived_projects WHERE name = ? AND snapshot = ?').run(projectName, row.snapshot);
+        })();
+        return { success: true, data: [targetName] };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to restore project: ${errorMessage}`] };
+      }
+    });
+  }
+
+  // Permanent: the project's contexts, archive and templates are removed with it
+  async deleteProject(projectName: string): Promise<PersistenceResponse> {
+    return this.withProjectLock(projectName, async () => {
+      try {
+        const result = this.db.prepare('DELETE FROM projects WHERE name = ?').run(projectName);
+        if (result.changes === 0) {
+          return { success: false, errors: [projectNotFound(projectName)] };
+        }
+        return { success: true };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, errors: [`Failed to delete project: ${errorMessage}`] };
+      }
+    });
+  }
+
+  async getContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`getContext: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    try {
+      let rows: ContextRow[];
+      if (contextNames) {
+        const select = this.db.prepare(
+          'SELECT name, content FROM contexts WHERE project = ? AND context_type = ? AND name = ?'
+        );
+        const errors: string[] = [];
+        rows = [];
+        for (const name of contextNames) {
+          const row = select.get(projectName, contextType, storageName(contextTypeConfig, name)) as ContextRow | undefined;
+          if (row) {
+            rows.push(row);
+          } else {
+            errors.push(`${contextTypeConfig.name}: Context not found. Have you created it using create_context yet?`);
+          }
+        }
+
+        if (errors.length > 0) {
+          return { success: false, errors };
+        }
+      } else {
+        rows = this.db
+          .prepare('SELECT name, content FROM contexts WHERE project = ? AND context_type = ?')
+          .all(projectName, contextType) as ContextRow[];
+      }
+
+      // Newest log entries first, matching the file name ordering of FileSystemHelper
+      const data = rows
+        .sort((a, b) => b.name.localeCompare(a.name))
+        .map(row => row.content);
+
+      return { success: true, data };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async listContextEntries(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`listContextEntries: Failed to load project configuration.`] };
+    }
+
+    if (!response.config.contextTypes.some(ct => ct.name === contextType)) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    try {
+      const entries = this.db
+        .prepare('SELECT name, content FROM contexts WHERE project = ? AND context_type = ? ORDER BY name DESC')
+        .all(projectName, contextType) as ContextRow[];
+      return { success: true, entries };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async writeContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    if (!this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    try {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`WriteContext: Failed to load project configuration.`] };
+      }
+      const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+      if (!contextTypeConfig) {
+        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+      }
+
+      const updatedAt = DateTime.utc().toISO();
+
+      if (isLogType(contextTypeConfig)) {
+        // Log entries are never replaced; take the next free timestamped name
+        const insert = this.db.prepare(
+          'INSERT OR IGNORE INTO contexts (project, context_type, name, content, updated_at) VALUES (?, ?, ?, ?, ?)'
+        );
+        for (const name of timestampedContextNames(contextType)) {
+          if (insert.run(projectName, contextType, name, content, updatedAt).changes > 0) break;
+        }
+        return { success: true };
+      }
+
+      this.db
+        .prepare(`
+          INSERT INTO contexts (project, context_type, name, content, updated_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT (project, context_type, name)
+          DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at
+        `)
+        .run(projectName, contextType, storageName(contextTypeConfig, contextName), content, updatedAt);
+
+      return { success: true };
+    } catch (error) {
+      return {success: false, errors: [`Failed to write context: ${error instanceof Error ? error.message : 'Unknown error'}`]};
+    }
+  }
+
+  async getTemplate(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    try {
+      const response = await this.getProjectConfig(projectName);
+      if (!response.success || !response.config) {
+        return { success: false, errors: [`getTemplate: Failed to load project configuration.`] };
+      }
+
+      const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+      if (!contextTypeConfig) {
+        return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+      }
+
+      const templateName = contextTypeConfig.template || contextType;
+      const row = this.db
+        .prepare('SELECT content FROM templates WHERE project = ? AND name = ?')
+        .get(projectName, templateName) as { content: string } | undefined;
+
+      if (row) {
+        return { success: true, data: [row.content] };
+      }
+
+      // Project template doesn't exist, initialize it from repository default
+      try {
+        const defaultTemplateContent = await readDefaultTemplate(templateName);
+
+        this.db
+          .prepare('INSERT INTO templates (project, name, content) VALUES (?, ?, ?)')
+          .run(projectName, templateName, defaultTemplateContent);
+
+        return { success: true, data: [defaultTemplateContent] };
+      } catch (repositoryError) {
+        return {
+          success: false,
+          errors: [`Failed to load or initialize template for ${contextType}: ${repositoryError instanceof Error ? repositoryError.message : 'Unknown error'}`]
+        };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        errors: [`Failed to load template for ${contextType}: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      };
+    }
+  }
+
+  async getNamedTemplate(projectName: string, templateName: string): Promise<PersistenceResponse> {
+    if (!this.projectExists(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    try {
+      const row = this.db
+        .prepare('SELECT content FROM templates WHERE project = ? AND name = ?')
+        .get(projectName, templateName) as { content: string } | undefined;
+      if (row) {
+        return { success: true, data: [row.content] };
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+
+    try {
+      return { success: true, data: [await readDefaultTemplate(templateName)] };
+    } catch {
+      return { success: false, errors: [templateNotFound(templateName)] };
+    }
+  }
+
+  async writeTemplate(projectName: string, templateName: string, content: string): Promise<PersistenceResponse> {
+    if (!this.projectExists(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+
+    try {
+      this.db
+        .prepare('INSERT OR REPLACE INTO templates (project, name, content) VALUES (?, ?, ?)')
+        .run(projectName, templateName, content);
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [`Failed to write template: ${errorMessage}`] };
+    }
+  }
+
+  // Prompt files live on disk, so projects stored in the database have none of their own
+  async listPrompts(projectName: string): Promise<PersistenceResponse> {
+    if (!this.projectExists(projectName)) {
+      return { success: false, errors: [projectNotFound(projectName)] };
+    }
+    return { success: true, prompts: [] };
+  }
+
+  async writePrompt(projectName: string): Promise<PersistenceResponse> {
+    return { success: false, errors: [promptsNotStored(projectName)] };
+  }
+
+  // Like FileSystemHelper, clearing moves the rows into the archive table under a
+  // single snapshot timestamp rather than deleting them.
+  async clearContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`archiveContext: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    if (!this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    try {
+      const rows = (this.db
+        .prepare('SELECT name, content FROM contexts WHERE project = ? AND context_type = ?')
+        .all(projectName, contextType) as ContextRow[])
+        .filter(row => matchesContextNames(contextTypeConfig, row.name, contextNames));
+
+      const archive = this.db.prepare(
+        'INSERT INTO archives (project, context_type, snapshot, name, content) VALUES (?, ?, ?, ?, ?)'
+      );
+      const remove = this.db.prepare(
+        'DELETE FROM contexts WHERE project = ? AND context_type = ? AND name = ?'
+      );
+
+      this.db.transaction(() => {
+        const snapshot = this.newArchiveSnapshot(projectName, contextType);
+        for (const row of rows) {
+          archive.run(projectName, contextType, snapshot, row.name, row.content);
+          remove.run(projectName, contextType, row.name);
+        }
+      })();
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  // Replaces one log entry's content under the same name, archiving the original
+  async amendLogEntry(projectName: string, contextType: string, entryId: string, content: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`amendLogEntry: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    if (!isLogType(contextTypeConfig)) {
+      return { success: false, errors: [notALogType(contextType)] };
+    }
+
+    if (!this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    try {
+      const row = isLogEntryName(contextType, entryId)
+        ? this.db
+          .prepare('SELECT name, content FROM contexts WHERE project = ? AND context_type = ? AND name = ?')
+          .get(projectName, contextType, entryId) as ContextRow | undefined
+        : undefined;
+
+      if (!row) {
+        return { success: false, errors: [logEntryNotFound(contextType, entryId)] };
+      }
+
+      this.db.transaction(() => {
+        this.db
+          .prepare('INSERT INTO archives (project, context_type, snapshot, name, content) VALUES (?, ?, ?, ?, ?)')
+          .run(projectName, contextType, this.newArchiveSnapshot(projectName, contextType), row.name, row.content);
+        this.db
+          .prepare('UPDATE contexts SET content = ?, updated_at = ? WHERE project = ? AND context_type = ? AND name = ?')
+          .run(content, DateTime.utc().toISO(), projectName, contextType, entryId);
+      })();
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [`Failed to amend log entry: ${errorMessage}`] };
+    }
+  }
+
+  // Archives the current content and writes the new content in one transaction
+  async replaceContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`replaceContext: Failed to load project configuration.`] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    if (isLogType(contextTypeConfig)) {
+      return { success: false, errors: [notADocumentType(contextType)] };
+    }
+
+    if (!this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    try {
+      const name = storageName(contextTypeConfig, contextName);
+      this.db.transaction(() => {
+        const current = this.db
+          .prepare('SELECT content FROM contexts WHERE project = ? AND context_type = ? AND name = ?')
+          .get(projectName, contextType, name) as { content: string } | undefined;
+        if (current) {
+          this.db
+            .prepare('INSERT INTO archives (project, context_type, snapshot, name, content) VALUES (?, ?, ?, ?, ?)')
+            .run(projectName, contextType, this.newArchiveSnapshot(projectName, contextType), name, current.content);
+        }
+        this.db
+          .prepare(`
+            INSERT INTO contexts (project, context_type, name, content, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (project, context_type, name)
+            DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at
+          `)
+          .run(projectName, contextType, name, content, DateTime.utc().toISO());
+      })();
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [`Failed to replace context: ${errorMessage}`] };
+    }
+  }
+
+  async listArchives(projectName: string, contextType?: string): Promise<PersistenceResponse> {
+    if (!this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    try {
+      const rows = this.db
+        .prepare(`
+          SELECT context_type AS contextType, snapshot, name, length(CAST(content AS BLOB)) AS size
+          FROM archives
+          WHERE project = ? AND (? IS NULL OR context_type = ?)
+        `)
+        .all(projectName, contextType ?? null, contextType ?? null) as ArchiveEntry[];
+
+      return { success: true, archives: sortArchiveEntries(rows) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async getArchivedContext(projectName: string, contextType: string, snapshot: string, contextName: string): Promise<PersistenceResponse> {
+    if (!this.projectExists(projectName)) {
+      return {success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`]};
+    }
+
+    try {
+      const row = this.db
+        .prepare('SELECT content FROM archives WHERE project = ? AND context_type = ? AND snapshot = ? AND name = ?')
+        .get(projectName, contextType, snapshot, contextName) as { content: string } | undefined;
+
+      if (!row) {
+        return { success: false, errors: [archivedContextNotFound(contextType, snapshot, contextName)] };
+      }
+      return { success: true, data: [row.content] };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  // Only retention applies here; compression and deduplication are filesystem features
+  async pruneArchive(projectName: string, contextType?: string, dryRun: boolean = false): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`pruneArchive: Failed to load project configuration.`, ...(response.errors || [])] };
+    }
+
+    try {
+      const rows = this.db
+        .prepare(`
+          SELECT DISTINCT context_type AS contextType, snapshot
+          FROM archives
+          WHERE project = ? AND (? IS NULL OR context_type = ?)
+        `)
+        .all(projectName, contextType ?? null, contextType ?? null) as { contextType: string; snapshot: string }[];
+
+      const result = emptyPruneResult(dryRun);
+      for (const type of new Set(rows.map(row => row.contextType))) {
+        const snapshots = rows.filter(row => row.contextType === type).map(row => row.snapshot);
+        result.removed.push(...planRetention(type, snapshots, resolveArchivePolicy(response.config, type)));
+      }
+
+      if (!dryRun) {
+        const remove = this.db.prepare('DELETE FROM archives WHERE project = ? AND context_type = ? AND snapshot = ?');
+        this.db.transaction(() => {
+          for (const pruned of result.removed) {
+            remove.run(projectName, pruned.contextType, pruned.snapshot);
+          }
+        })();
+      }
+
+      return { success: true, prune: result };
+    } catch (error) {
+      return { success: false, errors: [`Failed to prune archive: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+  }
+
+  // Same semantics as FileSystemHelper.restoreContext: replaced documents are archived
+  // first and log entries are merged back under their original names. Everything
+  // happens in one transaction, so other connections see the restore all at once.
+  async restoreContext(projectName: string, contextType: string, snapshot: string, contextNames?: string[]): Promise<PersistenceResponse> {
+    const response = await this.getProjectConfig(projectName);
+    if (!response.success || !response.config) {
+      return { success: false, errors: [`restoreContext: Failed to load project configuration.`, ...(response.errors || [])] };
+    }
+    const contextTypeConfig = response.config.contextTypes.find(ct => ct.name === contextType);
+
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    try {
+      const snapshotRows = this.db
+        .prepare('SELECT name, content FROM archives WHERE project = ? AND context_type = ? AND snapshot = ? ORDER BY name')
+        .all(projectName, contextType, snapshot) as ContextRow[];
+      if (snapshotRows.length === 0) {
+        return { success: false, errors: [archiveSnapshotNotFound(contextType, snapshot)] };
+      }
+
+      const rows = snapshotRows.filter(row => matchesContextNames(contextTypeConfig, row.name, contextNames));
+      if (rows.length === 0) {
+        return { success: false, errors: [archivedContextNotFound(contextType, snapshot, contextNames?.join(', ') || '')] };
+      }
+
+      const current = this.db.prepare('SELECT content FROM contexts WHERE project = ? AND context_type = ? AND name = ?');
+      const archive = this.db.prepare(
+        'INSERT INTO archives (project, context_type, snapshot, name, content) VALUES (?, ?, ?, ?, ?)'
+      );
+      const upsert = this.db.prepare(`
+        INSERT INTO contexts (project, context_type, name, content, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (project, context_type, name)
+        DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at
+      `);
+      const updatedAt = DateTime.utc().toISO();
+
+      const restored = this.db.transaction((): string[] => {
+        const replacedSnapshot = this.newArchiveSnapshot(projectName, contextType);
+        const names: string[] = [];
+        for (const row of rows) {
+          let name = row.name;
+          const existing = current.get(projectName, contextType, name) as { content: string } | undefined;
+          if (existing && isLogType(contextTypeConfig)) {
+            if (existing.content === row.content) continue;
+            // A different entry written in the same millisecond took the name; keep both
+            for (name of timestampedContextNames(contextType, logEntryTime(contextType, row.name))) {
+              if (!current.get(projectName, contextType, name)) break;
+            }
+          } else if (existing) {
+            archive.run(projectName, contextType, replacedSnapshot, name, existing.content);
+          }
+          upsert.run(projectName, contextType, name, row.content, updatedAt);
+          names.push(name);
+        }
+        return names;
+      })();
+
+      return { success: true, data: restored };
+    } catch (error) {
+      return {success: false, errors: [`Failed to restore context: ${error instanceof Error ? error.message : 'Unknown error'}`]};
+    }
+  }
+
+  async writeProjectConfig(projectName: string, config: ProjectConfig): Promise<PersistenceResponse> {
+    const problems = await validateProjectConfig(config);
+    if (problems.length > 0) {
+      return { success: false, errors: [`Invalid config: ${problems.join('; ')}`] };
+    }
+
+    try {
+      const result = this.db
+        .prepare('UPDATE projects SET config = ? WHERE name = ?')
+        .run(JSON.stringify(config, null, 2), projectName);
+      if (result.changes === 0) {
+        return { success: false, errors: [projectNotFound(projectName)] };
+      }
+      return { success: true };
+    } catch (error) {
+      const errorMessage = `Error writing config: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return { success: false, errors: [errorMessage] };
+    }
+  }
+
+  async getProjectConfig(projectName: string): Promise<PersistenceResponse> {
+    return inheritConfig(await this.getOwnProjectConfig(projectName), await this.getGlobalDefaultConfig());
+  }
+
+  // The global default lives in CONTEXT_ROOT next to the database, as it does for the
+  // filesystem backends
+  async getGlobalDefaultConfig(): Promise<PersistenceResponse> {
+    return this.defaultConfig.load();
+  }
+
+  async getOwnProjectConfig(projectName: string): Promise<PersistenceResponse> {
+    let row: { config: string | null } | undefined;
+    try {
+      row = this.db
+        .prepare('SELECT config FROM projects WHERE name = ?')
+        .get(projectName) as { config: string | null } | undefined;
+    } catch (error) {
+      const errorMessage = `Error reading config: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return { success: false, errors: [errorMessage] };
+    }
+
+    if (!row) {
+      return { success: false, errors: [`Project '${projectName}' does not exist. Create it first using create_project.`] };
+    }
+
+    // Only create default config if none has been stored yet
+    if (row.config === null) {
+      const config = inheritsDefaults(await this.getGlobalDefaultConfig()) ? { contextTypes: [] } : getDefaultConfig();
+      try {
+        this.db
+          .prepare('UPDATE projects SET config = ? WHERE name = ?')
+          .run(JSON.stringify(config, null, 2), projectName);
+      } catch (writeError) {
+        const errorMessage = `Error creating default config: ${writeError instanceof Error ? writeError.message : 'Unknown error'}`;
+        return { success: false, errors: [errorMessage] };
+      }
+      return { success: true, config };
+    }
+
+    let config: ProjectConfig;
+    try {
+      config = JSON.parse(row.config);
+    } catch (parseError) {
+      const errorMessage = `Error parsing config: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`;
+      return { success: false, errors: [errorMessage] };
+    }
+
+    const problems = await validateProjectConfig(config);
+    if (problems.length > 0) {
+      return { success: false, errors: [`Invalid config: ${problems.join('; ')}`] };
+    }
+    return { success: true, config };
+  }
+
+  async listAllContextForType(projectName: string, contextType: string): Promise<PersistenceResponse> {
+    const configResponse = await this.getProjectConfig(projectName);
+    if (!configResponse.success || !configResponse.config) {
+      return { success: false, errors: ['Failed to load project configuration'] };
+    }
+
+    const contextTypeConfig = configResponse.config.contextTypes.find(ct => ct.name === contextType);
+    if (!contextTypeConfig) {
+      return { success: false, errors: [`Context type '${contextType}' not found in project configuration`] };
+    }
+
+    // For collection types, return the stored document names
+    if (contextTypeConfig.baseType.endsWith('-collection')) {
+      const rows = this.db
+        .prepare('SELECT name FROM contexts WHERE project = ? AND context_type = ? ORDER BY name')
+        .all(projectName, contextType) as { name: string }[];
+      return { success: true, data: rows.map(row => row.name) };
+    }
+
+    // For single-document and log types, return just the context type name
+    return { success: true, data: [contextType] };
+  }
+
+  // Each statement is atomic on its own; the project lock covers sequences of calls
+  // (such as a reset followed by a write) across every process sharing the database.
+  async withProjectLock<T>(projectName: string, operation: () => Promise<T>): Promise<T> {
+    return withFileLock(projectLockPath(this.contextRoot, projectName), operation);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private openDatabase(): Database.Database {
+    if (this.databasePath !== ':memory:') {
+      // better-sqlite3 opens synchronously, so the parent directory is created the same way
+      mkdirSync(path.dirname(this.databasePath), { recursive: true });
+    }
+
+    const db = new Database(this.databasePath);
+    // WAL lets several agent processes read while one writes; wait rather than fail on contention
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.pragma('foreign_keys = ON');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS projects (
+        name TEXT PRIMARY KEY,
+        config TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS contexts (
+        project TEXT NOT NULL REFERENCES projects(name) ON DELETE CASCADE,
+        context_type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (project, context_type, name)
+      );
+
+      CREATE TABLE IF NOT EXISTS archives (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project TEXT NOT NULL REFERENCES projects(name) ON DELETE CASCADE,
+        context_type TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        UNIQUE (project, context_type, snapshot, name)
+      );
+
+      CREATE INDEX IF NOT EXISTS archives_by_type ON archives (project, context_type, snapshot);
+
+      CREATE TABLE IF NOT EXISTS archived_projects (
+        name TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (name, snapshot)
+      );
+
+      CREATE TABLE IF NOT EXISTS templates (
+        project TEXT NOT NULL REFERENCES projects(name) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        PRIMARY KEY (project, name)
+      );
+    `);
+
+    return db;
+  }
+
+  // The first snapshot from now on that holds nothing of the context type yet. Two archiving
+  // calls within the same millisecond would otherwise share a snapshot, and restoring it would
+  // bring back the contexts of both. Runs inside the transaction that writes the snapshot.
+  private newArchiveSnapshot(projectName: string, contextType: string): string {
+    const taken = this.db.prepare('SELECT 1 FROM archives WHERE project = ? AND context_type = ? AND snapshot = ? LIMIT 1');
+    let snapshot = '';
+    for (snapshot of successiveTimestamps()) {
+      if (taken.get(projectName, contextType, snapshot) === undefined) break;
+    }
+    return snapshot;
+  }
+
+  private projectExists(projectName: string): boolean {
+    return this.db.prepare('SELECT 1 FROM projects WHERE name = ?').get(projectName) !== undefined;
+  }
+}
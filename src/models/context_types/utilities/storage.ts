@@ -0,0 +1,199 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import { DateTime } from 'luxon';
+import { ArchiveEntry, ArchivedProject, ArchivePolicy, ArchivePruneResult, PrunedSnapshot, ProjectConfig, TypeConfig } from '../../../types.js';
+
+// Naming and default helpers shared by the persistence backends so that every
+// backend stores contexts under the same names FileSystemHelper uses for files.
+
+const TIMESTAMP_FORMAT = 'yyyy-MM-dd\'T\'HH-mm-ss-SSS\'Z\'';
+
+export function timestamp(time: DateTime = DateTime.utc()): string {
+  // Format: YYYY-MM-DDTHH-MM-ss-SSSZ (filesystem-friendly ISO 8601)
+  return time.toFormat(TIMESTAMP_FORMAT);
+}
+
+export function parseTimestamp(value: string): DateTime | null {
+  const time = DateTime.fromFormat(value, TIMESTAMP_FORMAT, { zone: 'utc' });
+  return time.isValid ? time : null;
+}
+
+// Converts a filesystem-friendly timestamp back to standard ISO 8601, or null if it isn't one
+export function timestampToISO(value: string): string | null {
+  return parseTimestamp(value)?.toISO() ?? null;
+}
+
+// Yields timestamps starting from `start`, one millisecond apart. Callers take the first
+// one that is not already used so names created within the same millisecond don't collide.
+export function* successiveTimestamps(start: DateTime = DateTime.utc()): Generator<string> {
+  let time = start;
+  for (;;) {
+    yield timestamp(time);
+    time = time.plus({ milliseconds: 1 });
+  }
+}
+
+// Log entry names starting from `start`, one millisecond apart, so entries written within
+// the same millisecond don't overwrite each other
+export function* timestampedContextNames(contextType: string, start: DateTime = DateTime.utc()): Generator<string> {
+  for (const entryTimestamp of successiveTimestamps(start)) {
+    yield `${contextType}-${entryTimestamp}`;
+  }
+}
+
+// The time a log entry was written, taken from its `${contextType}-${timestamp}` name
+export function logEntryTime(contextType: string, name: string): DateTime {
+  return parseTimestamp(name.slice(contextType.length + 1)) ?? DateTime.utc();
+}
+
+// A log entry's stored name doubles as its ID, e.g. dev_log-2025-01-31T12-00-00-000Z
+export function isLogEntryName(contextType: string, name: string): boolean {
+  return name.startsWith(`${contextType}-`) && parseTimestamp(name.slice(contextType.length + 1)) !== null;
+}
+
+// The type's own policy settings win over the project-wide ones
+export function resolveArchivePolicy(config: ProjectConfig, contextType: string): ArchivePolicy {
+  const typeConfig = config.contextTypes.find(ct => ct.name === contextType);
+  return { ...config.archive, ...typeConfig?.archive };
+}
+
+export function hasArchivePolicy(policy: ArchivePolicy): boolean {
+  return policy.maxSnapshots !== undefined
+    || policy.maxAgeDays !== undefined
+    || policy.compressAfterDays !== undefined
+    || policy.deduplicate === true;
+}
+
+export function emptyPruneResult(dryRun: boolean): ArchivePruneResult {
+  return { dryRun, removed: [], compressed: [], deduplicated: [] };
+}
+
+// Decides which of a type's snapshots the retention policy removes. Snapshots whose
+// names aren't timestamps are only ever removed by the snapshot count.
+export function planRetention(contextType: string, snapshots: string[], policy: ArchivePolicy, now: DateTime = DateTime.utc()): PrunedSnapshot[] {
+  return [...snapshots]
+    .sort((a, b) => b.localeCompare(a))
+    .flatMap((snapshot, index): PrunedSnapshot[] => {
+      if (policy.maxSnapshots !== undefined && index >= policy.maxSnapshots) {
+        return [{ contextType, snapshot, reason: 'max_snapshots' }];
+      }
+      const archivedAt = parseTimestamp(snapshot);
+      if (policy.maxAgeDays !== undefined && archivedAt && now.diff(archivedAt, 'days').days > policy.maxAgeDays) {
+        return [{ contextType, snapshot, reason: 'max_age' }];
+      }
+      return [];
+    });
+}
+
+export function shouldCompress(snapshot: string, policy: ArchivePolicy, now: DateTime = DateTime.utc()): boolean {
+  if (policy.compressAfterDays === undefined) return false;
+  const archivedAt = parseTimestamp(snapshot);
+  return archivedAt !== null && now.diff(archivedAt, 'days').days >= policy.compressAfterDays;
+}
+
+// Newest snapshot first, then by type and name, the order list_archives presents them in
+export function sortArchiveEntries(entries: ArchiveEntry[]): ArchiveEntry[] {
+  return entries.sort((a, b) =>
+    b.snapshot.localeCompare(a.snapshot)
+    || a.contextType.localeCompare(b.contextType)
+    || a.name.localeCompare(b.name)
+  );
+}
+
+// By name, then newest snapshot first
+export function sortArchivedProjects(projects: ArchivedProject[]): ArchivedProject[] {
+  return projects.sort((a, b) =>
+    a.projectName.localeCompare(b.projectName)
+    || b.snapshot.localeCompare(a.snapshot)
+  );
+}
+
+export function projectNotFound(projectName: string): string {
+  return `Project '${projectName}' does not exist. Create it first using create_project.`;
+}
+
+export function projectAlreadyExists(projectName: string): string {
+  return `Project '${projectName}' already exists.`;
+}
+
+export function archivedProjectNotFound(projectName: string, snapshot?: string): string {
+  const target = snapshot ? `'${projectName}/${snapshot}'` : `'${projectName}'`;
+  return `Archived project ${target} not found. Use list_archived_projects to see what is available.`;
+}
+
+export function logEntryNotFound(contextType: string, entryId: string): string {
+  return `Log entry '${entryId}' not found in ${contextType}. Use list_log_entries to see its entries.`;
+}
+
+export function templateNotFound(templateName: string): string {
+  return `Template '${templateName}' not found in the project's templates or the package defaults.`;
+}
+
+export function promptsNotStored(projectName: string): string {
+  return `Project '${projectName}' can't store prompts of its own; only the filesystem backends keep project prompts.`;
+}
+
+export function notALogType(contextType: string): string {
+  return `Context type '${contextType}' is not a log; only log entries can be amended.`;
+}
+
+export function notADocumentType(contextType: string): string {
+  return `Context type '${contextType}' is a log; log entries are added or amended, not replaced.`;
+}
+
+export function archivedContextNotFound(contextType: string, snapshot: string, contextName: string): string {
+  return `Archived context '${contextType}/${snapshot}/${contextName}' not found. Use list_archives to see what is available.`;
+}
+
+export function archiveSnapshotNotFound(contextType: string, snapshot: string): string {
+  return `Archive snapshot '${contextType}/${snapshot}' not found. Use list_archives to see what is available.`;
+}
+
+export function isLogType(contextTypeConfig: TypeConfig): boolean {
+  return contextTypeConfig.baseType === 'templated-log' || contextTypeConfig.baseType === 'freeform-log';
+}
+
+export function isJsonType(contextTypeConfig: TypeConfig): boolean {
+  return contextTypeConfig.baseType === 'json-document' || contextTypeConfig.baseType === 'json-document-collection';
+}
+
+// Single documents are always stored under the context type name
+export function storageName(contextTypeConfig: TypeConfig, contextName: string): string {
+  const singleDocument = contextTypeConfig.baseType.endsWith('-single-document')
+    || contextTypeConfig.baseType === 'json-document'
+    || contextTypeConfig.baseType === 'checklist';
+  return singleDocument
+    ? contextTypeConfig.name
+    : contextName;
+}
+
+// Log entries are matched by prefix or by entry ID, other types by their stored name
+export function matchesContextNames(contextTypeConfig: TypeConfig, name: string, contextNames?: string[]): boolean {
+  if (!contextNames) return true;
+  return isLogType(contextTypeConfig)
+    ? contextNames.some(contextName => name === contextName || name.startsWith(`${contextName}-`))
+    : contextNames.some(contextName => name === storageName(contextTypeConfig, contextName));
+}
+
+export function packageRoot(): string {
+  const currentDir = path.dirname(fileURLToPath(new URL(import.meta.url)));
+  return path.resolve(currentDir, '../../../../');
+}
+
+export async function readDefaultTemplate(templateName: string): Promise<string> {
+  return fs.readFile(path.join(packageRoot(), 'templates', `${templateName}.md`), 'utf-8');
+}
+
+export function getDefaultConfig(): ProjectConfig {
+  return {
+    "contextTypes": [
+      {
+        "baseType": "freeform-document-collection",
+        "name": "general",
+        "description": "Arbitrary named contexts with no template requirements. Each document stored separately and requires a filename.",
+        "validation": false
+      }
+    ]
+  }
+}
@@ -0,0 +1,13 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Tracks which MCP tool triggered the current persistence call so that backends
+// (such as the git backend) can record it without every call site passing it along.
+const toolStorage = new AsyncLocalStorage<string>();
+
+export function runWithTool<T>(toolName: string, callback: () => Promise<T>): Promise<T> {
+  return toolStorage.run(toolName, callback);
+}
+
+export function currentTool(): string | undefined {
+  return toolStorage.getStore();
+}
@@ -2,7 +2,19 @@
 console.error('Starting shared-project-context server...');
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
 
 // Import handlers
 import ListProjectsHandler from './handlers/listProjectsHandler.js';
@@ -10,14 +22,39 @@ import ListContextsHandler from './handlers/listContextsHandler.js';
 import GetContextHandler from './handlers/getContextHandler.js';
 import UpdateContextHandler from './handlers/updateContextHandler.js';
 import CreateProjectHandler from './handlers/createProjectHandler.js';
-import { FileSystemHelper } from './models/context_types/utilities/fileSystem.js';
+import { createPersistenceHelper } from './models/context_types/utilities/persistenceRegistry.js';
+import { baseTypes } from './models/contexTypeFactory.js';
 import ClearContextHandler from './handlers/clearContextHandler.js';
 import GetProjectTemplatesHandler from './handlers/getProjectTemplatesHandler.js';
+import ListArchivesHandler from './handlers/listArchivesHandler.js';
+import GetArchivedContextHandler from './handlers/getArchivedContextHandler.js';
+import RestoreContextHandler from './handlers/restoreContextHandler.js';
+import PruneArchiveHandler from './handlers/pruneArchiveHandler.js';
+import GetContextHistoryHandler from './handlers/getContextHistoryHandler.js';
+import DiffContextHandler from './handlers/diffContextHandler.js';
+import RenameProjectHandler from './handlers/renameProjectHandler.js';
+import ArchiveProjectHandler from './handlers/archiveProjectHandler.js';
+import ListArchivedProjectsHandler from './handlers/listArchivedProjectsHandler.js';
+import RestoreProjectHandler from './handlers/restoreProjectHandler.js';
+import DeleteProjectHandler from './handlers/deleteProjectHandler.js';
+import SearchContextHandler from './handlers/searchContextHandler.js';
+import ListLogEntriesHandler from './handlers/listLogEntriesHandler.js';
+import ConfigureContextTypeHandler from './handlers/configureContextTypeHandler.js';
+import GetProjectConfigHandler from './handlers/getProjectConfigHandler.js';
+import ListPresetsHandler from './handlers/listPresetsHandler.js';
+import UpdateChecklistHandler from './handlers/updateChecklistHandler.js';
+import ResourcesHandler from './handlers/resourcesHandler.js';
+import PromptsHandler from './handlers/promptsHandler.js';
+import { outputSchemas } from './handlers/outputSchemas.js';
+import { toolError } from './handlers/toolResult.js';
+import { runWithTool } from './models/context_types/utilities/toolContext.js';
+import { DiffFormat } from './models/context_types/utilities/history.js';
+import { ArchivePolicy, PersistenceHelper, ReadMode, ToolResult, TypeConfig } from './types.js';
 
 // Main server class that implements the MCP protocol
 class ContextManagerServer {
   private server: Server;
-  private persistenceHelper: FileSystemHelper;
+  private persistenceHelper: PersistenceHelper;
   private listProjectsHandler!: ListProjectsHandler;
   private listContextsHandler!: ListContextsHandler;
   private getContextHandler!: GetContextHandler;
@@ -25,10 +62,29 @@ class ContextManagerServer {
   private createProjectHandler!: CreateProjectHandler;
   private clearContextHandler!: ClearContextHandler;
   private getProjectTemplatesHandler!: GetProjectTemplatesHandler;
+  private listArchivesHandler!: ListArchivesHandler;
+  private getArchivedContextHandler!: GetArchivedContextHandler;
+  private restoreContextHandler!: RestoreContextHandler;
+  private pruneArchiveHandler!: PruneArchiveHandler;
+  private getContextHistoryHandler!: GetContextHistoryHandler;
+  private diffContextHandler!: DiffContextHandler;
+  private renameProjectHandler!: RenameProjectHandler;
+  private archiveProjectHandler!: ArchiveProjectHandler;
+  private listArchivedProjectsHandler!: ListArchivedProjectsHandler;
+  private restoreProjectHandler!: RestoreProjectHandler;
+  private deleteProjectHandler!: DeleteProjectHandler;
+  private searchContextHandler!: SearchContextHandler;
+  private listLogEntriesHandler!: ListLogEntriesHandler;
+  private configureContextTypeHandler!: ConfigureContextTypeHandler;
+  private getProjectConfigHandler!: GetProjectConfigHandler;
+  private listPresetsHandler!: ListPresetsHandler;
+  private updateChecklistHandler!: UpdateChecklistHandler;
+  private resourcesHandler!: ResourcesHandler;
+  private promptsHandler!: PromptsHandler;
 
   constructor() {
-    // Initialize filesystem helper
-    this.persistenceHelper = new FileSystemHelper();
+    // Initialize the persistence backend selected by CONTEXT_BACKEND or settings.json
+    this.persistenceHelper = createPersistenceHelper();
     
     this.listProjectsHandler = new ListProjectsHandler(this.persistenceHelper);
     this.listContextsHandler = new ListContextsHandler(this.persistenceHelper);
@@ -37,6 +93,25 @@ class ContextManagerServer {
     this.updateContextHandler = new UpdateContextHandler(this.persistenceHelper);
     this.clearContextHandler = new ClearContextHandler(this.persistenceHelper);
     this.getProjectTemplatesHandler = new GetProjectTemplatesHandler(this.persistenceHelper);
+    this.listArchivesHandler = new ListArchivesHandler(this.persistenceHelper);
+    this.getArchivedContextHandler = new GetArchivedContextHandler(this.persistenceHelper);
+    this.restoreContextHandler = new RestoreContextHandler(this.persistenceHelper);
+    this.pruneArchiveHandler = new PruneArchiveHandler(this.persistenceHelper);
+    this.getContextHistoryHandler = new GetContextHistoryHandler(this.persistenceHelper);
+    this.diffContextHandler = new DiffContextHandler(this.persistenceHelper);
+    this.renameProjectHandler = new RenameProjectHandler(this.persistenceHelper);
+    this.archiveProjectHandler = new ArchiveProjectHandler(this.persistenceHelper);
+    this.listArchivedProjectsHandler = new ListArchivedProjectsHandler(this.persistenceHelper);
+    this.restoreProjectHandler = new RestoreProjectHandler(this.persistenceHelper);
+    this.deleteProjectHandler = new DeleteProjectHandler(this.persistenceHelper);
+    this.searchContextHandler = new SearchContextHandler(this.persistenceHelper);
+    this.listLogEntriesHandler = new ListLogEntriesHandler(this.persistenceHelper);
+    this.configureContextTypeHandler = new ConfigureContextTypeHandler(this.persistenceHelper);
+    this.getProjectConfigHandler = new GetProjectConfigHandler(this.persistenceHelper);
+    this.listPresetsHandler = new ListPresetsHandler();
+    this.updateChecklistHandler = new UpdateChecklistHandler(this.persistenceHelper);
+    this.resourcesHandler = new ResourcesHandler(this.persistenceHelper);
+    this.promptsHandler = new PromptsHandler(this.persistenceHelper);
     
     console.error('Starting shared-project-context serverererer...');
     this.server = new Server(
@@ -56,7 +131,9 @@ Before updating any context, call the project templates tool to get the required
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: { subscribe: true },
+          prompts: {}
         }
       }
     );
@@ -76,7 +153,8 @@ Before updating any context, call the project templates tool to get the required
             type: 'object',
             properties: {},
             required: []
-          }
+          },
+          outputSchema: outputSchemas.list_projects
         },
         {
           name: 'list_contexts',
@@ -87,45 +165,204 @@ Before updating any context, call the project templates tool to get the required
               project_name: { type: 'string' }
             },
             required: ['project_name']
-          }
+          },
+          outputSchema: outputSchemas.list_contexts
         },
         {
           name: 'create_project',
-          description: 'Create a project to store context in. Project names are one or more words separated by hyphens. For example, "my-project" or "my-project-2". Use this when no suitable existing project is available for your current work.',
+          description: 'Create a project to store context in. Project names are one or more words separated by hyphens. For example, "my-project" or "my-project-2". Use this when no suitable existing project is available for your current work. Pass a preset (see list_presets) to start the project with that preset\'s context types, templates, prompts and seed documents.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              preset: { type: 'string', description: 'Name of the preset to initialize the project from, e.g. "software-project"' }
+            },
+            required: ['project_name']
+          },
+          outputSchema: outputSchemas.create_project
+        },
+        {
+          name: 'list_presets',
+          description: 'List the presets create_project can initialize a project from: the built-in presets and the user\'s own from the configured presets directory, which take precedence over built-in presets of the same name.',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          },
+          outputSchema: outputSchemas.list_presets
+        },
+        {
+          name: 'rename_project',
+          description: 'Rename a project, keeping all of its context, archives and templates. Fails if a project with the new name already exists.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              new_project_name: { type: 'string' }
+            },
+            required: ['project_name', 'new_project_name']
+          },
+          outputSchema: outputSchemas.rename_project
+        },
+        {
+          name: 'archive_project',
+          description: 'Set aside a project that is no longer in use. The project disappears from list_projects and its name becomes free, but everything is kept and can be brought back with restore_project.',
           inputSchema: {
             type: 'object',
             properties: {
               project_name: { type: 'string' }
             },
             required: ['project_name']
-          }
+          },
+          outputSchema: outputSchemas.archive_project
+        },
+        {
+          name: 'list_archived_projects',
+          description: 'List projects set aside with archive_project, with the snapshot of each time a project was archived (newest first).',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          },
+          outputSchema: outputSchemas.list_archived_projects
+        },
+        {
+          name: 'restore_project',
+          description: 'Bring back a project set aside with archive_project. Restores the newest snapshot unless one is given. If the name has been reused since, pass new_project_name to restore it under another name.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              snapshot: { type: 'string' },
+              new_project_name: { type: 'string' }
+            },
+            required: ['project_name']
+          },
+          outputSchema: outputSchemas.restore_project
+        },
+        {
+          name: 'delete_project',
+          description: 'Caution! Permanently delete a project with all of its context and archives. This cannot be undone; prefer archive_project unless the user explicitly asks for deletion. confirm_project_name must repeat the project name.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              confirm_project_name: { type: 'string' }
+            },
+            required: ['project_name', 'confirm_project_name']
+          },
+          outputSchema: outputSchemas.delete_project
+        },
+        {
+          name: 'configure_context_type',
+          description: 'Add, update or remove a context type in a project\'s configuration without editing project-config.json. add needs base_type and description; update changes only the fields given. Templated types with validation need an existing template, named by template or else by the type name. JSON types validate their content against schema, a JSON Schema (draft-07). remove requires on_remove: "archive" moves the stored content to the archive, "keep" leaves it where adding the type again finds it. Types inherited from the global default config are changed through the project\'s overrides and removed through its exclude list.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              action: { type: 'string', enum: ['add', 'update', 'remove'] },
+              context_type: { type: 'string' },
+              base_type: { type: 'string', enum: baseTypes },
+              description: { type: 'string' },
+              template: { type: 'string' },
+              validation: { type: 'boolean' },
+              schema: { type: 'object', description: 'JSON Schema the content of a json-document or json-document-collection type must match' },
+              archive: {
+                type: 'object',
+                properties: {
+                  maxSnapshots: { type: 'number' },
+                  maxAgeDays: { type: 'number' },
+                  compressAfterDays: { type: 'number' },
+                  deduplicate: { type: 'boolean' }
+                }
+              },
+              on_remove: { type: 'string', enum: ['archive', 'keep'] }
+            },
+            required: ['project_name', 'action', 'context_type']
+          },
+          outputSchema: outputSchemas.configure_context_type
+        },
+        {
+          name: 'get_project_config',
+          description: 'Show the effective configuration of a project: its own project-config.json merged over the global default config in CONTEXT_ROOT, with the default context types it inherits, overrides and excludes.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' }
+            },
+            required: ['project_name']
+          },
+          outputSchema: outputSchemas.get_project_config
         },
         {
           name: 'get_context',
-          description: 'Retrieve existing context from within a project. Use this to read information that you or another AI assistant previously stored. If using the "other" context_type a context_name must be provided.  Always use list_context_types first to see what context files are available for the project.',
+          description: 'Retrieve existing context from within a project. Use this to read information that you or another AI assistant previously stored. Document collection types take a context_name to read one document; without it they return an index of the collection, or every document with mode "all".  Always use list_context_types first to see what context files are available for the project. Log types return every entry, newest first, unless since, until, limit or cursor narrow the read to a window of entries. For long documents, read the outline with mode "outline" and then only the section you need.',
           inputSchema: {
             type: 'object',
             properties: {
               project_name: { type: 'string' },
               context_type: { type: 'string' },
-              context_name: { type: 'string' }
+              context_name: { type: 'string' },
+              entry_id: {
+                type: 'string',
+                description: 'Log types only. ID of a single entry to read, as listed by list_log_entries.'
+              },
+              section: {
+                type: 'string',
+                description: 'Document types only. Heading path of one section to read, e.g. "Mental Model > Components". Outer headings may be left out if the rest is unambiguous.'
+              },
+              mode: {
+                type: 'string',
+                enum: ['full', 'outline', 'all', 'index'],
+                description: 'Document types only. "outline" lists the headings, with their heading paths and sizes in bytes, instead of returning the content. For a collection read without context_name, "all" returns every document under a ==> name <== header and "index" (the default) lists each document\'s name, first heading and size.'
+              },
+              since: {
+                type: 'string',
+                description: 'Log types only. ISO 8601 time; return entries written at or after it.'
+              },
+              until: {
+                type: 'string',
+                description: 'Log types only. ISO 8601 time; return entries written before it.'
+              },
+              limit: {
+                type: 'number',
+                description: 'Log types only. Maximum number of entries to return.'
+              },
+              cursor: {
+                type: 'string',
+                description: 'Log types only. The next cursor reported by a previous read, to continue with older entries.'
+              }
             },
             required: ['project_name', 'context_type']
-          }
+          },
+          outputSchema: outputSchemas.get_context
         },
         {
           name: 'update_context',
-          description: 'Update context for a project with information that will be stored for future AI assistant sessions.  Always use get_context first to make sure you do not lose important existing context before updating. Call get_project_templates next to retrieve the required format for the context type you\'re updating. Some context types may require specifying a context_name.',
+          description: 'Update context for a project with information that will be stored for future AI assistant sessions.  Always use get_context first to make sure you do not lose important existing context before updating, and pass the revision it reports as expected_revision so the update fails instead of overwriting changes made since. Call get_project_templates next to retrieve the required format for the context type you\'re updating. Some context types may require specifying a context_name. To change one part of a document, pass its heading path as section instead of rewriting the whole document.',
           inputSchema: {
             type: 'object',
             properties: {
               project_name: { type: 'string' },
               context_type: { type: 'string' },
               context_name: { type: 'string' },
-              content: { type: 'string' }
+              content: { type: 'string' },
+              entry_id: {
+                type: 'string',
+                description: 'Log types only. ID of an existing entry to amend instead of appending a new one. The original is archived.'
+              },
+              section: {
+                type: 'string',
+                description: 'Document types only. Heading path of the section to replace, e.g. "Mental Model > Components". Content starting with a heading of the same level replaces the heading too; otherwise it replaces the body under it. The whole document is validated afterwards.'
+              },
+              expected_revision: {
+                type: 'string',
+                description: 'Revision reported by get_context. The update is rejected, and the current content returned, if the context has changed since.'
+              }
             },
             required: ['project_name', 'context_type', 'content']
-          }
+          },
+          outputSchema: outputSchemas.update_context
         },
         {
           name: 'clear_context',
@@ -135,10 +372,52 @@ Before updating any context, call the project templates tool to get the required
             properties: {
               project_name: { type: 'string' },
               context_type: { type: 'string' },
-              context_name: { type: 'string' }
+              context_name: { type: 'string' },
+              entry_id: {
+                type: 'string',
+                description: 'Log types only. ID of a single entry to clear; the rest of the log is kept.'
+              },
+              expected_revision: {
+                type: 'string',
+                description: 'Revision reported by get_context. The clear is rejected, and the current content returned, if the context has changed since.'
+              }
             },
             required: ['project_name', 'context_type']
-          }
+          },
+          outputSchema: outputSchemas.clear_context
+        },
+        {
+          name: 'update_checklist',
+          description: 'Change one item of a checklist context type without resending the list. add needs text and optionally an owner; complete, reopen, block and remove need the item_id shown by get_context. Returns the item and the whole list.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              action: { type: 'string', enum: ['add', 'complete', 'reopen', 'block', 'remove'] },
+              item_id: { type: 'string' },
+              text: { type: 'string', description: 'add only. A single line describing the item.' },
+              owner: { type: 'string', description: 'add only. Who the item is assigned to.' }
+            },
+            required: ['project_name', 'context_type', 'action']
+          },
+          outputSchema: outputSchemas.update_checklist
+        },
+        {
+          name: 'search_context',
+          description: 'Find stored context by content instead of reading every document. Ranks the sections of all documents and log entries against the query and returns the best matches with their project, context type, context name, heading path and a snippet. Optionally limit the search to one project or context type, or include archived contexts.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: { type: 'string' },
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              include_archives: { type: 'boolean', default: false },
+              limit: { type: 'number', default: 10 }
+            },
+            required: ['query']
+          },
+          outputSchema: outputSchemas.search_context
         },
         {
           name: 'get_project_templates',
@@ -149,69 +428,349 @@ Before updating any context, call the project templates tool to get the required
               project_name: { type: 'string' }
             },
             required: ['project_name']
-          }
+          },
+          outputSchema: outputSchemas.get_project_templates
+        },
+        {
+          name: 'list_log_entries',
+          description: 'List the entries of a log context type, newest first, with the entry_id, time written and size of each. Pass an entry_id to get_context, update_context or clear_context to read, amend or clear that one entry. Accepts since, until, limit and cursor like get_context.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              since: { type: 'string' },
+              until: { type: 'string' },
+              limit: { type: 'number' },
+              cursor: { type: 'string' }
+            },
+            required: ['project_name', 'context_type']
+          },
+          outputSchema: outputSchemas.list_log_entries
+        },
+        {
+          name: 'list_archives',
+          description: 'List contexts that clear_context moved into the archive, grouped by context type and archive snapshot (newest first) with file names and sizes. Use this to find and recover context that a previous session cleared. Optionally limit the listing to one context_type.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' }
+            },
+            required: ['project_name']
+          },
+          outputSchema: outputSchemas.list_archives
+        },
+        {
+          name: 'get_archived_context',
+          description: 'Read the content of an archived context. Use list_archives first to find the context_type, snapshot and context_name of the archived file you need.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              snapshot: { type: 'string' },
+              context_name: { type: 'string' }
+            },
+            required: ['project_name', 'context_type', 'snapshot', 'context_name']
+          },
+          outputSchema: outputSchemas.get_archived_context
+        },
+        {
+          name: 'restore_context',
+          description: 'Restore archived context from a snapshot listed by list_archives. Restores every document in the snapshot, or only context_name for a document collection. Current content that would be replaced is archived first, so a restore can be undone by restoring that newer snapshot. Log entries are merged back in alongside the current entries.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              snapshot: { type: 'string' },
+              context_name: { type: 'string' }
+            },
+            required: ['project_name', 'context_type', 'snapshot']
+          },
+          outputSchema: outputSchemas.restore_context
+        },
+        {
+          name: 'prune_archive',
+          description: 'Apply the archive policy from project-config.json (max snapshots, max age, compression and deduplication) to a project\'s archive, optionally for one context_type. By default this is a dry run that only reports which snapshots would be removed, compressed or deduplicated; show that to the user and call again with dry_run set to false to apply it.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              dry_run: { type: 'boolean', default: true }
+            },
+            required: ['project_name']
+          },
+          outputSchema: outputSchemas.prune_archive
+        },
+        {
+          name: 'get_context_history',
+          description: 'List the versions of a single document, or of one document in a collection (context_name required), newest first. Earlier versions come from the archive; each is identified by the snapshot that replaced it, and "current" is the live document. Use since (an ISO 8601 date) to see only versions that were current after that time, then compare versions with diff_context.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              context_name: { type: 'string' },
+              since: { type: 'string' }
+            },
+            required: ['project_name', 'context_type']
+          },
+          outputSchema: outputSchemas.get_context_history
+        },
+        {
+          name: 'diff_context',
+          description: 'Compare two versions of a document listed by get_context_history. to_version defaults to "current". Use format "unified" for a line diff or "sections" for a summary of which markdown sections were added, removed or changed.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_name: { type: 'string' },
+              context_type: { type: 'string' },
+              context_name: { type: 'string' },
+              from_version: { type: 'string' },
+              to_version: { type: 'string', default: 'current' },
+              format: { type: 'string', enum: ['unified', 'sections'], default: 'unified' }
+            },
+            required: ['project_name', 'context_type', 'from_version']
+          },
+          outputSchema: outputSchemas.diff_context
         }
       ]
     }));
 
+    // Contexts as resources, read through the same context types as get_context
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => this.resourcesHandler.listResources());
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => this.resourcesHandler.listResourceTemplates());
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => this.resourcesHandler.readResource(request.params.uri));
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => this.resourcesHandler.subscribe(request.params.uri));
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => this.resourcesHandler.unsubscribe(request.params.uri));
+
+    // The package's prompts directory and each project's own prompt files
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => this.promptsHandler.listPrompts());
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => this.promptsHandler.getPrompt(request.params.name, request.params.arguments));
+
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { params } = request;
       const { name, arguments: args = {} } = params;
-      
-        try {
-          switch (name) {
-            case 'list_contexts':
-              return await this.listContextsHandler.handle({
-                projectName: args.project_name as string
-              });
-
-            case 'list_projects':
-              return await this.listProjectsHandler.handle();
-              
-              case 'get_context':
-                return await this.getContextHandler.handle({
-                  projectName: args.project_name as string,     // Map snake_case to camelCase
-                  contextType: args.context_type as string,     // Map snake_case to camelCase
-                  contextName: args.context_name as string
-                });
-              
-            case 'update_context':
-              return await this.updateContextHandler.handle({ 
-                  projectName: args.project_name as string,
-                  contextType: args.context_type as string,
-                  contextName: args.context_name as string,
-                  content: args.content as string
-
-              });
-
-            case 'create_project':
-              return await this.createProjectHandler.handle({
-                projectName: args.project_name as string
-              });
-
-            case 'clear_context':
-              return await this.clearContextHandler.handle({
-                projectName: args.project_name as string,
-                contextType: args.context_type as string,
-                contextName: args.context_name as string
-              });              
-
-            case 'get_project_templates':
-              return await this.getProjectTemplatesHandler.handle({
-                projectName: args.project_name as string
-              });          
-              
-            default:
-              throw new Error(`Unknown tool: ${name}`);
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`Error handling tool ${name}:`, errorMessage);
+
+      try {
+        // Record the tool name so persistence backends can attribute the change
+        return await runWithTool(name, () => this.callTool(name, args));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Error handling tool ${name}:`, errorMessage);
+        // Unknown tools are protocol errors; anything that fails while running a tool,
+        // such as invalid argument combinations, is the tool's own error result
+        if (error instanceof McpError) {
           throw error;
         }
+        return toolError([{ type: 'text', text: errorMessage }]);
+      }
     });
   }
+
+  private async callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+    switch (name) {
+      case 'list_contexts':
+        return await this.listContextsHandler.handle({
+          projectName: args.project_name as string
+        });
+
+      case 'list_projects':
+        return await this.listProjectsHandler.handle();
+
+      case 'rename_project':
+        return await this.renameProjectHandler.handle({
+          projectName: args.project_name as string,
+          newProjectName: args.new_project_name as string
+        });
+
+      case 'archive_project':
+        return await this.archiveProjectHandler.handle({
+          projectName: args.project_name as string
+        });
+
+      case 'list_archived_projects':
+        return await this.listArchivedProjectsHandler.handle();
+
+      case 'restore_project':
+        return await this.restoreProjectHandler.handle({
+          projectName: args.project_name as string,
+          snapshot: args.snapshot as string | undefined,
+          newProjectName: args.new_project_name as string | undefined
+        });
+
+      case 'delete_project':
+        return await this.deleteProjectHandler.handle({
+          projectName: args.project_name as string,
+          confirmProjectName: args.confirm_project_name as string | undefined
+        });
+
+      case 'configure_context_type':
+        return await this.configureContextTypeHandler.handle({
+          projectName: args.project_name as string,
+          action: args.action as 'add' | 'update' | 'remove',
+          contextType: args.context_type as string,
+          baseType: args.base_type as TypeConfig['baseType'] | undefined,
+          description: args.description as string | undefined,
+          template: args.template as string | undefined,
+          validation: args.validation as boolean | undefined,
+          schema: args.schema as Record<string, unknown> | undefined,
+          archive: args.archive as ArchivePolicy | undefined,
+          onRemove: args.on_remove as 'archive' | 'keep' | undefined
+        });
+
+      case 'get_project_config':
+        return await this.getProjectConfigHandler.handle({
+          projectName: args.project_name as string
+        });
+
+      case 'get_context':
+        return await this.getContextHandler.handle({
+          projectName: args.project_name as string,     // Map snake_case to camelCase
+          contextType: args.context_type as string,     // Map snake_case to camelCase
+          contextName: args.context_name as string,
+          entryId: args.entry_id as string | undefined,
+          section: args.section as string | undefined,
+          mode: args.mode as ReadMode | undefined,
+          since: args.since as string | undefined,
+          until: args.until as string | undefined,
+          limit: args.limit as number | undefined,
+          cursor: args.cursor as string | undefined
+        });
+
+      case 'update_context':
+        return await this.notifyResourcesUpdated(args, await this.updateContextHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          contextName: args.context_name as string,
+          content: args.content as string,
+          entryId: args.entry_id as string | undefined,
+          section: args.section as string | undefined,
+          expectedRevision: args.expected_revision as string | undefined
+        }));
+
+      case 'create_project':
+        return await this.createProjectHandler.handle({
+          projectName: args.project_name as string,
+          preset: args.preset as string | undefined
+        });
+
+      case 'list_presets':
+        return await this.listPresetsHandler.handle();
+
+      case 'update_checklist':
+        return await this.notifyResourcesUpdated(args, await this.updateChecklistHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          action: args.action as 'add' | 'complete' | 'reopen' | 'block' | 'remove',
+          itemId: args.item_id as string | undefined,
+          text: args.text as string | undefined,
+          owner: args.owner as string | undefined
+        }));
+
+      case 'clear_context':
+        return await this.notifyResourcesUpdated(args, await this.clearContextHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          contextName: args.context_name as string,
+          entryId: args.entry_id as string | undefined,
+          expectedRevision: args.expected_revision as string | undefined
+        }));
+
+      case 'search_context':
+        return await this.searchContextHandler.handle({
+          query: args.query as string,
+          projectName: args.project_name as string | undefined,
+          contextType: args.context_type as string | undefined,
+          includeArchives: args.include_archives as boolean | undefined,
+          limit: args.limit as number | undefined
+        });
+
+      case 'get_project_templates':
+        return await this.getProjectTemplatesHandler.handle({
+          projectName: args.project_name as string
+        });
+
+      case 'list_log_entries':
+        return await this.listLogEntriesHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          since: args.since as string | undefined,
+          until: args.until as string | undefined,
+          limit: args.limit as number | undefined,
+          cursor: args.cursor as string | undefined
+        });
+
+      case 'list_archives':
+        return await this.listArchivesHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string | undefined
+        });
+
+      case 'get_archived_context':
+        return await this.getArchivedContextHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          snapshot: args.snapshot as string,
+          contextName: args.context_name as string
+        });
+
+      case 'restore_context':
+        return await this.restoreContextHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          snapshot: args.snapshot as string,
+          contextName: args.context_name as string | undefined
+        });
+
+      case 'prune_archive':
+        return await this.pruneArchiveHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string | undefined,
+          dryRun: args.dry_run as boolean | undefined
+        });
+
+      case 'get_context_history':
+        return await this.getContextHistoryHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          contextName: args.context_name as string | undefined,
+          since: args.since as string | undefined
+        });
+
+      case 'diff_context':
+        return await this.diffContextHandler.handle({
+          projectName: args.project_name as string,
+          contextType: args.context_type as string,
+          contextName: args.context_name as string | undefined,
+          fromVersion: args.from_version as string,
+          toVersion: args.to_version as string | undefined,
+          format: args.format as DiffFormat | undefined
+        });
+
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+  }
   
+  // Tells subscribed clients about the resources a successful write changed
+  private async notifyResourcesUpdated(args: Record<string, unknown>, result: ToolResult): Promise<ToolResult> {
+    if (!result.isError) {
+      const uris = this.resourcesHandler.updatedResources(
+        args.project_name as string,
+        args.context_type as string,
+        (args.entry_id ?? args.context_name) as string | undefined
+      );
+      for (const uri of uris) {
+        await this.server.sendResourceUpdated({ uri });
+      }
+    }
+    return result;
+  }
+
   public async start(): Promise<void> {
     console.error('Starting shared-project-context server.........');
     try {
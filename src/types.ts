@@ -1,11 +1,18 @@
-   import { FileSystemHelper } from "./models/context_types/utilities/fileSystem.js";
-
    //Used in Handlers
    export interface ContentItem {
     type: string;
     text: string;
   }
 
+   // A tool's result: text for the model and, on success, structuredContent matching
+   // the tool's outputSchema for scripts. Failures set isError and carry text only.
+   // A type rather than an interface so it stays assignable to the SDK's result type
+   export type ToolResult = {
+    content: ContentItem[];
+    structuredContent?: Record<string, unknown>;
+    isError?: boolean;
+  };
+
   // Used in Context Types
    // Validation Response Types
    export interface ValidationResponse {
@@ -24,15 +31,57 @@
 
 
    export interface ContextTypeArgs {
-      persistenceHelper: FileSystemHelper,
+      persistenceHelper: PersistenceHelper,
       projectName: string,
       contextName?: string,
-      content?: string
+      content?: string,
+      expectedRevision?: string,
+      logWindow?: LogWindow,
+      entryId?: string,    // A single log entry, by its stored name
+      section?: string,    // Heading path within a document, e.g. "Mental Model > Components"
+      mode?: ReadMode
+   }
+
+   // How a document is read: its content, or an outline of its headings. A collection
+   // read without a context name returns every document ('all') or an index of them.
+   export type ReadMode = 'full' | 'outline' | 'all' | 'index';
+
+   // One document in a collection index
+   export interface CollectionIndexEntry {
+      contextName: string;
+      title: string | null;  // Text of the document's first heading
+      size: number;          // Bytes
+   }
+
+   export type ChecklistStatus = 'open' | 'done' | 'blocked';
+
+   // One item of a checklist
+   export interface ChecklistItem {
+      id: string;
+      text: string;
+      status: ChecklistStatus;
+      owner?: string;
+      createdAt: string;     // ISO timestamps
+      updatedAt: string;
+      completedAt?: string;  // Only while the item is done
+   }
+
+   // Narrows a log read to the entries written in a time range, a page at a time.
+   // Entries are returned newest first.
+   export interface LogWindow {
+      since?: string;    // ISO 8601; entries written at or after this time
+      until?: string;    // ISO 8601; entries written before this time
+      limit?: number;    // Maximum number of entries to return
+      cursor?: string;   // nextCursor from the previous page
    }
     
    export interface ContexTypeResponse {   
     success: boolean;
     content?: string;
+    revision?: string;     // Identifies the content that was read, for expected_revision checks
+    conflict?: boolean;    // The write was rejected because the content changed since it was read
+    hasMore?: boolean;     // A windowed log read left older entries in the window unreturned
+    nextCursor?: string;   // Pass as cursor to read the next page of log entries
     validation?: ValidationResponse;
     errors?: string[];
    }
@@ -43,7 +92,7 @@
       read(): Promise<ContexTypeResponse>;
       reset(): Promise<ContexTypeResponse>;
       validate(): Promise<ValidationResponse>;
-      persistenceHelper: FileSystemHelper;
+      persistenceHelper: PersistenceHelper;
    }
 
 export interface PersistenceResponse {
@@ -51,6 +100,38 @@ export interface PersistenceResponse {
    data?: string[];
    errors?: string[];
    config?: ProjectConfig;
+   archives?: ArchiveEntry[];
+   prune?: ArchivePruneResult;
+   archivedProjects?: ArchivedProject[];
+   entries?: ContextEntry[];
+   prompts?: PromptFile[];
+}
+
+// A context that was moved into the archive by clearContext
+export interface ArchiveEntry {
+   contextType: string;
+   snapshot: string;  // Timestamp of the clear that archived it, e.g. 2025-01-01T12-00-00-000Z
+   name: string;      // Stored context name, as passed to getArchivedContext
+   size: number;      // Content size in bytes
+}
+
+// A stored context under its stored name: the type name for single documents, the
+// document name for collections and the timestamped entry name for logs
+export interface ContextEntry {
+   name: string;
+   content: string;
+}
+
+// A project's own prompt file, named without its .md extension
+export interface PromptFile {
+   name: string;
+   content: string;
+}
+
+// A whole project set aside by archiveProject, restorable with restoreProject
+export interface ArchivedProject {
+   projectName: string;
+   snapshot: string;  // Timestamp of the archiveProject call
 }
 
 export interface PersistenceHelper {
@@ -58,23 +139,98 @@ export interface PersistenceHelper {
    initProject(projectName: string): Promise<PersistenceResponse>;
    listAllContextForType(projectName: string, contextType: string): Promise<PersistenceResponse>;
    writeContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse>
-   getContext(projectName: string, contextType: string, contextName: string[]): Promise<PersistenceResponse>;
-   clearContext(projectName: string, contextType: string, contextName: string[]): Promise<PersistenceResponse>;
+   getContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse>;
+   listContextEntries(projectName: string, contextType: string): Promise<PersistenceResponse>;
+   clearContext(projectName: string, contextType: string, contextNames?: string[]): Promise<PersistenceResponse>;
+   amendLogEntry(projectName: string, contextType: string, entryId: string, content: string): Promise<PersistenceResponse>;
+   replaceContext(projectName: string, contextType: string, contextName: string, content: string): Promise<PersistenceResponse>;  // Archives a copy of a document, then writes over it
    getTemplate(projectName: string, contextType: string): Promise<PersistenceResponse>;
-   getProjectConfig(projectName: string): Promise<PersistenceResponse>;
+   getNamedTemplate(projectName: string, templateName: string): Promise<PersistenceResponse>;
+   writeTemplate(projectName: string, templateName: string, content: string): Promise<PersistenceResponse>;
+   listPrompts(projectName: string): Promise<PersistenceResponse>;
+   writePrompt(projectName: string, promptName: string, content: string): Promise<PersistenceResponse>;
+   getProjectConfig(projectName: string): Promise<PersistenceResponse>;  // Effective config, merged with the global default
+   getOwnProjectConfig(projectName: string): Promise<PersistenceResponse>;  // The project's own config, as stored
+   getGlobalDefaultConfig(): Promise<PersistenceResponse>;  // config is unset when there is none
+   writeProjectConfig(projectName: string, config: ProjectConfig): Promise<PersistenceResponse>;  // Writes the project's own config
+   listArchives(projectName: string, contextType?: string): Promise<PersistenceResponse>;
+   getArchivedContext(projectName: string, contextType: string, snapshot: string, contextName: string): Promise<PersistenceResponse>;
+   pruneArchive(projectName: string, contextType?: string, dryRun?: boolean): Promise<PersistenceResponse>;
+   restoreContext(projectName: string, contextType: string, snapshot: string, contextNames?: string[]): Promise<PersistenceResponse>;
+   renameProject(projectName: string, newProjectName: string): Promise<PersistenceResponse>;
+   archiveProject(projectName: string): Promise<PersistenceResponse>;
+   listArchivedProjects(): Promise<PersistenceResponse>;
+   restoreProject(projectName: string, snapshot?: string, newProjectName?: string): Promise<PersistenceResponse>;
+   deleteProject(projectName: string): Promise<PersistenceResponse>;
+   withProjectLock<T>(projectName: string, operation: () => Promise<T>): Promise<T>;
 }
 
 // Configuration system types
 export interface TypeConfig {
   baseType: 'templated-single-document' | 'freeform-single-document' | 
            'templated-document-collection' | 'freeform-document-collection' |
-           'templated-log' | 'freeform-log';
+           'templated-log' | 'freeform-log' |
+           'json-document' | 'json-document-collection' |
+           'checklist';
   name: string;
   description: string;
   template?: string;
   validation?: boolean;
+  schema?: Record<string, unknown>;  // JSON Schema the content of JSON types must match
+  archive?: ArchivePolicy;  // Overrides the project-wide policy for this type
 }
 
 export interface ProjectConfig {
   contextTypes: TypeConfig[];
-}
\ No newline at end of file
+  archive?: ArchivePolicy;
+  overrides?: Record<string, TypeConfigOverride>;  // Field changes to inherited types, by type name
+  exclude?: string[];                                // Inherited types the project opts out of
+}
+
+// The fields of an inherited context type a project can change
+export type TypeConfigOverride = Partial<Omit<TypeConfig, 'name'>>;
+
+// Limits on how much cleared context is kept in the archive, applied per context type
+export interface ArchivePolicy {
+  maxSnapshots?: number;       // Keep at most this many snapshots, newest first
+  maxAgeDays?: number;         // Remove snapshots older than this
+  compressAfterDays?: number;  // Gzip snapshots older than this; 0 compresses every snapshot
+  deduplicate?: boolean;       // Store identical archived files only once
+}
+
+// One version of a document, as listed by get_context_history
+export interface ContextVersion {
+  version: string;            // 'current', or the archive snapshot that replaced this version
+  replacedAt: string | null;  // ISO 8601 time the version was replaced, null for the current one
+  size: number;               // Content size in bytes
+}
+
+// One match of search_context: the best-matching section of a document or log entry
+export interface SearchResult {
+  projectName: string;
+  contextType: string;
+  contextName: string;        // Stored name, e.g. a collection document or timestamped log entry
+  snapshot?: string;          // Archive snapshot, for matches in archived contexts
+  headingPath: string[];      // Headings enclosing the matching section, outermost first
+  snippet: string;
+  score: number;
+}
+
+export interface PrunedSnapshot {
+  contextType: string;
+  snapshot: string;
+  reason?: 'max_snapshots' | 'max_age';
+}
+
+export interface ArchivePruneResult {
+  dryRun: boolean;
+  removed: PrunedSnapshot[];
+  compressed: PrunedSnapshot[];
+  deduplicated: ArchiveEntry[];
+}
+
+// Server settings, read from CONTEXT_ROOT/settings.json
+export interface ServerSettings {
+  backend?: string;
+  presetsDir?: string;  // Directory of the user's own presets, relative to CONTEXT_ROOT unless absolute
+}